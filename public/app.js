@@ -1,8 +1,22 @@
 const API_BASE = 'http://localhost:3000/api';
 
-let currentUserId = 'user1';
+// Внутри Telegram Mini App пользователь определяется подписанными initData
+const telegramWebApp = window.Telegram?.WebApp;
+
+let currentUserId = telegramWebApp?.initDataUnsafe?.user
+    ? String(telegramWebApp.initDataUnsafe.user.id)
+    : 'user1';
 let botInterval = null;
 let activeBots = [];
+let auctionEvents = null;
+let userEvents = null;
+
+// Почему раунд продлён (правило anti-sniping)
+const ANTI_SNIPING_TRIGGER_LABELS = {
+    any_bid: 'ставка в конце раунда',
+    enters_top: 'ставка в топ',
+    displaces_winner: 'вытеснен победитель',
+};
 
 // Утилиты
 function copyToClipboard(text) {
@@ -32,19 +46,31 @@ function showTab(tabName) {
     event.target.classList.add('active');
 }
 
+// Заголовки авторизации: initData в Telegram, X-User-Id в локальном демо
+function authHeaders(userId = currentUserId) {
+    if (telegramWebApp?.initData) {
+        return { Authorization: `tma ${telegramWebApp.initData}` };
+    }
+    return { 'X-User-Id': userId };
+}
+
 async function apiCall(endpoint, options = {}) {
     try {
         const response = await fetch(`${API_BASE}${endpoint}`, {
+            ...options,
             headers: {
                 'Content-Type': 'application/json',
+                ...authHeaders(),
                 ...options.headers,
             },
-            ...options,
         });
         
         if (!response.ok) {
             const error = await response.json();
-            throw new Error(error.error || 'Request failed');
+            const requestError = new Error(error.error || 'Request failed');
+            // Структурированные поля ошибки (например, minimumAmount у отклонённой ставки)
+            requestError.details = error;
+            throw requestError;
         }
         
         return await response.json();
@@ -71,10 +97,10 @@ async function loadAuctions() {
                 <span class="status ${auction.status}">${auction.status}</span>
                 <div class="auction-info">
                     <p><strong>ID:</strong> <code style="font-size: 0.9em; background: #f0f0f0; padding: 2px 6px; border-radius: 3px; cursor: pointer;" onclick="event.stopPropagation(); copyToClipboard('${auction._id}')" title="Нажмите, чтобы скопировать">${auction._id}</code></p>
-                    <p>Раунд: ${auction.currentRound} / ${Math.ceil(auction.totalItems / auction.itemsPerRound)}</p>
-                    <p>Товаров в раунде: ${auction.itemsPerRound}</p>
+                    <p>Раунд: ${auction.currentRound} / ${auction.roundPlan.length}</p>
+                    <p>Товаров в раунде: ${auction.rounds?.[auction.currentRound - 1]?.items ?? auction.roundPlan[auction.currentRound - 1]?.items}</p>
                     <p>Минимальная ставка: ${auction.minBid}</p>
-                    <p>Ставок: ${auction.bids?.length || 0}</p>
+                    <p>Ставок в раунде: ${auction.rounds?.[auction.currentRound - 1]?.totalBids || 0}</p>
                 </div>
                 ${auction.status === 'active' ? `
                     <div class="bid-form">
@@ -127,12 +153,26 @@ async function showAuctionDetails(auctionId) {
                 <div id="leaderboard-${auction._id}">Загрузка...</div>
             </div>
             
+            ${currentRound && currentRound.extensions && currentRound.extensions.length > 0 ? `
+                <div class="extensions-list">
+                    <h4>Продления раунда ${auction.currentRound}</h4>
+                    ${currentRound.extensions.map((ext) => `
+                        <div class="extension-item">
+                            ${new Date(ext.at).toLocaleTimeString()}: ставка ${ext.amount} от User ${ext.userId}
+                            (${ANTI_SNIPING_TRIGGER_LABELS[ext.trigger] || ext.trigger}) —
+                            до ${new Date(ext.newEndTime).toLocaleTimeString()}
+                        </div>
+                    `).join('')}
+                </div>
+            ` : ''}
+            
             ${currentRound && currentRound.winners && currentRound.winners.length > 0 ? `
                 <div class="winners-list">
                     <h4>Победители раунда ${auction.currentRound}</h4>
+                    ${currentRound.clearingPrice !== undefined ? `<p>Цена раунда: ${currentRound.clearingPrice}</p>` : ''}
                     ${currentRound.winners.map((winner, idx) => `
                         <div class="winner-item">
-                            ${idx + 1}. User ${winner.userId} - ${winner.bidAmount}
+                            ${idx + 1}. User ${winner.userId} - ${winner.bidAmount}${winner.price !== undefined && winner.price !== winner.bidAmount ? ` (заплатил ${winner.price})` : ''}
                         </div>
                     `).join('')}
                 </div>
@@ -146,6 +186,8 @@ async function showAuctionDetails(auctionId) {
             loadLeaderboard(auctionId, auction.currentRound);
         }
         
+        subscribeToAuction(auctionId);
+        
         // Обновлять таймер каждую секунду
         if (currentRound && currentRound.status === 'active') {
             const timer = setInterval(() => {
@@ -164,8 +206,72 @@ async function showAuctionDetails(auctionId) {
     }
 }
 
+// Подписаться на события аукциона (SSE) вместо опроса
+function subscribeToAuction(auctionId) {
+    if (auctionEvents && auctionEvents.auctionId === auctionId) {
+        return;
+    }
+    unsubscribeFromAuction();
+    
+    auctionEvents = new EventSource(`${API_BASE}/auctions/${auctionId}/events`);
+    auctionEvents.auctionId = auctionId;
+    
+    auctionEvents.addEventListener('leaderboard_changed', (e) => {
+        const event = JSON.parse(e.data);
+        loadLeaderboard(auctionId, event.roundNumber);
+    });
+    
+    ['round_extended', 'round_completed', 'auction_completed'].forEach((type) => {
+        auctionEvents.addEventListener(type, () => showAuctionDetails(auctionId));
+    });
+}
+
+function unsubscribeFromAuction() {
+    if (auctionEvents) {
+        auctionEvents.close();
+        auctionEvents = null;
+    }
+}
+
+// Подписаться на личные события пользователя (SSE). EventSource не умеет
+// передавать заголовки, поэтому initData передаётся параметром запроса
+function subscribeToUser(userId) {
+    if (userEvents && userEvents.userId === userId) {
+        return;
+    }
+    unsubscribeFromUser();
+    
+    const params = new URLSearchParams();
+    if (telegramWebApp?.initData) {
+        params.set('initData', telegramWebApp.initData);
+    }
+    const query = params.toString();
+    userEvents = new EventSource(`${API_BASE}/users/${userId}/events${query ? `?${query}` : ''}`);
+    userEvents.userId = userId;
+    
+    userEvents.addEventListener('outbid', (e) => {
+        const event = JSON.parse(e.data);
+        alert(`Вашу ставку ${event.amount.toFixed(2)} перебили в раунде ${event.roundNumber}`);
+        loadUserProfile();
+    });
+    
+    userEvents.addEventListener('won', (e) => {
+        const event = JSON.parse(e.data);
+        alert(`Вы выиграли место ${event.position} в раунде ${event.roundNumber} за ${event.price.toFixed(2)}`);
+        loadUserProfile();
+    });
+}
+
+function unsubscribeFromUser() {
+    if (userEvents) {
+        userEvents.close();
+        userEvents = null;
+    }
+}
+
 function closeModal() {
     document.getElementById('auction-modal').style.display = 'none';
+    unsubscribeFromAuction();
 }
 
 function formatTime(seconds) {
@@ -214,7 +320,6 @@ async function placeBid(auctionId, event) {
         await apiCall(`/auctions/${auctionId}/bid`, {
             method: 'POST',
             body: JSON.stringify({
-                userId: currentUserId,
                 amount: amount,
             }),
         });
@@ -230,6 +335,10 @@ async function placeBid(auctionId, event) {
         }
     } catch (error) {
         console.error('Error placing bid:', error);
+        // Подставить минимальную сумму, которую примет сервер
+        if (error.details?.minimumAmount !== undefined) {
+            input.value = error.details.minimumAmount;
+        }
     }
 }
 
@@ -244,6 +353,7 @@ document.getElementById('create-auction-form').addEventListener('submit', async
         itemsPerRound: parseInt(document.getElementById('items-per-round').value),
         roundDuration: parseInt(document.getElementById('round-duration').value),
         minBid: parseFloat(document.getElementById('min-bid').value),
+        pricingRule: document.getElementById('pricing-rule').value,
         antiSnipingWindow: parseInt(document.getElementById('anti-sniping').value),
     };
     
@@ -279,15 +389,21 @@ async function loadUserProfile() {
             body: JSON.stringify({ username: `User ${userId}` }),
         });
         
+        const balance = await apiCall(`/users/${userId}/balance`);
+        
         document.getElementById('user-info').innerHTML = `
             <h3>Профиль пользователя</h3>
             <p>User ID: ${user.userId}</p>
             <p>Username: ${user.username || 'N/A'}</p>
-            <div class="balance">Баланс: ${user.balance.toFixed(2)}</div>
+            <div class="balance">Доступно: ${balance.available.toFixed(2)}</div>
+            <p>Заблокировано в ставках: ${balance.held.toFixed(2)}</p>
+            ${balance.holds.map(hold => `
+                <p>Аукцион ${hold.auctionId}: ${hold.amount.toFixed(2)}</p>
+            `).join('')}
         `;
         
         // Загрузить транзакции
-        const transactions = await apiCall(`/users/${userId}/transactions?limit=20`);
+        const { items: transactions } = await apiCall(`/users/${userId}/transactions?limit=20`);
         const transactionsContainer = document.getElementById('transactions');
         
         transactionsContainer.innerHTML = `
@@ -301,6 +417,8 @@ async function loadUserProfile() {
                 </div>
             `).join('')}
         `;
+        
+        subscribeToUser(userId);
     } catch (error) {
         console.error('Error loading user profile:', error);
     }
@@ -362,12 +480,14 @@ async function startBots() {
             // Создать пользователя для бота
             await apiCall(`/users/${botId}`, {
                 method: 'POST',
+                headers: authHeaders(botId),
                 body: JSON.stringify({ username: `Bot ${i + 1}` }),
             });
             
             // Пополнить баланс
             await apiCall(`/users/${botId}/deposit`, {
                 method: 'POST',
+                headers: authHeaders(botId),
                 body: JSON.stringify({ amount: 10000 }),
             });
         }
@@ -381,8 +501,8 @@ async function startBots() {
                     
                     await apiCall(`/auctions/${auctionId}/bid`, {
                         method: 'POST',
+                        headers: authHeaders(botId),
                         body: JSON.stringify({
-                            userId: botId,
                             amount: Math.round(bidAmount * 100) / 100,
                         }),
                     });
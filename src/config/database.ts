@@ -1,4 +1,4 @@
-import mongoose from 'mongoose';
+import mongoose, { ClientSession } from 'mongoose';
 import logger from './logger';
 
 export const connectDatabase = async (): Promise<void> => {
@@ -31,3 +31,56 @@ export const disconnectDatabase = async (): Promise<void> => {
   }
 };
 
+
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+/**
+ * Проверить, можно ли повторить транзакцию после ошибки
+ * (конфликт записи в MongoDB или конфликт версии документа)
+ */
+export const isRetryableTransactionError = (error: unknown): boolean => {
+  if (error instanceof mongoose.Error.VersionError) {
+    return true;
+  }
+
+  if (error instanceof mongoose.mongo.MongoError) {
+    return (
+      error.hasErrorLabel('TransientTransactionError') ||
+      error.hasErrorLabel('UnknownTransactionCommitResult')
+    );
+  }
+
+  // WriteConflict
+  return (error as { code?: unknown } | null)?.code === 112;
+};
+
+/**
+ * Выполнить функцию в MongoDB-транзакции.
+ * Все операции должны передавать полученную сессию. При конфликте записи
+ * или версии документа транзакция откатывается и выполняется заново.
+ */
+export const withTransaction = async <T>(
+  fn: (session: ClientSession) => Promise<T>
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    const session = await mongoose.startSession();
+
+    try {
+      let result: T | undefined;
+      await session.withTransaction(async () => {
+        result = await fn(session);
+      });
+      return result as T;
+    } catch (error: any) {
+      if (attempt >= MAX_TRANSACTION_ATTEMPTS || !isRetryableTransactionError(error)) {
+        throw error;
+      }
+
+      logger.warn(`Transaction conflict, retrying (attempt ${attempt}): ${error.message}`);
+      // Небольшая случайная задержка, чтобы конкурирующие запросы разошлись
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * 20 * attempt));
+    } finally {
+      await session.endSession();
+    }
+  }
+};
@@ -0,0 +1,192 @@
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+import logger from './logger';
+import { Clock, systemClock } from '../utils/clock';
+import { StorageBackend } from '../repositories/types';
+
+export type EventHandler<T = unknown> = (payload: T) => void;
+export type ChannelEventHandler<T = unknown> = (channel: string, payload: T) => void;
+
+// Служебное событие эмиттера, на которое приходят сообщения всех каналов
+const ALL_CHANNELS = Symbol('all-channels');
+
+/**
+ * Брокер событий: доставляет сообщения подписчикам канала
+ */
+export interface EventBroker {
+  readonly shared: boolean; // Доставляет ли брокер события на другие экземпляры сервера
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  publish(channel: string, payload: unknown): Promise<void>;
+  // Брокер не проверяет сообщения: тип T задаёт подписчик по каналу
+  subscribe<T>(channel: string, handler: EventHandler<T>): () => void;
+  subscribeAll<T>(handler: ChannelEventHandler<T>): () => void;
+}
+
+/**
+ * Брокер внутри процесса. Подходит для одного экземпляра сервера
+ */
+export class LocalEventBroker implements EventBroker {
+  readonly shared: boolean = false;
+  protected emitter = new EventEmitter();
+
+  constructor() {
+    // Каждое SSE-соединение — отдельный подписчик
+    this.emitter.setMaxListeners(0);
+  }
+
+  async start(): Promise<void> {
+    logger.info('Local event broker started');
+  }
+
+  async stop(): Promise<void> {
+    this.emitter.removeAllListeners();
+  }
+
+  async publish(channel: string, payload: unknown): Promise<void> {
+    this.deliver(channel, payload);
+  }
+
+  subscribe<T>(channel: string, handler: EventHandler<T>): () => void {
+    this.emitter.on(channel, handler);
+    return () => {
+      this.emitter.off(channel, handler);
+    };
+  }
+
+  subscribeAll<T>(handler: ChannelEventHandler<T>): () => void {
+    this.emitter.on(ALL_CHANNELS, handler);
+    return () => {
+      this.emitter.off(ALL_CHANNELS, handler);
+    };
+  }
+
+  /**
+   * Передать сообщение подписчикам канала и подписчикам всех каналов
+   */
+  protected deliver(channel: string, payload: unknown): void {
+    this.emitter.emit(channel, payload);
+    this.emitter.emit(ALL_CHANNELS, channel, payload);
+  }
+}
+
+const EVENT_BUS_COLLECTION = 'event_bus';
+const EVENT_BUS_SIZE_BYTES = 16 * 1024 * 1024;
+const RECONNECT_DELAY_MS = 1000;
+
+interface EventBusDocument {
+  channel: string;
+  payload: unknown;
+  createdAt: Date;
+}
+
+/**
+ * Брокер поверх capped-коллекции MongoDB. Каждый экземпляр сервера читает
+ * коллекцию tailable-курсором, поэтому событие, опубликованное на одном
+ * экземпляре, получают подписчики на всех экземплярах за балансировщиком.
+ */
+export class MongoEventBroker extends LocalEventBroker {
+  readonly shared: boolean = true;
+  private running = false;
+  private lastSeenId = new mongoose.Types.ObjectId();
+  private cursor: mongoose.mongo.FindCursor<mongoose.mongo.WithId<EventBusDocument>> | null = null;
+
+  constructor(private readonly clock: Clock = systemClock) {
+    super();
+  }
+
+  async start(): Promise<void> {
+    const db = mongoose.connection.db;
+    if (!db) {
+      throw new Error('MongoDB connection is not established');
+    }
+
+    const existing = await db.listCollections({ name: EVENT_BUS_COLLECTION }).toArray();
+    if (existing.length === 0) {
+      try {
+        await db.createCollection(EVENT_BUS_COLLECTION, {
+          capped: true,
+          size: EVENT_BUS_SIZE_BYTES,
+        });
+      } catch (error: any) {
+        // Коллекцию мог параллельно создать другой экземпляр
+        if (error.codeName !== 'NamespaceExists') {
+          throw error;
+        }
+      }
+    }
+
+    // Читать только события, опубликованные после старта
+    this.lastSeenId = new mongoose.Types.ObjectId();
+    this.running = true;
+    this.tail();
+
+    logger.info('MongoDB event broker started');
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.cursor) {
+      await this.cursor.close().catch(() => undefined);
+      this.cursor = null;
+    }
+    await super.stop();
+  }
+
+  async publish(channel: string, payload: unknown): Promise<void> {
+    // Доставка локальным подписчикам тоже идёт через курсор,
+    // чтобы порядок событий был одинаковым на всех экземплярах
+    await mongoose.connection.collection<EventBusDocument>(EVENT_BUS_COLLECTION).insertOne({
+      channel,
+      payload,
+      createdAt: this.clock.now(),
+    });
+  }
+
+  private async tail(): Promise<void> {
+    while (this.running) {
+      try {
+        this.cursor = mongoose.connection
+          .collection<EventBusDocument>(EVENT_BUS_COLLECTION)
+          .find({ _id: { $gt: this.lastSeenId } }, { tailable: true, awaitData: true });
+
+        for await (const doc of this.cursor) {
+          this.lastSeenId = doc._id;
+          this.deliver(doc.channel, doc.payload);
+        }
+      } catch (error: any) {
+        if (this.running) {
+          logger.warn(`Event bus cursor failed, reconnecting: ${error.message}`);
+        }
+      }
+
+      // Пустая capped-коллекция или обрыв соединения закрывают курсор
+      if (this.running) {
+        await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+      }
+    }
+  }
+}
+
+/**
+ * Создать брокер согласно EVENT_BROKER (local | mongo). Брокеру mongo нужна
+ * MongoDB, поэтому с хранилищем backend в памяти он недоступен
+ */
+export const createEventBroker = (
+  clock: Clock = systemClock,
+  backend: StorageBackend = 'mongo'
+): EventBroker => {
+  const type = process.env.EVENT_BROKER || 'local';
+
+  switch (type) {
+    case 'local':
+      return new LocalEventBroker();
+    case 'mongo':
+      if (backend !== 'mongo') {
+        throw new Error(`EVENT_BROKER=mongo requires STORAGE_BACKEND=mongo (got ${backend})`);
+      }
+      return new MongoEventBroker(clock);
+    default:
+      throw new Error(`Unknown event broker: ${type}`);
+  }
+};
@@ -0,0 +1,101 @@
+import { Request, Response } from 'express';
+import UserService from '../services/UserService';
+import AuditService from '../services/AuditService';
+import LedgerService from '../services/LedgerService';
+import AuctionHistoryService from '../services/AuctionHistoryService';
+import logger from '../config/logger';
+import { TRANSACTION_COLUMNS, parseTransactionFilters } from './UserController';
+import { ExportFormat, streamExport } from '../utils/export';
+
+export class AdminController {
+  async setUserRole(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      const { role } = req.body;
+      const user = await UserService.setRole(userId, role, req.actor!);
+      res.json(user);
+    } catch (error: any) {
+      logger.error('Error setting user role:', error);
+      res.status(400).json({ error: error.message });
+    }
+  }
+
+  async getAuditLog(req: Request, res: Response): Promise<void> {
+    try {
+      const { actorId, targetType, targetId, action } = req.query as Record<string, string | undefined>;
+      const limit = parseInt(req.query.limit as string) || 100;
+      const entries = await AuditService.getEntries({
+        actorId,
+        targetType: targetType as 'auction' | 'user' | undefined,
+        targetId,
+        action,
+        limit,
+      });
+      res.json(entries);
+    } catch (error: any) {
+      logger.error('Error getting audit log:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+
+  async getReconciliation(_req: Request, res: Response): Promise<void> {
+    try {
+      const report = await LedgerService.reconcile();
+      res.json(report);
+    } catch (error: any) {
+      logger.error('Error reconciling ledger:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+
+  async getTrialBalance(_req: Request, res: Response): Promise<void> {
+    try {
+      const accounts = await LedgerService.getTrialBalance();
+      res.json(accounts);
+    } catch (error: any) {
+      logger.error('Error getting trial balance:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+
+  async getAuctionHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const history = await AuctionHistoryService.getHistory(req.params.id);
+      res.json(history);
+    } catch (error: any) {
+      logger.error('Error getting auction history:', error);
+      res.status(400).json({ error: error.message });
+    }
+  }
+
+  async exportAuctionTransactions(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const filters = parseTransactionFilters(req);
+      await streamExport(res, UserService.exportTransactions({ auctionId: id }, filters), {
+        format: (req.query.format as ExportFormat | undefined) ?? 'csv',
+        filename: `transactions-auction-${id}`,
+        columns: TRANSACTION_COLUMNS,
+      });
+    } catch (error: any) {
+      logger.error('Error exporting auction transactions:', error);
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      res.status(500).json({ error: error.message });
+    }
+  }
+
+  async replayAuction(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await AuctionHistoryService.verify(req.params.id);
+      res.json(report);
+    } catch (error: any) {
+      logger.error('Error replaying auction history:', error);
+      res.status(400).json({ error: error.message });
+    }
+  }
+}
+
+export default new AdminController();
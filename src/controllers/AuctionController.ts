@@ -1,12 +1,83 @@
 import { Request, Response } from 'express';
 import mongoose from 'mongoose';
 import AuctionService from '../services/AuctionService';
+import SettlementService from '../services/SettlementService';
 import logger from '../config/logger';
+import { AuctionSort, AuctionStatus } from '../repositories';
+import { ExportColumn, ExportFormat, streamExport } from '../utils/export';
+import { SettlementReport, SettlementRound, SettlementUser, SettlementWinner } from '../utils/settlement';
+import { BidRejectedError, ParticipationLimitError, RequestAlreadyAppliedError } from '../utils/errors';
+import { isRetryableTransactionError } from '../config/database';
+
+type SettlementTable = 'users' | 'rounds' | 'winners';
+
+// Таблицы отчёта о расчётах, которые можно выгрузить в CSV
+const SETTLEMENT_TABLES: {
+  users: ExportColumn<SettlementUser>[];
+  rounds: ExportColumn<SettlementRound>[];
+  winners: ExportColumn<SettlementWinner & { roundNumber: number }>[];
+} = {
+  users: [
+    { header: 'userId', value: (user) => user.userId },
+    { header: 'bids', value: (user) => user.bids },
+    { header: 'highestBid', value: (user) => user.highestBid },
+    { header: 'itemsWon', value: (user) => user.itemsWon },
+    { header: 'wonRounds', value: (user) => user.wonRounds.join(' ') },
+    { header: 'charged', value: (user) => user.charged },
+    { header: 'paid', value: (user) => user.paid },
+    { header: 'refunded', value: (user) => user.refunded },
+    { header: 'held', value: (user) => user.held },
+  ],
+  rounds: [
+    { header: 'roundNumber', value: (round) => round.roundNumber },
+    { header: 'status', value: (round) => round.status },
+    { header: 'items', value: (round) => round.items },
+    { header: 'reservePrice', value: (round) => round.reservePrice },
+    { header: 'startTime', value: (round) => round.startTime },
+    { header: 'endTime', value: (round) => round.endTime },
+    { header: 'totalBids', value: (round) => round.totalBids },
+    { header: 'winners', value: (round) => round.winners.length },
+    { header: 'clearingPrice', value: (round) => round.clearingPrice },
+    { header: 'threshold', value: (round) => round.threshold },
+    { header: 'revenue', value: (round) => round.revenue },
+    { header: 'carriedOver', value: (round) => round.carriedOver },
+    { header: 'refunds', value: (round) => round.refunds.count },
+    { header: 'refundedAmount', value: (round) => round.refunds.amount },
+  ],
+  winners: [
+    { header: 'roundNumber', value: (winner) => winner.roundNumber },
+    { header: 'position', value: (winner) => winner.position },
+    { header: 'userId', value: (winner) => winner.userId },
+    { header: 'bidAmount', value: (winner) => winner.bidAmount },
+    { header: 'price', value: (winner) => winner.price },
+  ],
+};
+
+/**
+ * Выгрузить одну таблицу отчёта в CSV
+ */
+const sendSettlementTable = (res: Response, report: SettlementReport, table: SettlementTable) => {
+  const options = { format: 'csv' as const, filename: `settlement-${report.auctionId}-${table}` };
+  switch (table) {
+    case 'users':
+      return streamExport(res, report.users, { ...options, columns: SETTLEMENT_TABLES.users });
+    case 'rounds':
+      return streamExport(res, report.rounds, { ...options, columns: SETTLEMENT_TABLES.rounds });
+    case 'winners':
+      return streamExport(
+        res,
+        report.rounds.flatMap((round) =>
+          round.winners.map((winner) => ({ roundNumber: round.roundNumber, ...winner }))
+        ),
+        { ...options, columns: SETTLEMENT_TABLES.winners }
+      );
+  }
+};
 
 export class AuctionController {
   async createAuction(req: Request, res: Response): Promise<void> {
     try {
-      const auction = await AuctionService.createAuction(req.body);
+      const auction = await AuctionService.createAuction(req.body, req.actor!);
       res.status(201).json(auction);
     } catch (error: any) {
       logger.error('Error creating auction:', error);
@@ -24,7 +95,7 @@ export class AuctionController {
         return;
       }
       
-      const auction = await AuctionService.startAuction(id);
+      const auction = await AuctionService.startAuction(id, req.actor!);
       res.json(auction);
     } catch (error: any) {
       logger.error('Error starting auction:', error);
@@ -66,17 +137,80 @@ export class AuctionController {
     }
   }
 
-  async getAllAuctions(_req: Request, res: Response): Promise<void> {
+  async getUpcomingAuctions(req: Request, res: Response): Promise<void> {
     try {
-      const limit = parseInt(_req.query.limit as string) || 50;
-      const auctions = await AuctionService.getAllAuctions(limit);
+      const limit = parseInt(req.query.limit as string) || 50;
+      const auctions = await AuctionService.getUpcomingAuctions(limit);
       res.json(auctions);
     } catch (error: any) {
-      logger.error('Error getting all auctions:', error);
+      logger.error('Error getting upcoming auctions:', error);
       res.status(500).json({ error: error.message });
     }
   }
 
+  async scheduleAuction(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      // Валидация ObjectId
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({ error: 'Invalid auction ID format' });
+        return;
+      }
+      
+      const auction = await AuctionService.scheduleAuction(id, req.body, req.actor!);
+      res.json(auction);
+    } catch (error: any) {
+      logger.error('Error scheduling auction:', error);
+      res.status(400).json({ error: error.message });
+    }
+  }
+
+  async unscheduleAuction(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      // Валидация ObjectId
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({ error: 'Invalid auction ID format' });
+        return;
+      }
+      
+      const auction = await AuctionService.unscheduleAuction(id, req.actor!);
+      res.json(auction);
+    } catch (error: any) {
+      logger.error('Error unscheduling auction:', error);
+      res.status(400).json({ error: error.message });
+    }
+  }
+
+  async getAllAuctions(req: Request, res: Response): Promise<void> {
+    try {
+      const number = (name: string): number | undefined =>
+        req.query[name] !== undefined ? Number(req.query[name]) : undefined;
+
+      const page = await AuctionService.listAuctions({
+        statuses: req.query.status
+          ? ((req.query.status as string).split(',') as AuctionStatus[])
+          : undefined,
+        createdBy: req.query.creator as string | undefined,
+        minItems: number('minItems'),
+        maxItems: number('maxItems'),
+        minBidFrom: number('minBidFrom'),
+        minBidTo: number('minBidTo'),
+        endingWithin: number('endingWithin'),
+        search: req.query.q as string | undefined,
+        sort: req.query.sort as AuctionSort | undefined,
+        cursor: req.query.cursor as string | undefined,
+        limit: number('limit') ?? 50,
+      });
+      res.json(page);
+    } catch (error: any) {
+      logger.error('Error listing auctions:', error);
+      res.status(error.message === 'Invalid cursor' ? 400 : 500).json({ error: error.message });
+    }
+  }
+
   async placeBid(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
@@ -87,21 +221,112 @@ export class AuctionController {
         return;
       }
       
-      const { userId, amount } = req.body;
+      const { amount } = req.body;
+      // Ставит всегда пользователь из подписанных данных Telegram
+      const userId = req.telegramUser!.userId;
+      
+      if (req.body.userId !== undefined && String(req.body.userId) !== userId) {
+        res.status(403).json({ error: 'userId does not match authenticated user' });
+        return;
+      }
       
-      if (!userId || !amount) {
-        res.status(400).json({ error: 'userId and amount are required' });
+      if (!amount) {
+        res.status(400).json({ error: 'amount is required' });
         return;
       }
 
-      const bid = await AuctionService.placeBid(id, userId, amount);
+      const bid = await AuctionService.placeBid(id, userId, amount, {
+        idempotencyKey: req.idempotencyKey,
+      });
       res.json(bid);
     } catch (error: any) {
+      if (error instanceof BidRejectedError) {
+        // Клиент получает минимальную сумму, которую можно поставить
+        res.status(400).json(error.toJSON());
+        return;
+      }
+      if (error instanceof ParticipationLimitError) {
+        res.status(403).json(error.toJSON());
+        return;
+      }
+      if (error instanceof RequestAlreadyAppliedError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      if (isRetryableTransactionError(error)) {
+        // Все повторы транзакции упёрлись в конкурирующие изменения — запрос можно повторить
+        res.status(409).json({ error: 'Auction is being updated concurrently, retry the request' });
+        return;
+      }
       logger.error('Error placing bid:', error);
       res.status(400).json({ error: error.message });
     }
   }
 
+  async setProxyBid(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      // Валидация ObjectId
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({ error: 'Invalid auction ID format' });
+        return;
+      }
+      
+      const proxy = await AuctionService.setProxyBid(
+        id,
+        req.telegramUser!.userId,
+        Number(req.body.maxAmount)
+      );
+      res.json(proxy);
+    } catch (error: any) {
+      logger.error('Error setting proxy bid:', error);
+      res.status(400).json({ error: error.message });
+    }
+  }
+
+  async getProxyBid(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      // Валидация ObjectId
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({ error: 'Invalid auction ID format' });
+        return;
+      }
+      
+      const proxy = await AuctionService.getProxyBid(id, req.telegramUser!.userId);
+      
+      if (!proxy) {
+        res.status(404).json({ error: 'Proxy bid not found' });
+        return;
+      }
+      
+      res.json(proxy);
+    } catch (error: any) {
+      logger.error('Error getting proxy bid:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+
+  async cancelProxyBid(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      // Валидация ObjectId
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({ error: 'Invalid auction ID format' });
+        return;
+      }
+      
+      const proxy = await AuctionService.cancelProxyBid(id, req.telegramUser!.userId);
+      res.json(proxy);
+    } catch (error: any) {
+      logger.error('Error cancelling proxy bid:', error);
+      res.status(400).json({ error: error.message });
+    }
+  }
+
   async completeRound(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
@@ -112,7 +337,7 @@ export class AuctionController {
         return;
       }
       
-      const auction = await AuctionService.completeRound(id);
+      const auction = await AuctionService.completeRound(id, req.actor!);
       res.json(auction);
     } catch (error: any) {
       logger.error('Error completing round:', error);
@@ -120,6 +345,24 @@ export class AuctionController {
     }
   }
 
+  async cancelAuction(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      
+      // Валидация ObjectId
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({ error: 'Invalid auction ID format' });
+        return;
+      }
+      
+      const auction = await AuctionService.cancelAuction(id, req.actor!, req.body?.reason);
+      res.json(auction);
+    } catch (error: any) {
+      logger.error('Error cancelling auction:', error);
+      res.status(400).json({ error: error.message });
+    }
+  }
+
   async getRoundLeaderboard(req: Request, res: Response): Promise<void> {
     try {
       const { id, roundNumber } = req.params;
@@ -141,6 +384,25 @@ export class AuctionController {
     }
   }
 
+  async getSettlement(req: Request, res: Response): Promise<void> {
+    try {
+      const report = await SettlementService.getSettlement(req.params.id);
+
+      if (((req.query.format as ExportFormat | undefined) ?? 'json') === 'csv') {
+        await sendSettlementTable(res, report, (req.query.table as SettlementTable | undefined) ?? 'users');
+        return;
+      }
+      res.json(report);
+    } catch (error: any) {
+      logger.error('Error getting settlement report:', error);
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      res.status(error.message === 'Auction not found' ? 404 : 400).json({ error: error.message });
+    }
+  }
+
   async getUserBids(req: Request, res: Response): Promise<void> {
     try {
       const { id, userId } = req.params;
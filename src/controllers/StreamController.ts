@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import EventService, { DomainEvent } from '../services/EventService';
+import logger from '../config/logger';
+
+// Комментарий-пинг не даёт прокси закрыть простаивающее соединение
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+/**
+ * Открыть SSE-поток и подписать его на канал
+ */
+const openStream = (
+  req: Request,
+  res: Response,
+  subscribe: (handler: (event: DomainEvent) => void) => () => void
+): void => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write('retry: 3000\n\n');
+
+  const unsubscribe = subscribe((event) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+};
+
+export class StreamController {
+  async streamAuction(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      // Валидация ObjectId
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        res.status(400).json({ error: 'Invalid auction ID format' });
+        return;
+      }
+
+      openStream(req, res, (handler) => EventService.subscribeToAuction(id, handler));
+    } catch (error: any) {
+      logger.error('Error opening auction stream:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+
+  async streamUser(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      openStream(req, res, (handler) => EventService.subscribeToUser(userId, handler));
+    } catch (error: any) {
+      logger.error('Error opening user stream:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+}
+
+export default new StreamController();
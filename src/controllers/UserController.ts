@@ -1,6 +1,44 @@
 import { Request, Response } from 'express';
-import UserService from '../services/UserService';
+import UserService, { TransactionFilters, TransactionRow } from '../services/UserService';
+import { ITransaction, TransactionType } from '../models/Transaction';
 import logger from '../config/logger';
+import { isRetryableTransactionError } from '../config/database';
+import { ExportColumn, ExportFormat, streamExport } from '../utils/export';
+import { RequestAlreadyAppliedError } from '../utils/errors';
+
+/**
+ * Фильтры операций из запроса: auctionId, type и status (через запятую),
+ * период from/to в ISO 8601
+ */
+export const parseTransactionFilters = (req: Request): TransactionFilters => {
+  const list = (name: string): string[] | undefined =>
+    req.query[name] ? (req.query[name] as string).split(',') : undefined;
+  const date = (name: string): Date | undefined =>
+    req.query[name] ? new Date(req.query[name] as string) : undefined;
+
+  return {
+    auctionId: req.query.auctionId as string | undefined,
+    types: list('type') as TransactionType[] | undefined,
+    statuses: list('status') as ITransaction['status'][] | undefined,
+    from: date('from'),
+    to: date('to'),
+  };
+};
+
+// Колонки выгрузки операций в CSV
+export const TRANSACTION_COLUMNS: ExportColumn<TransactionRow>[] = [
+  { header: 'createdAt', value: (row) => row.createdAt },
+  { header: 'id', value: (row) => row.id },
+  { header: 'userId', value: (row) => row.userId },
+  { header: 'auctionId', value: (row) => row.auctionId },
+  { header: 'roundNumber', value: (row) => row.roundNumber },
+  { header: 'type', value: (row) => row.type },
+  { header: 'status', value: (row) => row.status },
+  { header: 'amount', value: (row) => row.amount },
+  { header: 'balanceAfter', value: (row) => row.balanceAfter },
+  { header: 'bidId', value: (row) => row.bidId },
+  { header: 'description', value: (row) => row.description },
+];
 
 export class UserController {
   async getUser(req: Request, res: Response): Promise<void> {
@@ -22,8 +60,8 @@ export class UserController {
 
   async getOrCreateUser(req: Request, res: Response): Promise<void> {
     try {
-      const { userId } = req.params;
-      const { username } = req.body;
+      // userId и username берутся из подписанных данных Telegram
+      const { userId, username } = req.telegramUser!;
       const user = await UserService.getOrCreateUser(userId, username);
       res.json(user);
     } catch (error: any) {
@@ -35,8 +73,8 @@ export class UserController {
   async getBalance(req: Request, res: Response): Promise<void> {
     try {
       const { userId } = req.params;
-      const balance = await UserService.getBalance(userId);
-      res.json({ userId, balance });
+      const summary = await UserService.getBalance(userId);
+      res.json({ userId, balance: summary.available, ...summary });
     } catch (error: any) {
       logger.error('Error getting balance:', error);
       res.status(500).json({ error: error.message });
@@ -53,9 +91,17 @@ export class UserController {
         return;
       }
 
-      const user = await UserService.deposit(userId, amount);
+      const user = await UserService.deposit(userId, amount, req.idempotencyKey);
       res.json(user);
     } catch (error: any) {
+      if (error instanceof RequestAlreadyAppliedError) {
+        res.status(409).json({ error: error.message });
+        return;
+      }
+      if (isRetryableTransactionError(error)) {
+        res.status(409).json({ error: 'Balance is being updated concurrently, retry the request' });
+        return;
+      }
       logger.error('Error depositing:', error);
       res.status(400).json({ error: error.message });
     }
@@ -64,11 +110,33 @@ export class UserController {
   async getTransactionHistory(req: Request, res: Response): Promise<void> {
     try {
       const { userId } = req.params;
-      const limit = parseInt(req.query.limit as string) || 50;
-      const transactions = await UserService.getTransactionHistory(userId, limit);
-      res.json(transactions);
+      const history = await UserService.getTransactionHistory(userId, {
+        ...parseTransactionFilters(req),
+        cursor: req.query.cursor as string | undefined,
+        limit: parseInt(req.query.limit as string) || 50,
+      });
+      res.json(history);
     } catch (error: any) {
       logger.error('Error getting transaction history:', error);
+      res.status(error.message === 'Invalid cursor' ? 400 : 500).json({ error: error.message });
+    }
+  }
+
+  async exportTransactions(req: Request, res: Response): Promise<void> {
+    try {
+      const { userId } = req.params;
+      await streamExport(res, UserService.exportTransactions({ userId }, parseTransactionFilters(req)), {
+        format: (req.query.format as ExportFormat | undefined) ?? 'csv',
+        filename: `transactions-${userId}`,
+        columns: TRANSACTION_COLUMNS,
+      });
+    } catch (error: any) {
+      logger.error('Error exporting transactions:', error);
+      // Если выгрузка уже началась, статус не изменить — только оборвать ответ
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
       res.status(500).json({ error: error.message });
     }
   }
@@ -0,0 +1,168 @@
+/**
+ * Обработчик раундов поверх хранилища в памяти. Часы обработчика идут по
+ * таймерам jest, поэтому heartbeat по cron и таймеры раундов срабатывают
+ * ровно в сроки этих часов
+ */
+
+import { createMemoryRepositories } from '../repositories/MemoryRepositories';
+import { Repositories } from '../repositories/types';
+import { AuctionService, CreateAuctionDto } from '../services/AuctionService';
+import { Actor } from '../services/AuditService';
+import { LockService } from '../services/LockService';
+import { Clock } from '../utils/clock';
+import { getRoundProcessorStatus, startRoundProcessor, stopRoundProcessor } from './roundProcessor';
+
+const START = new Date('2024-01-01T00:00:00Z');
+const LEADER_LOCK = 'round-processor:leader';
+const LEADER_LEASE_MS = 15000;
+const HEARTBEAT_INTERVAL_MS = 5000;
+
+const ORGANIZER: Actor = { userId: 'organizer', role: 'organizer' };
+
+const clock: Clock = { now: () => new Date(jest.now()) };
+
+const at = (ms: number) => new Date(START.getTime() + ms);
+
+/**
+ * Выполнить всё, что ждёт промисов: setImmediate не подменяется таймерами jest
+ */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * Сдвинуть часы на ms, выполнив наступившие таймеры
+ */
+const advance = async (ms: number) => {
+  await jest.advanceTimersByTimeAsync(ms);
+  await settle();
+};
+
+let repositories: Repositories;
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: START, doNotFake: ['setImmediate'] });
+  repositories = createMemoryRepositories(clock);
+});
+
+afterEach(async () => {
+  await stopRoundProcessor();
+  jest.useRealTimers();
+});
+
+describe('round processor leadership', () => {
+  it('takes the leader lease on start and renews it on every heartbeat', async () => {
+    await startRoundProcessor({ clock, repositories });
+    await settle();
+
+    const status = await getRoundProcessorStatus();
+    expect(status).toMatchObject({
+      isLeader: true,
+      leaderId: status.instanceId,
+      leaseExpiresAt: at(LEADER_LEASE_MS),
+      lastTickAt: START,
+    });
+
+    await advance(HEARTBEAT_INTERVAL_MS);
+    expect(await getRoundProcessorStatus()).toMatchObject({
+      isLeader: true,
+      leaseExpiresAt: at(HEARTBEAT_INTERVAL_MS + LEADER_LEASE_MS),
+      lastTickAt: at(HEARTBEAT_INTERVAL_MS),
+    });
+  });
+
+  it('refuses to start while another instance holds the lease', async () => {
+    const other = new LockService(clock, repositories);
+    await other.acquire(LEADER_LOCK, LEADER_LEASE_MS);
+
+    await expect(startRoundProcessor({ clock, repositories })).rejects.toThrow(
+      `Round processor ${other.instanceId} is already running`
+    );
+  });
+
+  it('takes over a lease the previous leader stopped renewing', async () => {
+    const other = new LockService(clock, repositories);
+    await other.acquire(LEADER_LOCK, LEADER_LEASE_MS);
+    await advance(LEADER_LEASE_MS);
+
+    await startRoundProcessor({ clock, repositories });
+    await settle();
+
+    const status = await getRoundProcessorStatus();
+    expect(status.isLeader).toBe(true);
+    expect(status.leaderId).toBe(status.instanceId);
+    expect(await other.acquire(LEADER_LOCK, LEADER_LEASE_MS)).toBe(false);
+  });
+
+  it('releases the lease on stop so another instance leads at once', async () => {
+    await startRoundProcessor({ clock, repositories });
+    await settle();
+    await stopRoundProcessor();
+
+    const other = new LockService(clock, repositories);
+    expect(await other.acquire(LEADER_LOCK, LEADER_LEASE_MS)).toBe(true);
+    expect(await getRoundProcessorStatus()).toMatchObject({ isLeader: false, leaderId: other.instanceId });
+  });
+});
+
+describe('round timers', () => {
+  let auctions: AuctionService;
+
+  /**
+   * Создать и запустить аукцион с участниками alice и bob
+   */
+  const startAuction = async (data: Partial<CreateAuctionDto> = {}) => {
+    auctions = new AuctionService(clock, repositories);
+    for (const userId of ['alice', 'bob']) {
+      await repositories.users.create({ userId, balance: 100 });
+    }
+
+    const auction = await auctions.createAuction(
+      { title: 'Timers', totalItems: 2, itemsPerRound: 1, roundDuration: 60, minBid: 10, ...data },
+      ORGANIZER
+    );
+    await auctions.startAuction(auction._id.toString(), ORGANIZER);
+    return auction._id.toString();
+  };
+
+  const roundStatuses = async (auctionId: string) =>
+    (await repositories.auctions.findById(auctionId))!.rounds.map((round) => round.status);
+
+  it('rebuilds the queue on start and completes the round exactly at its end time', async () => {
+    const auctionId = await startAuction();
+    await auctions.placeBid(auctionId, 'alice', 10);
+
+    await startRoundProcessor({ clock, repositories });
+    await settle();
+    expect(await getRoundProcessorStatus()).toMatchObject({ scheduledAuctions: 1, nextDueAt: at(60000) });
+
+    await advance(60000 - 1);
+    expect(await roundStatuses(auctionId)).toEqual(['active']);
+
+    await advance(1);
+    const auction = (await repositories.auctions.findById(auctionId))!;
+    expect(auction.rounds.map((round) => [round.status, round.endTime])).toEqual([
+      ['completed', at(60000)],
+      ['active', at(120000)],
+    ]);
+    expect(auction.rounds[0].winners.map((winner) => winner.userId)).toEqual(['alice']);
+    expect(await getRoundProcessorStatus()).toMatchObject({ lagMs: 0, nextDueAt: at(120000) });
+  });
+
+  it('moves the timer when anti-sniping extends the round', async () => {
+    const auctionId = await startAuction({
+      antiSniping: { trigger: 'any_bid', triggerWindow: 10, extension: 10 },
+    });
+    await startRoundProcessor({ clock, repositories });
+    await settle();
+
+    await advance(55000);
+    await auctions.placeBid(auctionId, 'alice', 10);
+    await settle();
+    expect((await getRoundProcessorStatus()).nextDueAt).toEqual(at(65000));
+
+    await advance(5000);
+    expect(await roundStatuses(auctionId)).toEqual(['active']);
+
+    await advance(5000);
+    expect(await roundStatuses(auctionId)).toEqual(['completed', 'active']);
+  });
+});
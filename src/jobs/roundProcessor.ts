@@ -1,42 +1,330 @@
-import cron from 'node-cron';
-import AuctionService from '../services/AuctionService';
-import Auction from '../models/Auction';
+import cron, { ScheduledTask } from 'node-cron';
+import DefaultAuctionService, { AuctionService } from '../services/AuctionService';
+import { SYSTEM_ACTOR } from '../services/AuditService';
+import EventService, { AuctionEvent } from '../services/EventService';
+import DefaultLockService, { LockService } from '../services/LockService';
+import defaultRepositories, { AuctionSchedule, Repositories } from '../repositories';
+import { DelayQueue } from '../utils/DelayQueue';
+import { Clock, systemClock } from '../utils/clock';
 import logger from '../config/logger';
 
+const HEARTBEAT_INTERVAL_MS = 5000;
+// Лидер продлевает аренду каждый тик; если он упал, другой экземпляр
+// перехватит её через три пропущенных тика
+const LEADER_LEASE_MS = 3 * HEARTBEAT_INTERVAL_MS;
+// Блокировка раунда держится не дольше, чем может идти транзакция с повторами
+const ROUND_LOCK_MS = 30000;
+const LEADER_LOCK = 'round-processor:leader';
+// Повтор после ошибки или если раунд обрабатывает другой экземпляр
+const RETRY_DELAY_MS = 5000;
+// Страховочная пересборка очереди на случай потерянных событий
+const RESYNC_INTERVAL_MS = 60000;
+
+export interface RoundProcessorOptions {
+  clock?: Clock; // По умолчанию системные
+  repositories?: Repositories; // По умолчанию согласно STORAGE_BACKEND
+}
+
+export interface RoundProcessorStatus {
+  instanceId: string;
+  isLeader: boolean;
+  leaderId: string | null;
+  leaseExpiresAt: Date | null;
+  lastTickAt: Date | null;
+  lastTickDurationMs: number | null;
+  lagMs: number; // Насколько самое просроченное действие опаздывает
+  scheduledAuctions: number;
+  nextDueAt: Date | null;
+}
+
+const state = {
+  clock: systemClock as Clock,
+  repositories: defaultRepositories as Repositories,
+  // Сервисы над теми же часами и хранилищами
+  auctions: DefaultAuctionService as AuctionService,
+  locks: DefaultLockService as LockService,
+  task: null as ScheduledTask | null,
+  unsubscribe: null as (() => void) | null,
+  heartbeatRunning: false,
+  isLeader: false,
+  lastResyncAt: 0,
+  lastTickAt: null as Date | null,
+  lastTickDurationMs: null as number | null,
+  // Аукционы, чей срок наступил, в порядке наступления, и их сроки
+  ready: new Map<string, Date>(),
+  draining: false,
+  processingDueAt: null as Date | null,
+  sharedBrokerWarned: false,
+};
+
+// Часы задаются при старте обработчика, поэтому очередь читает их через state
+const queue = new DelayQueue(
+  (auctionId, dueAt) => {
+    state.ready.set(auctionId, dueAt);
+    void drain();
+  },
+  { now: () => state.clock.now() }
+);
+
+const now = (): number => state.clock.now().getTime();
+
+const roundLock = (auctionId: string) => `auction:${auctionId}:round`;
+
 /**
- * Cron-задача для автоматического завершения раундов
- * Запускается каждые 5 секунд для проверки истёкших раундов
- */
-export const startRoundProcessor = (): void => {
-  cron.schedule('*/5 * * * * *', async () => {
-    try {
-      // Найти все активные аукционы
-      const activeAuctions = await Auction.find({ status: 'active' });
-      
-      for (const auction of activeAuctions) {
-        const currentRound = auction.rounds[auction.currentRound - 1];
-        
-        if (!currentRound || currentRound.status !== 'active') {
-          continue;
-        }
-
-        const now = new Date();
-        
-        // Проверить, истёк ли раунд
-        if (now >= currentRound.endTime) {
-          try {
-            logger.info(`Auto-completing round ${auction.currentRound} of auction ${auction._id}`);
-            await AuctionService.completeRound(auction._id.toString());
-          } catch (error: any) {
-            logger.error(`Error auto-completing round for auction ${auction._id}:`, error);
-          }
-        }
-      }
-    } catch (error: any) {
-      logger.error('Error in round processor:', error);
+ * Срок следующего действия над аукционом: запланированный старт черновика,
+ * начало отложенного раунда или конец активного
+ */
+const nextDueAt = (auction: AuctionSchedule): Date | null => {
+  if (auction.status === 'draft') {
+    return auction.scheduledStartAt ?? null;
+  }
+  if (auction.status !== 'active') {
+    return null;
+  }
+
+  const round = auction.rounds[auction.currentRound - 1];
+  if (round?.status === 'pending') {
+    return round.startTime;
+  }
+  if (round?.status === 'active') {
+    return round.endTime;
+  }
+  return null;
+};
+
+const scheduleFrom = (auctionId: string, auction: AuctionSchedule | null): void => {
+  const dueAt = auction ? nextDueAt(auction) : null;
+  if (dueAt) {
+    queue.schedule(auctionId, dueAt);
+  } else {
+    queue.cancel(auctionId);
+  }
+};
+
+/**
+ * Перечитать срок одного аукциона из базы
+ */
+const refresh = async (auctionId: string): Promise<void> => {
+  const auction = await state.repositories.auctions.findSchedule(auctionId);
+  scheduleFrom(auctionId, auction);
+};
+
+/**
+ * Собрать очередь заново по всем аукционам, у которых может наступить срок
+ */
+const rebuild = async (): Promise<void> => {
+  let scheduled = 0;
+  for await (const auction of state.repositories.auctions.streamScheduled()) {
+    scheduleFrom(auction._id, auction);
+    scheduled += 1;
+  }
+
+  state.lastResyncAt = now();
+  logger.info(`Round scheduler rebuilt, ${scheduled} auctions tracked`);
+};
+
+/**
+ * Выполнить наступившее действие над аукционом под его блокировкой
+ */
+const processAuction = async (auctionId: string): Promise<void> => {
+  const handled = await state.locks.withLock(roundLock(auctionId), ROUND_LOCK_MS, async () => {
+    const auction = await state.repositories.auctions.findSchedule(auctionId);
+    const dueAt = auction ? nextDueAt(auction) : null;
+
+    // Срок могли перенести (продление раунда) или действие уже выполнено
+    if (!auction || !dueAt || dueAt.getTime() > now()) {
+      scheduleFrom(auctionId, auction);
+      return true;
     }
+
+    const round = auction.rounds[auction.currentRound - 1];
+    if (auction.status === 'draft') {
+      logger.info(`Starting scheduled auction ${auctionId}`);
+      await state.auctions.startAuction(auctionId, SYSTEM_ACTOR);
+    } else if (round.status === 'pending') {
+      // Раунд, отложенный окном блокировки, начинается по его startTime
+      await state.auctions.activatePendingRound(auctionId);
+    } else {
+      logger.info(`Auto-completing round ${auction.currentRound} of auction ${auctionId}`);
+      await state.auctions.completeRound(auctionId);
+    }
+
+    await refresh(auctionId);
+    return true;
   });
 
-  logger.info('Round processor started');
+  if (!handled) {
+    // Раунд сейчас обрабатывает другой экземпляр
+    queue.schedule(auctionId, new Date(now() + RETRY_DELAY_MS));
+  }
+};
+
+/**
+ * Последовательно обработать аукционы, чей срок наступил
+ */
+const drain = async (): Promise<void> => {
+  if (state.draining) {
+    return;
+  }
+  state.draining = true;
+
+  try {
+    while (state.isLeader && state.ready.size > 0) {
+      const [auctionId, dueAt] = state.ready.entries().next().value as [string, Date];
+      state.ready.delete(auctionId);
+      state.processingDueAt = dueAt;
+
+      try {
+        await processAuction(auctionId);
+      } catch (error: any) {
+        logger.error(`Error processing auction ${auctionId}:`, error);
+        queue.schedule(auctionId, new Date(now() + RETRY_DELAY_MS));
+      }
+    }
+  } finally {
+    state.processingDueAt = null;
+    state.draining = false;
+  }
+};
+
+/**
+ * Обновить очередь по событию аукциона. Продление и старт раунда несут
+ * новый срок, для остальных событий срок перечитывается из базы
+ */
+const onAuctionEvent = (event: AuctionEvent): void => {
+  if (!state.isLeader) {
+    return;
+  }
+
+  switch (event.type) {
+    case 'round_extended':
+    case 'round_started':
+      queue.schedule(event.auctionId, new Date(event.endTime));
+      break;
+    case 'round_completed':
+    case 'auction_scheduled':
+    case 'auction_started':
+    case 'auction_completed':
+    case 'auction_cancelled':
+      refresh(event.auctionId).catch((error) =>
+        logger.error(`Error rescheduling auction ${event.auctionId}:`, error)
+      );
+      break;
+    default:
+      break;
+  }
+};
+
+/**
+ * Продлить аренду лидера; новый лидер собирает очередь из базы,
+ * потерявший лидерство — очищает
+ */
+const heartbeat = async (): Promise<void> => {
+  if (state.heartbeatRunning) {
+    return;
+  }
+  state.heartbeatRunning = true;
+  const startedAt = state.clock.now();
+
+  try {
+    const wasLeader = state.isLeader;
+    state.isLeader = await state.locks.acquire(LEADER_LOCK, LEADER_LEASE_MS);
+
+    if (!state.isLeader && !EventService.shared && !state.sharedBrokerWarned) {
+      // Экземпляры запустились одновременно и проверка при старте их не различила
+      logger.error(
+        `Round processor leader is another instance, events of ${state.locks.instanceId} do not reach it; set EVENT_BROKER=mongo`
+      );
+      state.sharedBrokerWarned = true;
+    }
+
+    if (state.isLeader && !wasLeader) {
+      logger.info(`Round processor ${state.locks.instanceId} became leader`);
+      await rebuild();
+    } else if (!state.isLeader && wasLeader) {
+      logger.info(`Round processor ${state.locks.instanceId} lost leadership`);
+      queue.clear();
+      state.ready.clear();
+    } else if (state.isLeader && now() - state.lastResyncAt >= RESYNC_INTERVAL_MS) {
+      await rebuild();
+    }
+
+    state.lastTickAt = startedAt;
+    state.lastTickDurationMs = now() - startedAt.getTime();
+  } catch (error: any) {
+    logger.error('Error in round processor:', error);
+  } finally {
+    state.heartbeatRunning = false;
+  }
 };
 
+/**
+ * Планировщик раундов. Каждый раунд завершается по собственному таймеру
+ * точно в endTime; cron каждые 5 секунд только продлевает аренду лидера.
+ * Таймеры держит лишь лидер, выбранный через аренду в MongoDB, и узнаёт
+ * о продлениях и новых сроках по событиям, поэтому нескольким экземплярам
+ * нужен брокер, доставляющий события между ними (EVENT_BROKER=mongo)
+ */
+export const startRoundProcessor = async (options: RoundProcessorOptions = {}): Promise<void> => {
+  state.clock = options.clock ?? systemClock;
+  state.repositories = options.repositories ?? defaultRepositories;
+  state.auctions = new AuctionService(state.clock, state.repositories);
+  state.locks = new LockService(state.clock, state.repositories);
+
+  if (!EventService.shared) {
+    const leader = await state.locks.getHolder(LEADER_LOCK);
+    if (leader && leader.owner !== state.locks.instanceId) {
+      throw new Error(
+        `Round processor ${leader.owner} is already running; set EVENT_BROKER=mongo to run several instances`
+      );
+    }
+  }
+
+  state.unsubscribe = EventService.subscribeToAllAuctions(onAuctionEvent);
+  state.task = cron.schedule('*/5 * * * * *', heartbeat);
+  void heartbeat();
+  logger.info(`Round processor started as ${state.locks.instanceId}`);
+};
+
+/**
+ * Остановить обработчик и отдать лидерство, чтобы другой экземпляр
+ * подхватил его, не дожидаясь истечения аренды
+ */
+export const stopRoundProcessor = async (): Promise<void> => {
+  state.task?.stop();
+  state.task = null;
+  state.unsubscribe?.();
+  state.unsubscribe = null;
+  queue.clear();
+  state.ready.clear();
+
+  if (state.isLeader) {
+    state.isLeader = false;
+    await state.locks.release(LEADER_LOCK);
+  }
+};
+
+/**
+ * Состояние обработчика раундов для мониторинга
+ */
+export const getRoundProcessorStatus = async (): Promise<RoundProcessorStatus> => {
+  const leader = await state.locks.getHolder(LEADER_LOCK);
+  const checkedAt = now();
+
+  // Отставание — по самому раннему сроку среди ждущих и обрабатываемого
+  const overdue = [state.processingDueAt, ...state.ready.values(), queue.nextDueAt]
+    .filter((dueAt): dueAt is Date => dueAt !== null && dueAt.getTime() <= checkedAt)
+    .map((dueAt) => checkedAt - dueAt.getTime());
+
+  return {
+    instanceId: state.locks.instanceId,
+    isLeader: state.isLeader,
+    leaderId: leader?.owner ?? null,
+    leaseExpiresAt: leader?.expiresAt ?? null,
+    lastTickAt: state.lastTickAt,
+    lastTickDurationMs: state.lastTickDurationMs,
+    lagMs: overdue.length > 0 ? Math.max(...overdue) : 0,
+    scheduledAuctions: queue.size + state.ready.size,
+    nextDueAt: queue.nextDueAt,
+  };
+};
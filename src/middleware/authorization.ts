@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { UserRole } from '../models/User';
+import repositories from '../repositories';
+import logger from '../config/logger';
+
+/**
+ * Пользователи из ADMIN_USER_IDS считаются администраторами независимо от
+ * роли в базе — так назначается первый администратор
+ */
+const isBootstrapAdmin = (userId: string): boolean =>
+  (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .includes(userId);
+
+/**
+ * Пропустить запрос, только если роль пользователя входит в список.
+ * Должен идти после authenticateTelegram; кладёт в req.actor пользователя и роль
+ */
+export const requireRole = (...roles: UserRole[]) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const userId = req.telegramUser?.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    let role: UserRole = 'bidder';
+    if (isBootstrapAdmin(userId)) {
+      role = 'admin';
+    } else {
+      role = (await repositories.users.findRole(userId)) || 'bidder';
+    }
+
+    if (!roles.includes(role)) {
+      res.status(403).json({ error: 'Insufficient permissions' });
+      return;
+    }
+
+    req.actor = { userId, role };
+    next();
+  } catch (error: any) {
+    logger.error('Error checking role:', error);
+    res.status(500).json({ error: error.message });
+  }
+};
+
+/**
+ * Организатор может управлять только своими аукционами, администратор — любыми.
+ * Должен идти после requireRole
+ */
+export const requireAuctionOwner = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const actor = req.actor;
+    if (!actor) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    if (actor.role === 'admin') {
+      next();
+      return;
+    }
+
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      res.status(400).json({ error: 'Invalid auction ID format' });
+      return;
+    }
+
+    const auction = await repositories.auctions.findById(id);
+    if (!auction) {
+      res.status(404).json({ error: 'Auction not found' });
+      return;
+    }
+
+    if (auction.createdBy !== actor.userId) {
+      res.status(403).json({ error: 'Only the auction organizer can manage this auction' });
+      return;
+    }
+
+    next();
+  } catch (error: any) {
+    logger.error('Error checking auction ownership:', error);
+    res.status(500).json({ error: error.message });
+  }
+};
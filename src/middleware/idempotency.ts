@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import logger from '../config/logger';
+import defaultRepositories, { Repositories, isDuplicateKeyError } from '../repositories';
+import { Clock, systemClock } from '../utils/clock';
+
+const DEFAULT_TTL_HOURS = 24;
+// Ключ в статусе processing дольше этого времени считается брошенным
+// (например, сервер упал во время запроса) и может быть перехвачен.
+// Денежная операция с ключом пишется в журнал в той же транзакции и не больше
+// одного раза, поэтому повтор уже применённого запроса получит 409, а не второе списание
+const PROCESSING_TIMEOUT_MS = 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+const hashBody = (body: unknown): string =>
+  crypto.createHash('sha256').update(JSON.stringify(body ?? {})).digest('hex');
+
+/**
+ * Дедупликация повторных запросов по заголовку Idempotency-Key.
+ * Повтор с тем же ключом и телом возвращает сохранённый ответ, повтор с тем же
+ * ключом и другим телом — 409. Должен идти после authenticateTelegram.
+ * Сроки ключей отсчитываются по часам clock, ключи хранятся в repositories
+ */
+export const createIdempotency = (
+  clock: Clock = systemClock,
+  repositories: Repositories = defaultRepositories
+) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const key = req.header('idempotency-key');
+  if (!key) {
+    next();
+    return;
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    res.status(400).json({ error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters` });
+    return;
+  }
+
+  try {
+    const userId = req.telegramUser!.userId;
+    const scope = `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`;
+    const requestHash = hashBody({ params: req.params, body: req.body });
+    const ttlHours = parseFloat(process.env.IDEMPOTENCY_TTL_HOURS || '') || DEFAULT_TTL_HOURS;
+    const now = clock.now();
+    const id = { userId, scope, key };
+
+    // Занять ключ: создать запись или перехватить брошенную с тем же телом
+    const claimed = await repositories.idempotencyKeys.reclaim(
+      id,
+      requestHash,
+      new Date(now.getTime() - PROCESSING_TIMEOUT_MS),
+      now
+    );
+
+    if (!claimed) {
+      try {
+        await repositories.idempotencyKeys.create({
+          ...id,
+          requestHash,
+          expiresAt: new Date(now.getTime() + ttlHours * 60 * 60 * 1000),
+        });
+      } catch (error) {
+        if (!isDuplicateKeyError(error)) {
+          throw error;
+        }
+
+        const existing = await repositories.idempotencyKeys.find(id);
+        if (!existing) {
+          res.status(409).json({ error: 'Idempotency-Key is being released, retry the request' });
+          return;
+        }
+
+        if (existing.requestHash !== requestHash) {
+          res.status(409).json({ error: 'Idempotency-Key was already used with a different request' });
+          return;
+        }
+
+        if (existing.status === 'processing') {
+          res.status(409).json({ error: 'Request with this Idempotency-Key is still being processed' });
+          return;
+        }
+
+        res.set('Idempotent-Replayed', 'true');
+        res.status(existing.responseStatus || 200).json(existing.responseBody);
+        return;
+      }
+    }
+
+    req.idempotencyKey = key;
+
+    // Сохранить ответ, чтобы вернуть его на повтор. После ошибки сервера или
+    // конфликта (409) ключ освобождается: операция не применена или её исход
+    // определит журнал, и клиент может повторить запрос
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      const persist = res.statusCode >= 500 || res.statusCode === 409
+        ? repositories.idempotencyKeys.remove(id)
+        : repositories.idempotencyKeys.complete(id, res.statusCode, JSON.parse(JSON.stringify(body ?? null)));
+
+      persist
+        .catch((error: unknown) => logger.error('Error saving idempotent response:', error))
+        .finally(() => originalJson(body));
+      return res;
+    };
+
+    next();
+  } catch (error) {
+    logger.error('Error processing Idempotency-Key:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+};
+
+export const idempotency = createIdempotency();
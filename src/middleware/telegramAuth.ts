@@ -0,0 +1,94 @@
+import { Request, Response, NextFunction } from 'express';
+import { verifyInitData } from '../utils/telegramInitData';
+import logger from '../config/logger';
+
+const DEFAULT_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+/**
+ * Запрос SSE-потока: EventSource не умеет передавать заголовки
+ */
+const isEventStream = (req: Request): boolean =>
+  req.method === 'GET' && (req.header('accept') || '').includes('text/event-stream');
+
+/**
+ * Достать initData из запроса: заголовок `Authorization: tma <initData>`,
+ * `X-Telegram-Init-Data`, а для SSE-потоков — параметр `?initData=`.
+ * Остальным маршрутам параметр не засчитывается, чтобы подписанные данные
+ * не попадали в URL и журналы без нужды
+ */
+const extractInitData = (req: Request): string | undefined => {
+  const authorization = req.header('authorization');
+  if (authorization?.startsWith('tma ')) {
+    return authorization.slice(4);
+  }
+
+  const header = req.header('x-telegram-init-data');
+  if (header) {
+    return header;
+  }
+
+  const { initData } = req.query;
+  return isEventStream(req) && typeof initData === 'string' ? initData : undefined;
+};
+
+/**
+ * Проверить подпись Telegram Mini App и определить действующего пользователя.
+ * При TELEGRAM_AUTH_DISABLED=true подпись не проверяется, а пользователь
+ * берётся из заголовка X-User-Id — только для локального демо.
+ */
+export const authenticateTelegram = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (process.env.TELEGRAM_AUTH_DISABLED === 'true') {
+    const userId = req.header('x-user-id') || req.params.userId || req.body?.userId;
+    if (!userId) {
+      res.status(401).json({ error: 'X-User-Id header is required' });
+      return;
+    }
+
+    req.telegramUser = { userId: String(userId), username: req.body?.username };
+    next();
+    return;
+  }
+
+  const botToken = process.env.TELEGRAM_BOT_TOKEN;
+  if (!botToken) {
+    logger.error('TELEGRAM_BOT_TOKEN is not configured, rejecting request');
+    res.status(401).json({ error: 'Authentication is not configured' });
+    return;
+  }
+
+  const initData = extractInitData(req);
+  if (!initData) {
+    res.status(401).json({ error: 'Telegram initData is required' });
+    return;
+  }
+
+  try {
+    const maxAge = parseInt(process.env.TELEGRAM_AUTH_MAX_AGE || '', 10) || DEFAULT_MAX_AGE_SECONDS;
+    const { user } = verifyInitData(initData, botToken, maxAge);
+    req.telegramUser = user;
+    next();
+  } catch (error: any) {
+    res.status(401).json({ error: error.message });
+  }
+};
+
+/**
+ * Разрешить доступ только к своему аккаунту: параметр пути должен совпадать
+ * с пользователем из подписанных данных
+ */
+export const requireSelf = (paramName: string = 'userId') => (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (req.params[paramName] !== req.telegramUser?.userId) {
+    res.status(403).json({ error: 'Access to another user is forbidden' });
+    return;
+  }
+
+  next();
+};
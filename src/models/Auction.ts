@@ -1,23 +1,27 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { BlackoutWindow } from '../utils/schedule';
+import { PlannedRound, RoundPlanSource, resolveRoundPlan } from '../utils/roundPlan';
+import { PRICING_RULES, PricingRule } from '../utils/pricing';
+import { BidRules } from '../utils/bidRules';
+import { ParticipationLimits } from '../utils/limits';
+import { ANTI_SNIPING_TRIGGERS, AntiSnipingPolicy, RoundExtension } from '../utils/antiSniping';
 
-export interface IBid extends Document {
-  userId: string;
-  amount: number;
-  timestamp: Date;
-  roundNumber: number;
-}
-
-export interface IRound extends Document {
+export interface IRound {
   roundNumber: number;
+  items?: number; // Товаров в раунде: по плану плюс не проданные в прошлом раунде (у старых раундов отсутствует)
   startTime: Date;
   endTime: Date;
-  status: 'pending' | 'active' | 'completed';
+  status: 'pending' | 'active' | 'completed' | 'cancelled';
   winners: Array<{
     userId: string;
     bidAmount: number;
+    price?: number; // Сколько заплатил победитель (у старых раундов равно bidAmount)
     position: number;
   }>;
+  clearingPrice?: number; // Единая цена раунда при правилах uniform и second_price
+  reservePrice?: number; // Минимальная новая ставка в раунде (у старых раундов равна minBid)
   totalBids: number;
+  extensions: RoundExtension[]; // История продлений anti-sniping
 }
 
 export interface IAuction extends Document {
@@ -25,51 +29,39 @@ export interface IAuction extends Document {
   description?: string;
   totalItems: number; // Общее количество товаров
   itemsPerRound: number; // Количество товаров в каждом раунде
+  roundPlan: PlannedRound[]; // Товары и длительность каждого раунда (у старых аукционов пуст)
   roundDuration: number; // Длительность раунда в секундах
   minBid: number;
+  pricingRule: PricingRule; // Сколько платят победители раунда
+  bidRules?: BidRules; // Шаг повышения ставки и резервная цена раундов
+  limits?: ParticipationLimits; // Лимиты участия одного пользователя
   antiSnipingWindow: number; // Окно продления раунда при последней ставке (в секундах)
+  antiSniping?: AntiSnipingPolicy; // Политика продления (у старых аукционов отсутствует)
   status: 'draft' | 'active' | 'completed' | 'cancelled';
+  scheduledStartAt?: Date; // Автоматический старт черновика
+  timezone: string; // IANA-часовой пояс для окон блокировки
+  blackoutWindows: BlackoutWindow[]; // Окна, в которые раунды не начинаются
+  createdBy?: string; // userId организатора (у старых аукционов отсутствует)
   currentRound: number;
   rounds: IRound[];
-  bids: IBid[];
   createdAt: Date;
   updatedAt: Date;
   startedAt?: Date;
   completedAt?: Date;
+  cancelledAt?: Date;
+  cancelledBy?: string;
+  cancellationReason?: string;
 }
 
-const BidSchema: Schema = new Schema(
+const RoundSchema: Schema = new Schema(
   {
-    userId: {
-      type: String,
-      required: true,
-      index: true,
-    },
-    amount: {
-      type: Number,
-      required: true,
-      min: 0,
-    },
-    timestamp: {
-      type: Date,
-      required: true,
-      default: Date.now,
-      index: true,
-    },
     roundNumber: {
       type: Number,
       required: true,
-      index: true,
     },
-  },
-  { _id: true }
-);
-
-const RoundSchema: Schema = new Schema(
-  {
-    roundNumber: {
+    items: {
       type: Number,
-      required: true,
+      min: 0,
     },
     startTime: {
       type: Date,
@@ -81,20 +73,39 @@ const RoundSchema: Schema = new Schema(
     },
     status: {
       type: String,
-      enum: ['pending', 'active', 'completed'],
+      enum: ['pending', 'active', 'completed', 'cancelled'],
       default: 'pending',
     },
     winners: [
       {
         userId: String,
         bidAmount: Number,
+        price: Number,
         position: Number,
       },
     ],
+    clearingPrice: {
+      type: Number,
+    },
+    reservePrice: {
+      type: Number,
+      min: 0,
+    },
     totalBids: {
       type: Number,
       default: 0,
     },
+    extensions: [
+      {
+        _id: false,
+        at: { type: Date, required: true },
+        userId: { type: String, required: true },
+        amount: { type: Number, required: true },
+        trigger: { type: String, enum: ANTI_SNIPING_TRIGGERS, required: true },
+        previousEndTime: { type: Date, required: true },
+        newEndTime: { type: Date, required: true },
+      },
+    ],
   },
   { _id: true }
 );
@@ -124,45 +135,147 @@ const AuctionSchema: Schema = new Schema(
       min: 10, // Минимум 10 секунд
       default: 60, // По умолчанию 60 секунд
     },
+    roundPlan: [
+      {
+        _id: false,
+        roundNumber: { type: Number, required: true },
+        items: { type: Number, required: true, min: 1 },
+        duration: { type: Number, required: true, min: 10 },
+      },
+    ],
     minBid: {
       type: Number,
       required: true,
       min: 0,
       default: 1,
     },
+    pricingRule: {
+      type: String,
+      enum: PRICING_RULES,
+      default: 'pay_as_bid',
+    },
+    bidRules: {
+      type: new Schema(
+        {
+          minIncrement: {
+            type: new Schema(
+              {
+                type: { type: String, enum: ['absolute', 'percent'], required: true },
+                value: { type: Number, required: true, min: 0 },
+              },
+              { _id: false }
+            ),
+          },
+          reserve: {
+            type: new Schema(
+              {
+                mode: { type: String, enum: ['fixed', 'increasing', 'clearing_price'], required: true },
+                step: { type: Number, min: 0 },
+                stepPercent: { type: Number, min: 0 },
+              },
+              { _id: false }
+            ),
+          },
+        },
+        { _id: false }
+      ),
+    },
+    limits: {
+      type: new Schema(
+        {
+          maxItemsPerUser: { type: Number, min: 1 },
+          maxBidsPerUser: { type: Number, min: 1 },
+          maxSpendPerUser: { type: Number, min: 0 },
+        },
+        { _id: false }
+      ),
+    },
     antiSnipingWindow: {
       type: Number,
       required: true,
       min: 0,
       default: 10, // По умолчанию 10 секунд
     },
+    antiSniping: {
+      type: new Schema(
+        {
+          trigger: { type: String, enum: ANTI_SNIPING_TRIGGERS, required: true },
+          triggerWindow: { type: Number, required: true, min: 0 },
+          extension: { type: Number, required: true, min: 0 },
+          topN: { type: Number, min: 1 },
+          maxExtension: { type: Number, min: 0 },
+          maxExtensions: { type: Number, min: 0 },
+        },
+        { _id: false }
+      ),
+    },
     status: {
       type: String,
       enum: ['draft', 'active', 'completed', 'cancelled'],
       default: 'draft',
     },
+    scheduledStartAt: {
+      type: Date,
+    },
+    timezone: {
+      type: String,
+      default: 'UTC',
+    },
+    blackoutWindows: [
+      {
+        _id: false,
+        start: { type: String, required: true },
+        end: { type: String, required: true },
+        daysOfWeek: { type: [Number], default: undefined },
+      },
+    ],
+    createdBy: {
+      type: String,
+      index: true,
+    },
     currentRound: {
       type: Number,
       default: 1,
     },
     rounds: [RoundSchema],
-    bids: [BidSchema],
     startedAt: {
       type: Date,
     },
     completedAt: {
       type: Date,
     },
+    cancelledAt: {
+      type: Date,
+    },
+    cancelledBy: {
+      type: String,
+    },
+    cancellationReason: {
+      type: String,
+    },
   },
   {
     timestamps: true,
+    // Проверка версии при каждом сохранении: конкурентные изменения аукциона
+    // приводят к VersionError, и транзакция выполняется заново
+    optimisticConcurrency: true,
+    toJSON: {
+      // Клиенты всегда видят план раундов, в том числе у старых аукционов
+      transform: (_doc, ret: RoundPlanSource) => {
+        ret.roundPlan = resolveRoundPlan(ret);
+        return ret;
+      },
+    },
   }
 );
 
 // Индексы для оптимизации запросов
 AuctionSchema.index({ status: 1, currentRound: 1 });
-AuctionSchema.index({ 'bids.userId': 1, 'bids.roundNumber': 1 });
 AuctionSchema.index({ 'rounds.roundNumber': 1 });
+AuctionSchema.index({ status: 1, scheduledStartAt: 1 });
+AuctionSchema.index({ createdAt: -1, _id: -1 });
+// Поиск по каталогу; язык не задан — слова сравниваются без стемминга
+AuctionSchema.index({ title: 'text', description: 'text' }, { default_language: 'none' });
 
 export default mongoose.model<IAuction>('Auction', AuctionSchema);
 
@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { AuctionHistoryType } from '../utils/auctionReplay';
+
+export interface IAuctionHistoryEntry extends Document {
+  auctionId: string;
+  sequence: number; // Порядковый номер события в журнале аукциона (с 1)
+  type: AuctionHistoryType;
+  payload: Record<string, unknown>; // Поля события, кроме type
+  createdAt: Date;
+}
+
+const AuctionHistorySchema: Schema = new Schema(
+  {
+    auctionId: {
+      type: String,
+      required: true,
+    },
+    sequence: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  {
+    // Журнал только дополняется, поэтому updatedAt не нужен
+    timestamps: { createdAt: true, updatedAt: false },
+    // Пустой payload тоже сохраняется
+    minimize: false,
+  }
+);
+
+// Уникальный номер не даёт двум транзакциям записать событие на одно место:
+// одна из них получит конфликт записи и повторится
+AuctionHistorySchema.index({ auctionId: 1, sequence: 1 }, { unique: true });
+
+export default mongoose.model<IAuctionHistoryEntry>('AuctionHistory', AuctionHistorySchema);
@@ -0,0 +1,49 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IAuditLog extends Document {
+  actorId: string;
+  actorRole: string;
+  action: string;
+  targetType: 'auction' | 'user';
+  targetId: string;
+  details?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const AuditLogSchema: Schema = new Schema(
+  {
+    actorId: {
+      type: String,
+      required: true,
+    },
+    actorRole: {
+      type: String,
+      required: true,
+    },
+    action: {
+      type: String,
+      required: true,
+    },
+    targetType: {
+      type: String,
+      enum: ['auction', 'user'],
+      required: true,
+    },
+    targetId: {
+      type: String,
+      required: true,
+    },
+    details: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    // Журнал только дополняется, поэтому updatedAt не нужен
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+AuditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+AuditLogSchema.index({ actorId: 1, createdAt: -1 });
+
+export default mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IBid extends Document {
+  auctionId: string;
+  userId: string;
+  amount: number;
+  timestamp: Date; // Время последнего повышения ставки
+  roundNumber: number; // Раунд, в котором ставка участвует сейчас (меняется при переносе)
+  placedInRound: number; // Раунд, в котором ставка была сделана
+  status: 'active' | 'won' | 'refunded';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BidSchema: Schema = new Schema(
+  {
+    auctionId: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    timestamp: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    roundNumber: {
+      type: Number,
+      required: true,
+    },
+    placedInRound: {
+      type: Number,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['active', 'won', 'refunded'],
+      default: 'active',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Лидерборд раунда: ставки по убыванию суммы, при равенстве — более ранние
+BidSchema.index({ auctionId: 1, roundNumber: 1, amount: -1, timestamp: 1 });
+BidSchema.index({ auctionId: 1, userId: 1, timestamp: 1 });
+// У пользователя может быть только одна живая ставка в аукционе
+BidSchema.index(
+  { auctionId: 1, userId: 1 },
+  { unique: true, partialFilterExpression: { status: 'active' } }
+);
+BidSchema.index({ auctionId: 1, status: 1 });
+
+export default mongoose.model<IBid>('Bid', BidSchema);
@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IIdempotencyKey extends Document {
+  key: string;
+  userId: string;
+  scope: string; // Метод и маршрут, например "POST /api/auctions/:id/bid"
+  requestHash: string;
+  status: 'processing' | 'completed';
+  responseStatus?: number;
+  responseBody?: unknown;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const IdempotencyKeySchema: Schema = new Schema(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    scope: {
+      type: String,
+      required: true,
+    },
+    requestHash: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['processing', 'completed'],
+      default: 'processing',
+    },
+    responseStatus: {
+      type: Number,
+    },
+    responseBody: {
+      type: Schema.Types.Mixed,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Ключ уникален в пределах пользователя и операции
+IdempotencyKeySchema.index({ userId: 1, scope: 1, key: 1 }, { unique: true });
+// MongoDB сама удаляет ключи после истечения срока
+IdempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IIdempotencyKey>('IdempotencyKey', IdempotencyKeySchema);
@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ILock extends Document {
+  name: string; // Например "round-processor:leader" или "auction:<id>:round"
+  owner: string; // Идентификатор экземпляра сервера, владеющего блокировкой
+  expiresAt: Date; // После этого момента блокировку может захватить другой экземпляр
+  acquiredAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LockSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    owner: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    acquiredAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Просроченные блокировки захватываются по expiresAt, TTL лишь убирает мусор
+LockSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 3600 });
+
+export default mongoose.model<ILock>('Lock', LockSchema);
@@ -0,0 +1,54 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IProxyBid extends Document {
+  auctionId: string;
+  userId: string;
+  maxAmount: number; // Потолок, до которого система повышает ставку пользователя
+  status: 'active' | 'cancelled' | 'completed';
+  cancelledAt?: Date;
+  completedAt?: Date; // Ставка выиграла или аукцион закончился
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProxyBidSchema: Schema = new Schema(
+  {
+    auctionId: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    maxAmount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    status: {
+      type: String,
+      enum: ['active', 'cancelled', 'completed'],
+      default: 'active',
+    },
+    cancelledAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// У пользователя один действующий потолок в аукционе; при равных условиях
+// первым повышается тот, кто задал потолок раньше
+ProxyBidSchema.index(
+  { auctionId: 1, userId: 1 },
+  { unique: true, partialFilterExpression: { status: 'active' } }
+);
+ProxyBidSchema.index({ auctionId: 1, status: 1, createdAt: 1 });
+
+export default mongoose.model<IProxyBid>('ProxyBid', ProxyBidSchema);
@@ -1,14 +1,83 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export type TransactionType = 'bid' | 'bid_increase' | 'refund' | 'win' | 'deposit';
+
+/**
+ * Системные счета двойной записи. Счёт пользователя — его доступные средства,
+ * escrow — средства, заблокированные под ставки, revenue — оплаченные выигрыши,
+ * external — источник пополнений (его баланс равен минус всем внесённым деньгам)
+ */
+export const SYSTEM_ACCOUNTS = {
+  external: 'system:external',
+  escrow: 'system:escrow',
+  revenue: 'system:revenue',
+} as const;
+
+export const userAccount = (userId: string): string => `user:${userId}`;
+
+/**
+ * Счета дебета и кредита для операции: деньги переходят с кредитуемого счёта на дебетуемый
+ */
+export const ledgerAccountsFor = (
+  type: TransactionType,
+  userId: string
+): { debitAccount: string; creditAccount: string } => {
+  switch (type) {
+    case 'deposit':
+      return { debitAccount: userAccount(userId), creditAccount: SYSTEM_ACCOUNTS.external };
+    case 'bid':
+    case 'bid_increase':
+      return { debitAccount: SYSTEM_ACCOUNTS.escrow, creditAccount: userAccount(userId) };
+    case 'refund':
+      return { debitAccount: userAccount(userId), creditAccount: SYSTEM_ACCOUNTS.escrow };
+    case 'win':
+      return { debitAccount: SYSTEM_ACCOUNTS.revenue, creditAccount: SYSTEM_ACCOUNTS.escrow };
+  }
+};
+
+/**
+ * Как операция меняет доступные средства пользователя: зачисление — плюс,
+ * списание в блокировку — минус. Выигрыш оплачивается из блокировки
+ */
+export const availableDelta = (type: TransactionType, amount: number): number => {
+  switch (type) {
+    case 'deposit':
+    case 'refund':
+      return amount;
+    case 'bid':
+    case 'bid_increase':
+      return -amount;
+    case 'win':
+      return 0;
+  }
+};
+
+export type IdempotentOperation = Exclude<TransactionType, 'bid_increase'>;
+
+/**
+ * Операция запроса, в пределах которой уникален ключ идемпотентности:
+ * ставка и её повышение — одна операция bid
+ */
+export const idempotentOperationFor = (type: TransactionType): IdempotentOperation =>
+  type === 'bid_increase' ? 'bid' : type;
+
+export const TRANSACTION_TYPES: TransactionType[] = ['bid', 'bid_increase', 'refund', 'win', 'deposit'];
+
+export const TRANSACTION_STATUSES: ITransaction['status'][] = ['pending', 'completed', 'failed', 'refunded'];
+
 export interface ITransaction extends Document {
   userId: string;
   auctionId: string;
-  type: 'bid' | 'refund' | 'win' | 'deposit';
+  type: TransactionType;
   amount: number;
+  debitAccount: string;
+  creditAccount: string;
   status: 'pending' | 'completed' | 'failed' | 'refunded';
   description?: string;
   bidId?: string;
   roundNumber?: number;
+  idempotencyKey?: string; // Ключ запроса, которым создана операция
+  operation?: IdempotentOperation; // Операция, в пределах которой уникален idempotencyKey
   createdAt: Date;
   updatedAt: Date;
 }
@@ -27,16 +96,24 @@ const TransactionSchema: Schema = new Schema(
     },
     type: {
       type: String,
-      enum: ['bid', 'refund', 'win', 'deposit'],
+      enum: TRANSACTION_TYPES,
       required: true,
     },
     amount: {
       type: Number,
       required: true,
     },
+    debitAccount: {
+      type: String,
+      required: true,
+    },
+    creditAccount: {
+      type: String,
+      required: true,
+    },
     status: {
       type: String,
-      enum: ['pending', 'completed', 'failed', 'refunded'],
+      enum: TRANSACTION_STATUSES,
       default: 'pending',
     },
     description: {
@@ -48,14 +125,41 @@ const TransactionSchema: Schema = new Schema(
     roundNumber: {
       type: Number,
     },
+    idempotencyKey: {
+      type: String,
+    },
+    operation: {
+      type: String,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+// Счета проводки и операция ключа запроса определяются типом, вызывающему коду их задавать не нужно
+TransactionSchema.pre('validate', function (next) {
+  if (this.type && this.userId) {
+    const accounts = ledgerAccountsFor(this.type as TransactionType, this.userId as string);
+    this.debitAccount = accounts.debitAccount;
+    this.creditAccount = accounts.creditAccount;
+  }
+  if (this.type && this.idempotencyKey) {
+    this.operation = idempotentOperationFor(this.type as TransactionType);
+  }
+  next();
+});
+
 TransactionSchema.index({ userId: 1, createdAt: -1 });
 TransactionSchema.index({ auctionId: 1, createdAt: -1 });
+// Операция с ключом запроса записывается не больше одного раза; один и тот же
+// ключ в разных операциях (пополнение и ставка) не конфликтует
+TransactionSchema.index(
+  { userId: 1, operation: 1, idempotencyKey: 1 },
+  { unique: true, partialFilterExpression: { idempotencyKey: { $type: 'string' } } }
+);
+TransactionSchema.index({ debitAccount: 1 });
+TransactionSchema.index({ creditAccount: 1 });
 
 export default mongoose.model<ITransaction>('Transaction', TransactionSchema);
 
@@ -1,9 +1,19 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export type UserRole = 'admin' | 'organizer' | 'bidder';
+
+export interface IHold {
+  auctionId: string;
+  amount: number;
+}
+
 export interface IUser extends Document {
   userId: string;
   username?: string;
-  balance: number;
+  role: UserRole; // admin — всё; organizer — свои аукционы; bidder — только ставки
+  balance: number; // Доступные средства
+  held: number; // Средства, заблокированные под живые ставки
+  holds: IHold[]; // Блокировки по аукционам (сумма равна held)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -19,12 +29,30 @@ const UserSchema: Schema = new Schema(
     username: {
       type: String,
     },
+    role: {
+      type: String,
+      enum: ['admin', 'organizer', 'bidder'],
+      default: 'bidder',
+    },
     balance: {
       type: Number,
       required: true,
       default: 1000, // Начальный баланс для демо
       min: 0,
     },
+    held: {
+      type: Number,
+      required: true,
+      default: 0,
+      min: 0,
+    },
+    holds: [
+      {
+        _id: false,
+        auctionId: { type: String, required: true },
+        amount: { type: Number, required: true, min: 0 },
+      },
+    ],
   },
   {
     timestamps: true,
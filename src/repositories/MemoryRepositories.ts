@@ -0,0 +1,918 @@
+import mongoose, { ClientSession, Document, Model } from 'mongoose';
+import Auction, { IAuction } from '../models/Auction';
+import AuctionHistory, { IAuctionHistoryEntry } from '../models/AuctionHistory';
+import AuditLog, { IAuditLog } from '../models/AuditLog';
+import Bid, { IBid } from '../models/Bid';
+import IdempotencyKey, { IIdempotencyKey } from '../models/IdempotencyKey';
+import Lock, { ILock } from '../models/Lock';
+import ProxyBid, { IProxyBid } from '../models/ProxyBid';
+import Transaction, { IdempotentOperation, ITransaction } from '../models/Transaction';
+import User, { IUser } from '../models/User';
+import { Clock, systemClock } from '../utils/clock';
+import {
+  AccountTurnover,
+  AuctionHistoryRepository,
+  AuctionListQuery,
+  AuctionListRow,
+  AuctionQuery,
+  AuctionRepository,
+  AuctionSchedule,
+  AuditLogRepository,
+  AuditQuery,
+  BidRepository,
+  HOLD_EPSILON,
+  IdempotencyKeyId,
+  IdempotencyKeyRepository,
+  LedgerQuery,
+  LedgerRepository,
+  LedgerTotalsRow,
+  LedgerTypeSum,
+  LockRepository,
+  NewAuditEntry,
+  NewBid,
+  NewHistoryEntry,
+  NewIdempotencyKey,
+  NewLedgerEntry,
+  NewUser,
+  ProxyBidRepository,
+  Repositories,
+  UserBalance,
+  UserRepository,
+  auctionSortValue,
+  matchesLedgerQuery,
+} from './types';
+
+// Код ошибки уникального индекса, как у MongoDB
+const DUPLICATE_KEY_ERROR = 11000;
+
+type UniqueKey<T> = (doc: T) => string | null;
+
+const duplicateKeyError = (collection: string, key: string): Error =>
+  Object.assign(new Error(`E11000 duplicate key error collection: ${collection} key: ${key}`), {
+    code: DUPLICATE_KEY_ERROR,
+  });
+
+/**
+ * Коллекция документов одной модели в памяти. Документы создаются и
+ * проверяются схемой модели, но хранятся и выдаются копиями: изменения
+ * прочитанного документа попадают в коллекцию только при сохранении.
+ * Сохранённые копии не меняются, поэтому снимок коллекции — копия Map
+ */
+class MemoryCollection<T extends Document> {
+  private documents = new Map<string, T>();
+
+  constructor(
+    private readonly model: Model<T>,
+    private readonly clock: Clock,
+    private readonly uniqueKeys: UniqueKey<T>[] = []
+  ) {}
+
+  all(): T[] {
+    return [...this.documents.values()].map((doc) => this.copy(doc));
+  }
+
+  get(id: string): T | null {
+    const doc = this.documents.get(id);
+    return doc ? this.copy(doc) : null;
+  }
+
+  /**
+   * Создать документ: значения по умолчанию, метки времени и проверка схемы
+   */
+  async insert(data: Record<string, unknown>): Promise<T> {
+    const doc = new this.model(data);
+    const now = this.clock.now();
+    if (this.model.schema.path('createdAt')) doc.set('createdAt', now);
+    if (this.model.schema.path('updatedAt')) doc.set('updatedAt', now);
+    await doc.validate();
+
+    this.store(doc);
+    return this.get(doc._id.toString())!;
+  }
+
+  /**
+   * Сохранить изменённый документ. Для схем с optimisticConcurrency версия
+   * проверяется и документ заменяется целиком, для остальных применяются
+   * только изменённые поля, как при save() в MongoDB
+   */
+  async save(doc: T): Promise<T> {
+    const id = doc._id.toString();
+    const existing = this.documents.get(id);
+    if (!existing) {
+      return this.insert(doc.toObject());
+    }
+
+    await doc.validate();
+    let next: T;
+
+    if (this.model.schema.get('optimisticConcurrency')) {
+      const version = doc.get('__v') ?? 0;
+      if ((existing.get('__v') ?? 0) !== version) {
+        throw new mongoose.Error.VersionError(doc, version, doc.modifiedPaths());
+      }
+      next = this.copy(doc);
+      next.set('__v', version + 1);
+    } else {
+      next = this.copy(existing);
+      for (const path of doc.directModifiedPaths()) {
+        next.set(path, doc.get(path));
+      }
+    }
+
+    if (this.model.schema.path('updatedAt')) next.set('updatedAt', this.clock.now());
+    this.store(next);
+    return this.get(id)!;
+  }
+
+  /**
+   * Изменить документ функцией update и сохранить его
+   */
+  async update(id: string, update: (doc: T) => void): Promise<T> {
+    const doc = this.get(id)!;
+    update(doc);
+    return this.save(doc);
+  }
+
+  remove(id: string): void {
+    this.documents.delete(id);
+  }
+
+  /**
+   * Запомнить состояние коллекции. Возвращает функцию, которая к нему вернёт
+   */
+  snapshot(): () => void {
+    const documents = new Map(this.documents);
+    return () => {
+      this.documents = documents;
+    };
+  }
+
+  private store(doc: T): void {
+    const id = doc._id.toString();
+
+    for (const uniqueKey of this.uniqueKeys) {
+      const key = uniqueKey(doc);
+      if (key === null) continue;
+      for (const [otherId, other] of this.documents) {
+        if (otherId !== id && uniqueKey(other) === key) {
+          throw duplicateKeyError(this.model.collection.collectionName, key);
+        }
+      }
+    }
+
+    this.documents.set(id, this.copy(doc));
+  }
+
+  private copy(doc: T): T {
+    return this.model.hydrate(doc.toObject());
+  }
+}
+
+/**
+ * Очередь вызовов: проверка и запись внутри вызова не перемежаются
+ * с другими вызовами той же очереди
+ */
+const serialQueue = () => {
+  let queue: Promise<unknown> = Promise.resolve();
+  return <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = queue.then(fn);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+};
+
+const byCreatedAt = (a: { createdAt: Date }, b: { createdAt: Date }): number =>
+  a.createdAt.getTime() - b.createdAt.getTime();
+
+const compareIds = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Строка каталога — те же поля, что выдаёт конвейер агрегации MongoDB
+ */
+const toListRow = (auction: IAuction, popularity: number): AuctionListRow => {
+  const round = auction.rounds[auction.currentRound - 1];
+  const running = auction.status === 'active' && round?.status === 'active';
+
+  return {
+    _id: auction._id.toString(),
+    title: auction.title,
+    description: auction.description,
+    status: auction.status,
+    createdBy: auction.createdBy,
+    totalItems: auction.totalItems,
+    itemsSold: auction.rounds.reduce((sum, r) => sum + r.winners.length, 0),
+    minBid: auction.minBid,
+    pricingRule: auction.pricingRule,
+    currentRound: auction.currentRound,
+    round: round
+      ? {
+        roundNumber: round.roundNumber,
+        status: round.status,
+        items: round.items,
+        reservePrice: round.reservePrice,
+        startTime: round.startTime,
+        endTime: round.endTime,
+        totalBids: round.totalBids,
+      }
+      : null,
+    endsAt: running ? round.endTime : null,
+    popularity,
+    scheduledStartAt: auction.scheduledStartAt,
+    startedAt: auction.startedAt,
+    completedAt: auction.completedAt,
+    cancelledAt: auction.cancelledAt,
+    createdAt: auction.createdAt,
+  };
+};
+
+/**
+ * Сроки аукциона — те же поля, что выбирает для планировщика запрос к MongoDB
+ */
+const toSchedule = (auction: IAuction): AuctionSchedule => ({
+  _id: auction._id.toString(),
+  status: auction.status,
+  scheduledStartAt: auction.scheduledStartAt,
+  currentRound: auction.currentRound,
+  rounds: auction.rounds.map(({ status, startTime, endTime }) => ({ status, startTime, endTime })),
+});
+
+// Слова для текстового поиска: как у текстового индекса без языка — без учёта регистра
+const words = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+export class MemoryAuctionRepository implements AuctionRepository {
+  constructor(
+    private readonly auctions: MemoryCollection<IAuction>,
+    private readonly bids: MemoryCollection<IBid>
+  ) {}
+
+  async create(data: Record<string, unknown>): Promise<IAuction> {
+    return this.auctions.insert(data);
+  }
+
+  async findById(auctionId: string): Promise<IAuction | null> {
+    return this.auctions.get(auctionId);
+  }
+
+  async exists(auctionId: string): Promise<boolean> {
+    return this.auctions.get(auctionId) !== null;
+  }
+
+  async find(query: AuctionQuery = {}): Promise<IAuction[]> {
+    const auctions = this.auctions
+      .all()
+      .filter(
+        (auction) =>
+          (!query.status || auction.status === query.status) &&
+          (!query.scheduledAfter ||
+            (auction.scheduledStartAt !== undefined && auction.scheduledStartAt > query.scheduledAfter))
+      )
+      .reverse()
+      .sort((a, b) =>
+        query.sort === 'scheduled'
+          ? (a.scheduledStartAt?.getTime() ?? 0) - (b.scheduledStartAt?.getTime() ?? 0)
+          : byCreatedAt(b, a)
+      );
+
+    return query.limit !== undefined ? auctions.slice(0, query.limit) : auctions;
+  }
+
+  async list(query: AuctionListQuery): Promise<AuctionListRow[]> {
+    // Популярность — число документов ставок: перенесённая ставка считается один раз
+    const bidCounts = new Map<string, number>();
+    for (const bid of this.bids.all()) {
+      bidCounts.set(bid.auctionId, (bidCounts.get(bid.auctionId) ?? 0) + 1);
+    }
+    const terms = query.search ? new Set(words(query.search)) : null;
+    // newest и popular — по убыванию ключа, ending — по возрастанию; при равенстве — по id
+    const order = query.sort === 'ending' ? 1 : -1;
+    const compare = (a: AuctionListRow, b: AuctionListRow): number =>
+      order * (auctionSortValue(a, query.sort) - auctionSortValue(b, query.sort) || compareIds(a._id, b._id));
+    const { after } = query;
+
+    return this.auctions
+      .all()
+      .filter(
+        (auction) =>
+          (!query.statuses || query.statuses.includes(auction.status)) &&
+          (query.createdBy === undefined || auction.createdBy === query.createdBy) &&
+          (query.minItems === undefined || auction.totalItems >= query.minItems) &&
+          (query.maxItems === undefined || auction.totalItems <= query.maxItems) &&
+          (query.minBidFrom === undefined || auction.minBid >= query.minBidFrom) &&
+          (query.minBidTo === undefined || auction.minBid <= query.minBidTo) &&
+          (!terms ||
+            words(`${auction.title} ${auction.description ?? ''}`).some((word) => terms.has(word)))
+      )
+      .map((auction) => toListRow(auction, bidCounts.get(auction._id.toString()) ?? 0))
+      .filter(
+        (row) =>
+          (!query.endingBefore || (row.endsAt !== null && row.endsAt <= query.endingBefore)) &&
+          (!after ||
+            order * (auctionSortValue(row, query.sort) - after.value || compareIds(row._id, after.id)) > 0)
+      )
+      .sort(compare)
+      .slice(0, query.limit);
+  }
+
+  async findSchedule(auctionId: string): Promise<AuctionSchedule | null> {
+    const auction = this.auctions.get(auctionId);
+    return auction ? toSchedule(auction) : null;
+  }
+
+  async *streamScheduled(): AsyncIterable<AuctionSchedule> {
+    yield* this.auctions
+      .all()
+      .filter(
+        (auction) =>
+          auction.status === 'active' || (auction.status === 'draft' && auction.scheduledStartAt != null)
+      )
+      .map(toSchedule);
+  }
+
+  async save(auction: IAuction): Promise<IAuction> {
+    const saved = await this.auctions.save(auction);
+    // Как и после save() в MongoDB, документ вызывающего получает новую версию
+    auction.set('__v', saved.get('__v'));
+    return auction;
+  }
+}
+
+export class MemoryUserRepository implements UserRepository {
+  constructor(private readonly users: MemoryCollection<IUser>) {}
+
+  async findByUserId(userId: string): Promise<IUser | null> {
+    return this.users.all().find((user) => user.userId === userId) ?? null;
+  }
+
+  async findRole(userId: string): Promise<IUser['role'] | null> {
+    return (await this.findByUserId(userId))?.role ?? null;
+  }
+
+  async findBalances(): Promise<UserBalance[]> {
+    return this.users.all().map(({ userId, balance, held, holds }) => ({ userId, balance, held, holds }));
+  }
+
+  async exists(userId: string): Promise<boolean> {
+    return (await this.findByUserId(userId)) !== null;
+  }
+
+  async create(data: NewUser): Promise<IUser> {
+    return this.users.insert({ ...data });
+  }
+
+  async save(user: IUser): Promise<IUser> {
+    return this.users.save(user);
+  }
+
+  async incrementBalance(userId: string, delta: number): Promise<IUser | null> {
+    const user = await this.findByUserId(userId);
+    if (!user || user.balance + delta < 0) {
+      return null;
+    }
+
+    return this.users.update(user._id.toString(), (doc) => {
+      doc.balance += delta;
+    });
+  }
+
+  async addHold(userId: string, auctionId: string, amount: number): Promise<IUser | null> {
+    const user = await this.findByUserId(userId);
+    if (!user || user.balance < amount) {
+      return null;
+    }
+
+    return this.users.update(user._id.toString(), (doc) => {
+      const hold = doc.holds.find((h) => h.auctionId === auctionId);
+      doc.balance -= amount;
+      doc.held += amount;
+      if (hold) {
+        hold.amount += amount;
+      } else {
+        doc.holds.push({ auctionId, amount });
+      }
+    });
+  }
+
+  async reduceHold(
+    userId: string,
+    auctionId: string,
+    amount: number,
+    refund: number
+  ): Promise<IUser | null> {
+    const user = await this.findByUserId(userId);
+    const hold = user?.holds.find((h) => h.auctionId === auctionId);
+    if (!user || !hold || hold.amount < amount - HOLD_EPSILON) {
+      return null;
+    }
+
+    return this.users.update(user._id.toString(), (doc) => {
+      doc.balance += refund;
+      doc.held -= amount;
+      const remaining = hold.amount - amount;
+      doc.holds = remaining <= HOLD_EPSILON
+        ? doc.holds.filter((h) => h.auctionId !== auctionId)
+        : doc.holds.map((h) => (h.auctionId === auctionId ? { auctionId, amount: remaining } : h));
+    });
+  }
+}
+
+export class MemoryBidRepository implements BidRepository {
+  constructor(private readonly bids: MemoryCollection<IBid>) {}
+
+  async create(data: NewBid): Promise<IBid> {
+    return this.bids.insert({ ...data });
+  }
+
+  async save(bid: IBid): Promise<IBid> {
+    return this.bids.save(bid);
+  }
+
+  async findActive(auctionId: string, userId: string): Promise<IBid | null> {
+    return (
+      this.bids
+        .all()
+        .find((bid) => bid.auctionId === auctionId && bid.userId === userId && bid.status === 'active') ??
+      null
+    );
+  }
+
+  async findActiveByAuction(auctionId: string): Promise<IBid[]> {
+    return this.bids.all().filter((bid) => bid.auctionId === auctionId && bid.status === 'active');
+  }
+
+  async findByAuction(auctionId: string): Promise<IBid[]> {
+    return this.bids.all().filter((bid) => bid.auctionId === auctionId);
+  }
+
+  async findByUser(auctionId: string, userId: string): Promise<IBid[]> {
+    return this.bids
+      .all()
+      .filter((bid) => bid.auctionId === auctionId && bid.userId === userId)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async getStandings(auctionId: string, roundNumber: number, limit?: number): Promise<IBid[]> {
+    const standings = this.bids
+      .all()
+      .filter(
+        (bid) =>
+          bid.auctionId === auctionId && bid.roundNumber === roundNumber && bid.status !== 'refunded'
+      )
+      .sort((a, b) => b.amount - a.amount || a.timestamp.getTime() - b.timestamp.getTime());
+
+    return limit !== undefined ? standings.slice(0, limit) : standings;
+  }
+
+  async getTopBids(
+    rounds: Array<{ auctionId: string; roundNumber: number }>
+  ): Promise<Map<string, number>> {
+    const wanted = new Map(rounds.map((round) => [round.auctionId, round.roundNumber]));
+    const top = new Map<string, number>();
+
+    for (const bid of this.bids.all()) {
+      if (bid.status !== 'refunded' && wanted.get(bid.auctionId) === bid.roundNumber) {
+        top.set(bid.auctionId, Math.max(top.get(bid.auctionId) ?? 0, bid.amount));
+      }
+    }
+
+    return top;
+  }
+
+  async sumActive(): Promise<Map<string, number>> {
+    const sums = new Map<string, number>();
+    for (const bid of this.bids.all()) {
+      if (bid.status === 'active') {
+        sums.set(bid.auctionId, (sums.get(bid.auctionId) ?? 0) + bid.amount);
+      }
+    }
+    return sums;
+  }
+
+  async setStatus(bidIds: string[], status: IBid['status']): Promise<void> {
+    for (const bidId of bidIds.map(String)) {
+      if (this.bids.get(bidId)) {
+        await this.bids.update(bidId, (bid) => {
+          bid.status = status;
+        });
+      }
+    }
+  }
+
+  async moveActive(auctionId: string, fromRound: number, toRound: number): Promise<number> {
+    const moving = this.bids
+      .all()
+      .filter(
+        (bid) => bid.auctionId === auctionId && bid.roundNumber === fromRound && bid.status === 'active'
+      );
+
+    for (const bid of moving) {
+      bid.roundNumber = toRound;
+      await this.bids.save(bid);
+    }
+    return moving.length;
+  }
+}
+
+// Порядок записи операций: по createdAt, при равенстве — по _id
+const byRecordOrder = (a: ITransaction, b: ITransaction): number =>
+  byCreatedAt(a, b) || compareIds(a._id.toString(), b._id.toString());
+
+const isBefore = (transaction: ITransaction, value: number, id: string): boolean =>
+  transaction.createdAt.getTime() < value ||
+  (transaction.createdAt.getTime() === value && transaction._id.toString() < id);
+
+const sumTotals = (transactions: ITransaction[]): LedgerTotalsRow[] => {
+  const totals = new Map<string, LedgerTotalsRow>();
+  for (const { type, status, amount } of transactions) {
+    const key = `${type}:${status}`;
+    const row = totals.get(key) ?? { type, status, count: 0, amount: 0 };
+    row.count += 1;
+    row.amount += amount;
+    totals.set(key, row);
+  }
+  return [...totals.values()];
+};
+
+export class MemoryLedgerRepository implements LedgerRepository {
+  constructor(private readonly transactions: MemoryCollection<ITransaction>) {}
+
+  async record(entries: NewLedgerEntry[]): Promise<ITransaction[]> {
+    const recorded: ITransaction[] = [];
+    for (const entry of entries) {
+      recorded.push(await this.transactions.insert({ ...entry }));
+    }
+    return recorded;
+  }
+
+  async find(
+    query: LedgerQuery,
+    limit: number,
+    after?: { value: number; id: string }
+  ): Promise<ITransaction[]> {
+    return this.transactions
+      .all()
+      .filter(
+        (transaction) =>
+          matchesLedgerQuery(transaction, query) &&
+          (!after || isBefore(transaction, after.value, after.id))
+      )
+      .sort((a, b) => byRecordOrder(b, a))
+      .slice(0, limit);
+  }
+
+  async *stream(query: LedgerQuery): AsyncIterable<ITransaction> {
+    yield* this.transactions
+      .all()
+      .filter((transaction) => matchesLedgerQuery(transaction, query))
+      .sort(byRecordOrder);
+  }
+
+  async totals(query: LedgerQuery): Promise<LedgerTotalsRow[]> {
+    return sumTotals(this.transactions.all().filter((transaction) => matchesLedgerQuery(transaction, query)));
+  }
+
+  async totalsBefore(userId: string, createdAt: Date, id: string): Promise<LedgerTotalsRow[]> {
+    return sumTotals(
+      this.transactions
+        .all()
+        .filter(
+          (transaction) =>
+            transaction.userId === userId &&
+            transaction.status === 'completed' &&
+            isBefore(transaction, createdAt.getTime(), id)
+        )
+    );
+  }
+
+  async sumByType(field: 'userId' | 'auctionId'): Promise<LedgerTypeSum[]> {
+    const sums = new Map<string, LedgerTypeSum>();
+    for (const transaction of this.transactions.all()) {
+      if (transaction.status !== 'completed') continue;
+      const key = transaction[field];
+      const sum = sums.get(`${key}:${transaction.type}`) ?? { key, type: transaction.type, amount: 0 };
+      sum.amount += transaction.amount;
+      sums.set(`${key}:${transaction.type}`, sum);
+    }
+    return [...sums.values()];
+  }
+
+  async turnover(): Promise<AccountTurnover[]> {
+    const accounts = new Map<string, AccountTurnover>();
+    const entryFor = (account: string): AccountTurnover => {
+      const entry = accounts.get(account) ?? { account, debit: 0, credit: 0 };
+      accounts.set(account, entry);
+      return entry;
+    };
+
+    for (const transaction of this.transactions.all()) {
+      if (transaction.status !== 'completed') continue;
+      entryFor(transaction.debitAccount).debit += transaction.amount;
+      entryFor(transaction.creditAccount).credit += transaction.amount;
+    }
+    return [...accounts.values()];
+  }
+
+  async findByAuction(auctionId: string): Promise<ITransaction[]> {
+    return this.transactions
+      .all()
+      .filter((transaction) => transaction.auctionId === auctionId)
+      .sort(byRecordOrder);
+  }
+
+  async findByIdempotencyKey(
+    userId: string,
+    operation: IdempotentOperation,
+    idempotencyKey: string
+  ): Promise<ITransaction | null> {
+    return (
+      this.transactions
+        .all()
+        .find(
+          (transaction) =>
+            transaction.userId === userId &&
+            transaction.operation === operation &&
+            transaction.idempotencyKey === idempotencyKey
+        ) ?? null
+    );
+  }
+
+  async countBids(auctionId: string, userId: string): Promise<number> {
+    return this.transactions
+      .all()
+      .filter(
+        (transaction) =>
+          transaction.auctionId === auctionId &&
+          transaction.userId === userId &&
+          (transaction.type === 'bid' || transaction.type === 'bid_increase')
+      ).length;
+  }
+}
+
+export class MemoryProxyBidRepository implements ProxyBidRepository {
+  constructor(private readonly proxies: MemoryCollection<IProxyBid>) {}
+
+  async findActive(auctionId: string): Promise<IProxyBid[]> {
+    return this.proxies
+      .all()
+      .filter((proxy) => proxy.auctionId === auctionId && proxy.status === 'active')
+      .sort(byCreatedAt);
+  }
+
+  async findLatest(auctionId: string, userId: string): Promise<IProxyBid | null> {
+    const proxies = this.proxies
+      .all()
+      .filter((proxy) => proxy.auctionId === auctionId && proxy.userId === userId)
+      .reverse()
+      .sort((a, b) => byCreatedAt(b, a));
+    return proxies[0] ?? null;
+  }
+
+  async upsertActive(auctionId: string, userId: string, maxAmount: number): Promise<IProxyBid> {
+    const proxy = (await this.findActive(auctionId)).find((active) => active.userId === userId);
+    if (!proxy) {
+      return this.proxies.insert({ auctionId, userId, maxAmount });
+    }
+
+    proxy.maxAmount = maxAmount;
+    return this.proxies.save(proxy);
+  }
+
+  async close(
+    auctionId: string,
+    status: 'completed' | 'cancelled',
+    at: Date,
+    userIds?: string[]
+  ): Promise<number> {
+    const closing = (await this.findActive(auctionId)).filter(
+      (proxy) => !userIds || userIds.includes(proxy.userId)
+    );
+
+    for (const proxy of closing) {
+      proxy.status = status;
+      proxy.set(status === 'completed' ? 'completedAt' : 'cancelledAt', at);
+      await this.proxies.save(proxy);
+    }
+    return closing.length;
+  }
+}
+
+export class MemoryAuctionHistoryRepository implements AuctionHistoryRepository {
+  constructor(private readonly entries: MemoryCollection<IAuctionHistoryEntry>) {}
+
+  async lastSequence(auctionId: string): Promise<number> {
+    return Math.max(0, ...(await this.findByAuction(auctionId)).map((entry) => entry.sequence));
+  }
+
+  async insert(entries: NewHistoryEntry[]): Promise<void> {
+    for (const entry of entries) {
+      await this.entries.insert({ ...entry });
+    }
+  }
+
+  async findByAuction(auctionId: string): Promise<IAuctionHistoryEntry[]> {
+    return this.entries
+      .all()
+      .filter((entry) => entry.auctionId === auctionId)
+      .sort((a, b) => a.sequence - b.sequence);
+  }
+}
+
+export class MemoryAuditLogRepository implements AuditLogRepository {
+  constructor(private readonly entries: MemoryCollection<IAuditLog>) {}
+
+  async create(entry: NewAuditEntry): Promise<void> {
+    await this.entries.insert({ ...entry });
+  }
+
+  async find(query: AuditQuery, limit: number): Promise<IAuditLog[]> {
+    return this.entries
+      .all()
+      .filter((entry) =>
+        Object.entries(query).every(([key, value]) => entry.get(key) === value)
+      )
+      .reverse()
+      .sort((a, b) => byCreatedAt(b, a))
+      .slice(0, limit);
+  }
+}
+
+export class MemoryLockRepository implements LockRepository {
+  private readonly serial = serialQueue();
+
+  constructor(private readonly locks: MemoryCollection<ILock>) {}
+
+  acquire(name: string, owner: string, now: Date, expiresAt: Date): Promise<boolean> {
+    return this.serial(async () => {
+      const lock = this.findByName(name);
+      if (!lock) {
+        await this.locks.insert({ name, owner, acquiredAt: now, expiresAt });
+        return true;
+      }
+      if (lock.owner !== owner && lock.expiresAt > now) {
+        return false;
+      }
+
+      if (lock.owner !== owner) {
+        lock.owner = owner;
+        lock.acquiredAt = now;
+      }
+      lock.expiresAt = expiresAt;
+      await this.locks.save(lock);
+      return true;
+    });
+  }
+
+  async release(name: string, owner: string): Promise<void> {
+    const lock = this.findByName(name);
+    if (lock?.owner === owner) {
+      this.locks.remove(lock._id.toString());
+    }
+  }
+
+  async findHolder(name: string, now: Date): Promise<ILock | null> {
+    const lock = this.findByName(name);
+    return lock && lock.expiresAt > now ? lock : null;
+  }
+
+  private findByName(name: string): ILock | null {
+    return this.locks.all().find((lock) => lock.name === name) ?? null;
+  }
+}
+
+const sameKey = (record: IIdempotencyKey, id: IdempotencyKeyId): boolean =>
+  record.userId === id.userId && record.scope === id.scope && record.key === id.key;
+
+export class MemoryIdempotencyKeyRepository implements IdempotencyKeyRepository {
+  private readonly serial = serialQueue();
+
+  constructor(
+    private readonly keys: MemoryCollection<IIdempotencyKey>,
+    private readonly clock: Clock
+  ) {}
+
+  create(data: NewIdempotencyKey): Promise<IIdempotencyKey> {
+    return this.serial(async () => {
+      // Просроченный ключ можно занять заново, как после удаления TTL-индексом
+      this.findKey(data);
+      return this.keys.insert({ ...data, status: 'processing' });
+    });
+  }
+
+  reclaim(
+    id: IdempotencyKeyId,
+    requestHash: string,
+    staleBefore: Date,
+    now: Date
+  ): Promise<IIdempotencyKey | null> {
+    return this.serial(async () => {
+      const record = this.findKey(id);
+      if (
+        !record ||
+        record.requestHash !== requestHash ||
+        record.status !== 'processing' ||
+        record.updatedAt >= staleBefore
+      ) {
+        return null;
+      }
+
+      record.updatedAt = now;
+      return this.keys.save(record);
+    });
+  }
+
+  async find(id: IdempotencyKeyId): Promise<IIdempotencyKey | null> {
+    return this.findKey(id);
+  }
+
+  complete(id: IdempotencyKeyId, responseStatus: number, responseBody: unknown): Promise<void> {
+    return this.serial(async () => {
+      const record = this.findKey(id);
+      if (record) {
+        record.status = 'completed';
+        record.responseStatus = responseStatus;
+        record.responseBody = responseBody;
+        await this.keys.save(record);
+      }
+    });
+  }
+
+  async remove(id: IdempotencyKeyId): Promise<void> {
+    const record = this.findKey(id);
+    if (record) {
+      this.keys.remove(record._id.toString());
+    }
+  }
+
+  /**
+   * Действующий ключ. Просроченный удаляется
+   */
+  private findKey(id: IdempotencyKeyId): IIdempotencyKey | null {
+    const record = this.keys.all().find((candidate) => sameKey(candidate, id));
+    if (record && record.expiresAt <= this.clock.now()) {
+      this.keys.remove(record._id.toString());
+      return null;
+    }
+    return record ?? null;
+  }
+}
+
+/**
+ * Хранилище в памяти процесса. Транзакции выполняются строго по очереди,
+ * при ошибке все коллекции возвращаются к снимку на начало транзакции.
+ * Чтения вне транзакции видят её незавершённые изменения
+ */
+export const createMemoryRepositories = (clock: Clock = systemClock): Repositories => {
+  const activeKey = (doc: { auctionId: string; userId: string; status: string }) =>
+    doc.status === 'active' ? `${doc.auctionId}:${doc.userId}` : null;
+
+  const auctions = new MemoryCollection<IAuction>(Auction, clock);
+  const users = new MemoryCollection<IUser>(User, clock, [(user) => user.userId]);
+  const bids = new MemoryCollection<IBid>(Bid, clock, [activeKey]);
+  const transactions = new MemoryCollection<ITransaction>(Transaction, clock, [
+    (transaction) =>
+      transaction.idempotencyKey
+        ? `${transaction.userId}:${transaction.operation}:${transaction.idempotencyKey}`
+        : null,
+  ]);
+  const proxies = new MemoryCollection<IProxyBid>(ProxyBid, clock, [activeKey]);
+  const history = new MemoryCollection<IAuctionHistoryEntry>(AuctionHistory, clock, [
+    (entry) => `${entry.auctionId}:${entry.sequence}`,
+  ]);
+  const audit = new MemoryCollection<IAuditLog>(AuditLog, clock);
+  // Блокировки и ключи идемпотентности в снимки транзакций не входят
+  const locks = new MemoryCollection<ILock>(Lock, clock, [(lock) => lock.name]);
+  const idempotencyKeys = new MemoryCollection<IIdempotencyKey>(IdempotencyKey, clock, [
+    (record) => `${record.userId}:${record.scope}:${record.key}`,
+  ]);
+  const collections: Array<Pick<MemoryCollection<Document>, 'snapshot'>> = [
+    auctions, users, bids, transactions, proxies, history, audit,
+  ];
+
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    backend: 'memory',
+    auctions: new MemoryAuctionRepository(auctions, bids),
+    users: new MemoryUserRepository(users),
+    bids: new MemoryBidRepository(bids),
+    ledger: new MemoryLedgerRepository(transactions),
+    proxyBids: new MemoryProxyBidRepository(proxies),
+    history: new MemoryAuctionHistoryRepository(history),
+    audit: new MemoryAuditLogRepository(audit),
+    locks: new MemoryLockRepository(locks),
+    idempotencyKeys: new MemoryIdempotencyKeyRepository(idempotencyKeys, clock),
+    transaction: <T>(fn: (session?: ClientSession) => Promise<T>): Promise<T> => {
+      const run = queue.then(async () => {
+        const restores = collections.map((collection) => collection.snapshot());
+        try {
+          return await fn();
+        } catch (error) {
+          restores.forEach((restore) => restore());
+          throw error;
+        }
+      });
+      queue = run.catch(() => undefined);
+      return run;
+    },
+  };
+};
@@ -0,0 +1,683 @@
+import mongoose, { ClientSession, PipelineStage } from 'mongoose';
+import Auction, { IAuction } from '../models/Auction';
+import AuctionHistory, { IAuctionHistoryEntry } from '../models/AuctionHistory';
+import AuditLog, { IAuditLog } from '../models/AuditLog';
+import Bid, { IBid } from '../models/Bid';
+import IdempotencyKey, { IIdempotencyKey } from '../models/IdempotencyKey';
+import Lock, { ILock } from '../models/Lock';
+import ProxyBid, { IProxyBid } from '../models/ProxyBid';
+import Transaction, { IdempotentOperation, ITransaction } from '../models/Transaction';
+import User, { IUser } from '../models/User';
+import { withTransaction } from '../config/database';
+import {
+  AccountTurnover,
+  AuctionHistoryRepository,
+  AuctionListQuery,
+  AuctionListRow,
+  AuctionQuery,
+  AuctionRepository,
+  AuctionSchedule,
+  AuditLogRepository,
+  AuditQuery,
+  BidRepository,
+  HOLD_EPSILON,
+  IdempotencyKeyId,
+  IdempotencyKeyRepository,
+  LedgerQuery,
+  LedgerRepository,
+  LedgerTotalsRow,
+  LedgerTypeSum,
+  LockRepository,
+  NO_END_TIME,
+  NewAuditEntry,
+  NewBid,
+  NewHistoryEntry,
+  NewIdempotencyKey,
+  NewLedgerEntry,
+  NewUser,
+  ProxyBidRepository,
+  Repositories,
+  UserBalance,
+  UserRepository,
+} from './types';
+
+// Поле, по которому конвейер каталога сортирует каждый из порядков
+const LIST_SORT_FIELDS = { newest: 'createdAt', ending: 'endsAt', popular: 'popularity' } as const;
+
+// Поля аукциона, по которым определяется срок следующего действия
+const SCHEDULE_FIELDS = 'status scheduledStartAt currentRound rounds.status rounds.startTime rounds.endTime';
+
+type LeanSchedule = Omit<AuctionSchedule, '_id'> & { _id: mongoose.Types.ObjectId };
+
+const toSchedule = (auction: LeanSchedule): AuctionSchedule => ({ ...auction, _id: auction._id.toString() });
+
+export class MongoAuctionRepository implements AuctionRepository {
+  async create(data: Record<string, unknown>, session?: ClientSession): Promise<IAuction> {
+    const auction = new Auction(data);
+    return auction.save({ session });
+  }
+
+  async findById(auctionId: string, session?: ClientSession): Promise<IAuction | null> {
+    return Auction.findById(auctionId).session(session ?? null);
+  }
+
+  async exists(auctionId: string): Promise<boolean> {
+    return (await Auction.exists({ _id: auctionId })) !== null;
+  }
+
+  async find(query: AuctionQuery = {}): Promise<IAuction[]> {
+    const filter: Record<string, unknown> = {};
+    if (query.status) {
+      filter.status = query.status;
+    }
+    if (query.scheduledAfter) {
+      filter.scheduledStartAt = { $gt: query.scheduledAfter };
+    }
+
+    const find = Auction.find(filter).sort(
+      query.sort === 'scheduled' ? { scheduledStartAt: 1 } : { createdAt: -1 }
+    );
+    if (query.limit !== undefined) {
+      find.limit(query.limit);
+    }
+    return find.exec();
+  }
+
+  async list(query: AuctionListQuery): Promise<AuctionListRow[]> {
+    // $text допускается только в первой стадии конвейера
+    const match: Record<string, unknown> = {};
+    if (query.search) {
+      match.$text = { $search: query.search };
+    }
+    if (query.statuses) {
+      match.status = { $in: query.statuses };
+    }
+    if (query.createdBy !== undefined) {
+      match.createdBy = query.createdBy;
+    }
+    if (query.minItems !== undefined || query.maxItems !== undefined) {
+      match.totalItems = {
+        ...(query.minItems !== undefined && { $gte: query.minItems }),
+        ...(query.maxItems !== undefined && { $lte: query.maxItems }),
+      };
+    }
+    if (query.minBidFrom !== undefined || query.minBidTo !== undefined) {
+      match.minBid = {
+        ...(query.minBidFrom !== undefined && { $gte: query.minBidFrom }),
+        ...(query.minBidTo !== undefined && { $lte: query.minBidTo }),
+      };
+    }
+
+    const field = LIST_SORT_FIELDS[query.sort];
+    // newest и popular — по убыванию ключа, ending — по возрастанию; при равенстве — по _id
+    const order = query.sort === 'ending' ? 1 : -1;
+    // Популярность — число ставок аукциона в коллекции Bid: перенесённая
+    // в следующий раунд ставка остаётся одним документом и считается один раз
+    const popularity: PipelineStage[] = [
+      { $addFields: { auctionKey: { $toString: '$_id' } } },
+      {
+        $lookup: {
+          from: Bid.collection.collectionName,
+          localField: 'auctionKey',
+          foreignField: 'auctionId',
+          pipeline: [{ $count: 'count' }],
+          as: 'bidCount',
+        },
+      },
+      { $addFields: { popularity: { $ifNull: [{ $arrayElemAt: ['$bidCount.count', 0] }, 0] } } },
+    ];
+    const pipeline: PipelineStage[] = [
+      { $match: match },
+      {
+        $addFields: {
+          round: { $arrayElemAt: ['$rounds', { $subtract: ['$currentRound', 1] }] },
+          itemsSold: {
+            $sum: { $map: { input: '$rounds', as: 'r', in: { $size: '$$r.winners' } } },
+          },
+        },
+      },
+      {
+        $addFields: {
+          endsAt: {
+            $cond: [
+              { $and: [{ $eq: ['$status', 'active'] }, { $eq: ['$round.status', 'active'] }] },
+              '$round.endTime',
+              new Date(NO_END_TIME),
+            ],
+          },
+        },
+      },
+    ];
+
+    if (query.endingBefore) {
+      pipeline.push({ $match: { endsAt: { $lte: query.endingBefore } } });
+    }
+    // Для остальных порядков ставки считаются только у строк страницы
+    if (query.sort === 'popular') {
+      pipeline.push(...popularity);
+    }
+    if (query.after) {
+      const value = query.sort === 'popular' ? query.after.value : new Date(query.after.value);
+      const id = new mongoose.Types.ObjectId(query.after.id);
+      const beyond = order === 1 ? '$gt' : '$lt';
+      pipeline.push({
+        $match: {
+          $or: [{ [field]: { [beyond]: value } }, { [field]: value, _id: { [beyond]: id } }],
+        },
+      });
+    }
+
+    pipeline.push(
+      { $sort: { [field]: order, _id: order } },
+      { $limit: query.limit },
+      ...(query.sort === 'popular' ? [] : popularity),
+      {
+        $project: {
+          title: 1,
+          description: 1,
+          status: 1,
+          createdBy: 1,
+          totalItems: 1,
+          itemsSold: 1,
+          minBid: 1,
+          pricingRule: 1,
+          currentRound: 1,
+          'round.roundNumber': 1,
+          'round.status': 1,
+          'round.items': 1,
+          'round.reservePrice': 1,
+          'round.startTime': 1,
+          'round.endTime': 1,
+          'round.totalBids': 1,
+          endsAt: 1,
+          popularity: 1,
+          scheduledStartAt: 1,
+          startedAt: 1,
+          completedAt: 1,
+          cancelledAt: 1,
+          createdAt: 1,
+        },
+      }
+    );
+
+    const rows = await Auction.aggregate<AuctionListRow & { _id: mongoose.Types.ObjectId }>(pipeline);
+    return rows.map((row) => ({
+      ...row,
+      _id: row._id.toString(),
+      round: row.round ?? null,
+      endsAt: row.endsAt && row.endsAt.getTime() !== NO_END_TIME ? row.endsAt : null,
+    }));
+  }
+
+  async findSchedule(auctionId: string): Promise<AuctionSchedule | null> {
+    const auction = await Auction.findById(auctionId).select(SCHEDULE_FIELDS).lean<LeanSchedule>();
+    return auction ? toSchedule(auction) : null;
+  }
+
+  async *streamScheduled(): AsyncIterable<AuctionSchedule> {
+    const cursor = Auction.find({
+      $or: [{ status: 'active' }, { status: 'draft', scheduledStartAt: { $ne: null } }],
+    })
+      .select(SCHEDULE_FIELDS)
+      .lean<LeanSchedule[]>()
+      .cursor();
+
+    for await (const auction of cursor) {
+      yield toSchedule(auction);
+    }
+  }
+
+  async save(auction: IAuction, session?: ClientSession): Promise<IAuction> {
+    return auction.save({ session });
+  }
+}
+
+export class MongoUserRepository implements UserRepository {
+  async findByUserId(userId: string, session?: ClientSession): Promise<IUser | null> {
+    return User.findOne({ userId }).session(session ?? null);
+  }
+
+  async findRole(userId: string): Promise<IUser['role'] | null> {
+    const user = await User.findOne({ userId }).select('role').lean();
+    return user?.role ?? null;
+  }
+
+  async findBalances(): Promise<UserBalance[]> {
+    return User.find({}, { userId: 1, balance: 1, held: 1, holds: 1 }).lean<UserBalance[]>();
+  }
+
+  async exists(userId: string, session?: ClientSession): Promise<boolean> {
+    return (await User.exists({ userId }).session(session ?? null)) !== null;
+  }
+
+  async create(data: NewUser, session?: ClientSession): Promise<IUser> {
+    const [user] = await User.create([data], { session });
+    return user;
+  }
+
+  async save(user: IUser, session?: ClientSession): Promise<IUser> {
+    return user.save({ session });
+  }
+
+  async incrementBalance(userId: string, delta: number, session?: ClientSession): Promise<IUser | null> {
+    const filter = delta < 0 ? { userId, balance: { $gte: -delta } } : { userId };
+    return User.findOneAndUpdate(filter, { $inc: { balance: delta } }, { new: true, session });
+  }
+
+  async addHold(
+    userId: string,
+    auctionId: string,
+    amount: number,
+    session?: ClientSession
+  ): Promise<IUser | null> {
+    // Блокировка по аукциону уже есть — увеличить её
+    const user = await User.findOneAndUpdate(
+      { userId, balance: { $gte: amount }, 'holds.auctionId': auctionId },
+      { $inc: { balance: -amount, held: amount, 'holds.$.amount': amount } },
+      { new: true, session }
+    );
+
+    return user ?? User.findOneAndUpdate(
+      { userId, balance: { $gte: amount }, 'holds.auctionId': { $ne: auctionId } },
+      {
+        $inc: { balance: -amount, held: amount },
+        $push: { holds: { auctionId, amount } },
+      },
+      { new: true, session }
+    );
+  }
+
+  async reduceHold(
+    userId: string,
+    auctionId: string,
+    amount: number,
+    refund: number,
+    session?: ClientSession
+  ): Promise<IUser | null> {
+    const user = await User.findOneAndUpdate(
+      {
+        userId,
+        holds: { $elemMatch: { auctionId, amount: { $gte: amount - HOLD_EPSILON } } },
+      },
+      { $inc: { balance: refund, held: -amount, 'holds.$.amount': -amount } },
+      { new: true, session }
+    );
+
+    const hold = user?.holds.find((h) => h.auctionId === auctionId);
+    if (hold && hold.amount <= HOLD_EPSILON) {
+      return User.findOneAndUpdate(
+        { userId },
+        { $pull: { holds: { auctionId } } },
+        { new: true, session }
+      );
+    }
+
+    return user;
+  }
+}
+
+export class MongoBidRepository implements BidRepository {
+  async create(data: NewBid, session?: ClientSession): Promise<IBid> {
+    const [bid] = await Bid.create([data], { session });
+    return bid;
+  }
+
+  async save(bid: IBid, session?: ClientSession): Promise<IBid> {
+    return bid.save({ session });
+  }
+
+  async findActive(auctionId: string, userId: string, session?: ClientSession): Promise<IBid | null> {
+    return Bid.findOne({ auctionId, userId, status: 'active' }).session(session ?? null);
+  }
+
+  async findActiveByAuction(auctionId: string, session?: ClientSession): Promise<IBid[]> {
+    return Bid.find({ auctionId, status: 'active' }).session(session ?? null);
+  }
+
+  async findByAuction(auctionId: string): Promise<IBid[]> {
+    return Bid.find({ auctionId });
+  }
+
+  async findByUser(auctionId: string, userId: string): Promise<IBid[]> {
+    return Bid.find({ auctionId, userId }).sort({ timestamp: 1 });
+  }
+
+  async getStandings(
+    auctionId: string,
+    roundNumber: number,
+    limit?: number,
+    session?: ClientSession
+  ): Promise<IBid[]> {
+    const query = Bid.find({ auctionId, roundNumber, status: { $ne: 'refunded' } })
+      .sort({ amount: -1, timestamp: 1 })
+      .session(session ?? null);
+
+    if (limit !== undefined) {
+      query.limit(limit);
+    }
+
+    return query.exec();
+  }
+
+  async getTopBids(
+    rounds: Array<{ auctionId: string; roundNumber: number }>
+  ): Promise<Map<string, number>> {
+    if (rounds.length === 0) {
+      return new Map();
+    }
+
+    const top = await Bid.aggregate<{ _id: string; amount: number }>([
+      { $match: { $or: rounds, status: { $ne: 'refunded' } } },
+      { $group: { _id: '$auctionId', amount: { $max: '$amount' } } },
+    ]);
+    return new Map(top.map((entry) => [entry._id, entry.amount]));
+  }
+
+  async sumActive(): Promise<Map<string, number>> {
+    const sums = await Bid.aggregate<{ _id: string; amount: number }>([
+      { $match: { status: 'active' } },
+      { $group: { _id: '$auctionId', amount: { $sum: '$amount' } } },
+    ]);
+    return new Map(sums.map((entry) => [entry._id, entry.amount]));
+  }
+
+  async setStatus(bidIds: string[], status: IBid['status'], session?: ClientSession): Promise<void> {
+    await Bid.updateMany({ _id: { $in: bidIds } }, { $set: { status } }, { session });
+  }
+
+  async moveActive(
+    auctionId: string,
+    fromRound: number,
+    toRound: number,
+    session?: ClientSession
+  ): Promise<number> {
+    const result = await Bid.updateMany(
+      { auctionId, roundNumber: fromRound, status: 'active' },
+      { $set: { roundNumber: toRound } },
+      { session }
+    );
+    return result.modifiedCount;
+  }
+}
+
+/**
+ * Фильтр MongoDB для условий выборки операций
+ */
+const ledgerFilter = (query: LedgerQuery): Record<string, unknown> => ({
+  ...(query.userId !== undefined && { userId: query.userId }),
+  ...(query.auctionId !== undefined && { auctionId: query.auctionId }),
+  ...(query.types && { type: { $in: query.types } }),
+  ...(query.statuses && { status: { $in: query.statuses } }),
+  ...((query.from || query.to) && {
+    createdAt: { ...(query.from && { $gte: query.from }), ...(query.to && { $lt: query.to }) },
+  }),
+});
+
+const sumTotals = async (match: Record<string, unknown>): Promise<LedgerTotalsRow[]> => {
+  const rows = await Transaction.aggregate<{
+    _id: Pick<LedgerTotalsRow, 'type' | 'status'>;
+    count: number;
+    amount: number;
+  }>([
+    { $match: match },
+    {
+      $group: {
+        _id: { type: '$type', status: '$status' },
+        count: { $sum: 1 },
+        amount: { $sum: '$amount' },
+      },
+    },
+  ]);
+  return rows.map(({ _id, count, amount }) => ({ ..._id, count, amount }));
+};
+
+export class MongoLedgerRepository implements LedgerRepository {
+  async record(entries: NewLedgerEntry[], session?: ClientSession): Promise<ITransaction[]> {
+    if (entries.length === 0) {
+      return [];
+    }
+    return Transaction.create(entries, { session, ordered: true });
+  }
+
+  async find(
+    query: LedgerQuery,
+    limit: number,
+    after?: { value: number; id: string }
+  ): Promise<ITransaction[]> {
+    const filter = ledgerFilter(query);
+    if (after) {
+      const createdAt = new Date(after.value);
+      filter.$or = [
+        { createdAt: { $lt: createdAt } },
+        { createdAt, _id: { $lt: new mongoose.Types.ObjectId(after.id) } },
+      ];
+    }
+    return Transaction.find(filter).sort({ createdAt: -1, _id: -1 }).limit(limit);
+  }
+
+  stream(query: LedgerQuery): AsyncIterable<ITransaction> {
+    return Transaction.find(ledgerFilter(query)).sort({ createdAt: 1, _id: 1 }).cursor();
+  }
+
+  async totals(query: LedgerQuery): Promise<LedgerTotalsRow[]> {
+    return sumTotals(ledgerFilter(query));
+  }
+
+  async totalsBefore(userId: string, createdAt: Date, id: string): Promise<LedgerTotalsRow[]> {
+    return sumTotals({
+      userId,
+      status: 'completed',
+      $or: [
+        { createdAt: { $lt: createdAt } },
+        { createdAt, _id: { $lt: new mongoose.Types.ObjectId(id) } },
+      ],
+    });
+  }
+
+  async sumByType(field: 'userId' | 'auctionId'): Promise<LedgerTypeSum[]> {
+    const rows = await Transaction.aggregate<{ _id: Omit<LedgerTypeSum, 'amount'>; amount: number }>([
+      { $match: { status: 'completed' } },
+      { $group: { _id: { key: `$${field}`, type: '$type' }, amount: { $sum: '$amount' } } },
+    ]);
+    return rows.map(({ _id, amount }) => ({ ..._id, amount }));
+  }
+
+  async turnover(): Promise<AccountTurnover[]> {
+    const [debits, credits] = await Promise.all(
+      ['$debitAccount', '$creditAccount'].map((account) =>
+        Transaction.aggregate<{ _id: string; amount: number }>([
+          { $match: { status: 'completed' } },
+          { $group: { _id: account, amount: { $sum: '$amount' } } },
+        ])
+      )
+    );
+
+    const accounts = new Map<string, AccountTurnover>();
+    const entryFor = (account: string): AccountTurnover => {
+      const entry = accounts.get(account) ?? { account, debit: 0, credit: 0 };
+      accounts.set(account, entry);
+      return entry;
+    };
+    for (const { _id, amount } of debits) {
+      entryFor(_id).debit += amount;
+    }
+    for (const { _id, amount } of credits) {
+      entryFor(_id).credit += amount;
+    }
+    return [...accounts.values()];
+  }
+
+  async findByAuction(auctionId: string): Promise<ITransaction[]> {
+    return Transaction.find({ auctionId }).sort({ createdAt: 1, _id: 1 });
+  }
+
+  async findByIdempotencyKey(
+    userId: string,
+    operation: IdempotentOperation,
+    idempotencyKey: string,
+    session?: ClientSession
+  ): Promise<ITransaction | null> {
+    return Transaction.findOne({ userId, operation, idempotencyKey }).session(session ?? null);
+  }
+
+  async countBids(auctionId: string, userId: string, session?: ClientSession): Promise<number> {
+    return Transaction.countDocuments({
+      userId,
+      auctionId,
+      type: { $in: ['bid', 'bid_increase'] },
+    }).session(session ?? null);
+  }
+}
+
+export class MongoProxyBidRepository implements ProxyBidRepository {
+  async findActive(auctionId: string, session?: ClientSession): Promise<IProxyBid[]> {
+    return ProxyBid.find({ auctionId, status: 'active' })
+      .sort({ createdAt: 1 })
+      .session(session ?? null);
+  }
+
+  async findLatest(auctionId: string, userId: string): Promise<IProxyBid | null> {
+    return ProxyBid.findOne({ auctionId, userId }).sort({ createdAt: -1 });
+  }
+
+  async upsertActive(
+    auctionId: string,
+    userId: string,
+    maxAmount: number,
+    session?: ClientSession
+  ): Promise<IProxyBid> {
+    const proxy = await ProxyBid.findOneAndUpdate(
+      { auctionId, userId, status: 'active' },
+      { $set: { maxAmount } },
+      { upsert: true, new: true, setDefaultsOnInsert: true, session }
+    );
+    return proxy!;
+  }
+
+  async close(
+    auctionId: string,
+    status: 'completed' | 'cancelled',
+    at: Date,
+    userIds?: string[],
+    session?: ClientSession
+  ): Promise<number> {
+    const result = await ProxyBid.updateMany(
+      { auctionId, status: 'active', ...(userIds && { userId: { $in: userIds } }) },
+      { $set: { status, [status === 'completed' ? 'completedAt' : 'cancelledAt']: at } },
+      { session }
+    );
+    return result.modifiedCount;
+  }
+}
+
+export class MongoAuctionHistoryRepository implements AuctionHistoryRepository {
+  async lastSequence(auctionId: string, session?: ClientSession): Promise<number> {
+    const last = await AuctionHistory.findOne({ auctionId })
+      .sort({ sequence: -1 })
+      .select('sequence')
+      .session(session ?? null);
+    return last?.sequence ?? 0;
+  }
+
+  async insert(entries: NewHistoryEntry[], session?: ClientSession): Promise<void> {
+    await AuctionHistory.insertMany(entries, { session });
+  }
+
+  async findByAuction(auctionId: string): Promise<IAuctionHistoryEntry[]> {
+    return AuctionHistory.find({ auctionId }).sort({ sequence: 1 });
+  }
+}
+
+export class MongoAuditLogRepository implements AuditLogRepository {
+  async create(entry: NewAuditEntry, session?: ClientSession): Promise<void> {
+    await AuditLog.create([entry], { session });
+  }
+
+  async find(query: AuditQuery, limit: number): Promise<IAuditLog[]> {
+    return AuditLog.find(query).sort({ createdAt: -1 }).limit(limit);
+  }
+}
+
+// Код ошибки уникального индекса
+const DUPLICATE_KEY_ERROR = 11000;
+
+export class MongoLockRepository implements LockRepository {
+  async acquire(name: string, owner: string, now: Date, expiresAt: Date): Promise<boolean> {
+    try {
+      await Lock.findOneAndUpdate(
+        { name, $or: [{ owner }, { expiresAt: { $lte: now } }] },
+        [
+          {
+            $set: {
+              // При смене владельца срок владения отсчитывается заново
+              acquiredAt: { $cond: [{ $eq: ['$owner', owner] }, '$acquiredAt', now] },
+              owner: { $literal: owner },
+              expiresAt,
+            },
+          },
+        ],
+        { upsert: true }
+      );
+      return true;
+    } catch (error: any) {
+      // Блокировку одновременно захватил другой экземпляр
+      if (error.code === DUPLICATE_KEY_ERROR) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async release(name: string, owner: string): Promise<void> {
+    await Lock.deleteOne({ name, owner });
+  }
+
+  async findHolder(name: string, now: Date): Promise<ILock | null> {
+    return Lock.findOne({ name, expiresAt: { $gt: now } });
+  }
+}
+
+export class MongoIdempotencyKeyRepository implements IdempotencyKeyRepository {
+  async create(data: NewIdempotencyKey): Promise<IIdempotencyKey> {
+    return IdempotencyKey.create({ ...data, status: 'processing' });
+  }
+
+  async reclaim(
+    id: IdempotencyKeyId,
+    requestHash: string,
+    staleBefore: Date,
+    now: Date
+  ): Promise<IIdempotencyKey | null> {
+    return IdempotencyKey.findOneAndUpdate(
+      { ...id, requestHash, status: 'processing', updatedAt: { $lt: staleBefore } },
+      { $set: { updatedAt: now } },
+      { new: true }
+    );
+  }
+
+  async find(id: IdempotencyKeyId): Promise<IIdempotencyKey | null> {
+    return IdempotencyKey.findOne(id);
+  }
+
+  async complete(id: IdempotencyKeyId, responseStatus: number, responseBody: unknown): Promise<void> {
+    await IdempotencyKey.updateOne(id, { $set: { status: 'completed', responseStatus, responseBody } });
+  }
+
+  async remove(id: IdempotencyKeyId): Promise<void> {
+    await IdempotencyKey.deleteOne(id);
+  }
+}
+
+export const createMongoRepositories = (): Repositories => ({
+  backend: 'mongo',
+  auctions: new MongoAuctionRepository(),
+  users: new MongoUserRepository(),
+  bids: new MongoBidRepository(),
+  ledger: new MongoLedgerRepository(),
+  proxyBids: new MongoProxyBidRepository(),
+  history: new MongoAuctionHistoryRepository(),
+  audit: new MongoAuditLogRepository(),
+  locks: new MongoLockRepository(),
+  idempotencyKeys: new MongoIdempotencyKeyRepository(),
+  transaction: (fn) => withTransaction(fn),
+});
@@ -0,0 +1,25 @@
+import { createMemoryRepositories } from './MemoryRepositories';
+import { createMongoRepositories } from './MongoRepositories';
+import { Repositories, STORAGE_BACKENDS, StorageBackend } from './types';
+
+export * from './types';
+
+/**
+ * Создать хранилища согласно STORAGE_BACKEND (mongo | memory)
+ */
+export const createRepositories = (
+  backend: string = process.env.STORAGE_BACKEND || 'mongo'
+): Repositories => {
+  switch (backend as StorageBackend) {
+    case 'mongo':
+      return createMongoRepositories();
+    case 'memory':
+      return createMemoryRepositories();
+    default:
+      throw new Error(
+        `Unknown storage backend: ${backend} (expected one of: ${STORAGE_BACKENDS.join(', ')})`
+      );
+  }
+};
+
+export default createRepositories();
@@ -0,0 +1,613 @@
+/**
+ * Общий набор проверок хранилищ: одни и те же сценарии выполняются против
+ * каждого бэкенда, поэтому реализация в памяти ведёт себя так же, как MongoDB.
+ *
+ * Для mongo нужен replica set (транзакции): набор выполняется, только если
+ * задан MONGODB_URI. Данные каждого запуска помечены случайным префиксом,
+ * существующие записи не удаляются и не меняются.
+ */
+
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import {
+  AuctionListQuery,
+  auctionSortValue,
+  createRepositories,
+  HOLD_EPSILON,
+  Repositories,
+  STORAGE_BACKENDS,
+} from '.';
+import { AuctionService } from '../services/AuctionService';
+import { LedgerService } from '../services/LedgerService';
+import { SettlementService } from '../services/SettlementService';
+import { UserService } from '../services/UserService';
+import { ManualClock } from '../utils/clock';
+import { RequestAlreadyAppliedError } from '../utils/errors';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+const expectDuplicate = (operation: Promise<unknown>) =>
+  expect(operation).rejects.toMatchObject({ code: DUPLICATE_KEY_ERROR });
+
+const auctionData = (title: string) => ({
+  title,
+  totalItems: 2,
+  itemsPerRound: 1,
+  roundDuration: 60,
+  minBid: 10,
+  antiSnipingWindow: 10,
+  status: 'draft',
+  createdBy: 'contract',
+  currentRound: 1,
+  rounds: [],
+});
+
+// Разные createdAt, чтобы порядок списков был однозначным
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+const backends = STORAGE_BACKENDS.map((backend) => ({
+  backend,
+  enabled: backend === 'memory' || Boolean(process.env.MONGODB_URI),
+}));
+
+describe.each(backends)('$backend repositories', ({ backend, enabled }) => {
+  const test = enabled ? it : it.skip;
+  const prefix = `contract-${crypto.randomBytes(4).toString('hex')}`;
+  let repositories: Repositories;
+
+  beforeAll(async () => {
+    if (!enabled) {
+      return;
+    }
+    if (backend === 'mongo') {
+      await mongoose.connect(process.env.MONGODB_URI!);
+    }
+    repositories = createRepositories(backend);
+  });
+
+  afterAll(async () => {
+    if (enabled && backend === 'mongo') {
+      await mongoose.disconnect();
+    }
+  });
+
+  test('users: unique userId, atomic balance and holds', async () => {
+    const { users } = repositories;
+    const userId = `${prefix}-user`;
+    const created = await users.create({ userId, balance: 100 });
+    expect(created.role).toBe('bidder');
+    expect(created.held).toBe(0);
+    await expectDuplicate(users.create({ userId, balance: 1 }));
+
+    expect(await users.incrementBalance(userId, -101)).toBeNull();
+    expect((await users.incrementBalance(userId, -40))?.balance).toBe(60);
+    expect(await users.incrementBalance(`${prefix}-missing`, 10)).toBeNull();
+
+    expect(await users.addHold(userId, 'a1', 70)).toBeNull();
+    await users.addHold(userId, 'a1', 20);
+    const held = await users.addHold(userId, 'a1', 10);
+    expect({
+      balance: held?.balance,
+      held: held?.held,
+      holds: held?.holds.map((h) => [h.auctionId, h.amount]),
+    }).toEqual({ balance: 30, held: 30, holds: [['a1', 30]] });
+
+    expect(await users.reduceHold(userId, 'a1', 31, 31)).toBeNull();
+    await users.reduceHold(userId, 'a1', 10, 10);
+    const released = await users.reduceHold(userId, 'a1', 20 - HOLD_EPSILON / 2, 0);
+    expect(released?.holds).toHaveLength(0);
+    expect(released?.balance).toBe(40);
+    expect(await users.exists(userId)).toBe(true);
+    expect(await users.findRole(userId)).toBe('bidder');
+    expect(await users.findRole(`${prefix}-missing`)).toBeNull();
+    const balance = (await users.findBalances()).find((user) => user.userId === userId);
+    expect([balance?.balance, balance?.holds.length]).toEqual([40, 0]);
+  });
+
+  test('users: save writes only changed fields', async () => {
+    const { users } = repositories;
+    const userId = `${prefix}-renamed`;
+    await users.create({ userId, username: 'old', balance: 100 });
+
+    const stale = (await users.findByUserId(userId))!;
+    await users.incrementBalance(userId, 50);
+    stale.username = 'new';
+    await users.save(stale);
+
+    const user = (await users.findByUserId(userId))!;
+    expect(user.username).toBe('new');
+    expect(user.balance).toBe(150);
+  });
+
+  test('auctions: defaults, version check and listing', async () => {
+    const { auctions } = repositories;
+    const first = await auctions.create(auctionData(`${prefix} first`));
+    await tick();
+    const second = await auctions.create({ ...auctionData(`${prefix} second`), status: 'active' });
+    expect(mongoose.Types.ObjectId.isValid(first._id.toString())).toBe(true);
+    expect(first.pricingRule).toBe('pay_as_bid');
+
+    const copy = (await auctions.findById(first._id.toString()))!;
+    copy.title = `${prefix} renamed`;
+    await auctions.save(copy);
+    first.title = `${prefix} stale`;
+    await expect(auctions.save(first)).rejects.toBeInstanceOf(mongoose.Error.VersionError);
+    expect((await auctions.findById(first._id.toString()))?.title).toBe(`${prefix} renamed`);
+
+    // Сохранённую копию можно сохранять повторно
+    copy.description = 'updated twice';
+    await auctions.save(copy);
+
+    const ids = [first._id.toString(), second._id.toString()];
+    const ours = (list: { _id: unknown }[]) =>
+      list.map((auction) => String(auction._id)).filter((id) => ids.includes(id));
+    expect(ours(await auctions.find())).toEqual([...ids].reverse());
+    expect(ours(await auctions.find({ status: 'active' }))).toEqual([ids[1]]);
+    expect(await auctions.exists(ids[0])).toBe(true);
+    expect(await auctions.exists(new mongoose.Types.ObjectId().toString())).toBe(false);
+
+    // Планировщику нужны идущие аукционы и черновики с запланированным стартом
+    const scheduled = await auctions.create({
+      ...auctionData(`${prefix} scheduled`),
+      scheduledStartAt: new Date(Date.now() + 60_000),
+    });
+    expect(await auctions.findSchedule(ids[1])).toEqual({
+      _id: ids[1],
+      status: 'active',
+      currentRound: 1,
+      rounds: [],
+    });
+    expect(await auctions.findSchedule(new mongoose.Types.ObjectId().toString())).toBeNull();
+    const tracked: string[] = [];
+    for await (const schedule of auctions.streamScheduled()) {
+      tracked.push(schedule._id);
+    }
+    expect(tracked.filter((id) => [...ids, scheduled._id.toString()].includes(id)).sort()).toEqual(
+      [ids[1], scheduled._id.toString()].sort()
+    );
+  });
+
+  test('auctions: catalog filters, sorting and cursor', async () => {
+    const { auctions, bids } = repositories;
+    const createdBy = `${prefix}-creator`;
+    const keyword = `kw${prefix.replace(/[^a-z0-9]/gi, '')}`;
+    const now = Date.now();
+    const round = (endsInMs: number, totalBids: number) => ({
+      roundNumber: 1,
+      items: 1,
+      startTime: new Date(now - 60_000),
+      endTime: new Date(now + endsInMs),
+      status: 'active',
+      totalBids,
+      winners: [],
+    });
+
+    const draft = await auctions.create({ ...auctionData(`${prefix} draft`), createdBy, minBid: 5 });
+    await tick();
+    const soon = await auctions.create({
+      ...auctionData(`${prefix} soon`),
+      description: `rare ${keyword}`,
+      createdBy,
+      status: 'active',
+      totalItems: 5,
+      rounds: [round(30_000, 3)],
+    });
+    await tick();
+    const later = await auctions.create({
+      ...auctionData(`${prefix} later`),
+      createdBy,
+      status: 'active',
+      rounds: [round(90_000, 1)],
+    });
+    const [draftId, soonId, laterId] = [draft, soon, later].map((auction) => auction._id.toString());
+    const list = async (query: Partial<AuctionListQuery>) =>
+      (await auctions.list({ createdBy, sort: 'newest', limit: 10, ...query })).map((row) => row._id);
+
+    expect(await list({})).toEqual([laterId, soonId, draftId]);
+    expect(await list({ sort: 'ending' })).toEqual([soonId, laterId, draftId]);
+    // Популярность — по документам ставок: перенос в следующий раунд её не меняет
+    const bidOn = (auctionId: string, userId: string, amount: number) =>
+      bids.create({
+        auctionId,
+        userId,
+        amount,
+        timestamp: new Date(now),
+        roundNumber: 1,
+        placedInRound: 1,
+        status: 'active',
+      });
+    await bidOn(laterId, 'alice', 40);
+    await bidOn(laterId, 'bob', 30);
+    await bidOn(soonId, 'alice', 40);
+    await bids.moveActive(laterId, 1, 2);
+    expect(await list({ sort: 'popular' })).toEqual([laterId, soonId, draftId]);
+    expect((await auctions.list({ createdBy, sort: 'newest', limit: 3 })).map((row) => row.popularity)).toEqual(
+      [2, 1, 0]
+    );
+    expect(await list({ statuses: ['draft'] })).toEqual([draftId]);
+    expect(await list({ minItems: 3 })).toEqual([soonId]);
+    expect(await list({ minBidTo: 5 })).toEqual([draftId]);
+    expect(await list({ endingBefore: new Date(now + 60_000) })).toEqual([soonId]);
+    expect(await list({ search: `absent ${keyword.toUpperCase()}` })).toEqual([soonId]);
+
+    // Страница после курсора продолжает порядок с той же записи
+    const [first] = await auctions.list({ createdBy, sort: 'ending', limit: 1 });
+    expect(first.round?.totalBids).toBe(3);
+    expect(first.endsAt?.getTime()).toBe(now + 30_000);
+    expect(
+      await list({ sort: 'ending', after: { value: auctionSortValue(first, 'ending'), id: first._id } })
+    ).toEqual([laterId, draftId]);
+    const [, , last] = await auctions.list({ createdBy, sort: 'ending', limit: 3 });
+    expect(last.endsAt).toBeNull();
+    expect(last.round).toBeNull();
+
+    const top = await bids.getTopBids([
+      { auctionId: soonId, roundNumber: 1 },
+      { auctionId: laterId, roundNumber: 1 },
+    ]);
+    expect([...top]).toEqual([[soonId, 40]]);
+  });
+
+  test('bids: one active bid per user, standings and carry-over', async () => {
+    const { bids } = repositories;
+    const auctionId = `${prefix}-auction`;
+    const at = (ms: number) => new Date(1_000_000 + ms);
+    const bid = (userId: string, amount: number, ms: number) =>
+      bids.create({
+        auctionId,
+        userId,
+        amount,
+        timestamp: at(ms),
+        roundNumber: 1,
+        placedInRound: 1,
+        status: 'active',
+      });
+
+    const alice = await bid('alice', 50, 0);
+    await bid('bob', 70, 1);
+    const carol = await bid('carol', 50, 2);
+    await expectDuplicate(bid('alice', 60, 3));
+
+    alice.amount = 80;
+    alice.timestamp = at(4);
+    await bids.save(alice);
+    expect((await bids.findActive(auctionId, 'alice'))?.amount).toBe(80);
+
+    await bids.setStatus([carol._id.toString()], 'refunded');
+    expect((await bids.getStandings(auctionId, 1)).map((b) => b.userId)).toEqual(['alice', 'bob']);
+    expect((await bids.getStandings(auctionId, 1, 1)).map((b) => b.userId)).toEqual(['alice']);
+
+    await bids.setStatus([alice._id.toString()], 'won');
+    expect(await bids.moveActive(auctionId, 1, 2)).toBe(1);
+    expect((await bids.getStandings(auctionId, 2)).map((b) => b.userId)).toEqual(['bob']);
+    expect((await bids.findActiveByAuction(auctionId)).map((b) => b.userId)).toEqual(['bob']);
+    expect(await bids.findByAuction(auctionId)).toHaveLength(3);
+    expect(await bids.findByUser(auctionId, 'alice')).toHaveLength(1);
+
+    // После выигрыша пользователь может сделать новую живую ставку
+    await bid('alice', 20, 5);
+    expect((await bids.sumActive()).get(auctionId)).toBe(90);
+  });
+
+  test('ledger: accounts by type, bid count and history', async () => {
+    const { ledger } = repositories;
+    const userId = `${prefix}-payer`;
+    const [deposit] = await ledger.record([
+      { userId, auctionId: 'deposit', type: 'deposit', amount: 100, status: 'completed' },
+    ]);
+    expect(deposit.debitAccount).toBe(`user:${userId}`);
+    expect(deposit.creditAccount).toBe('system:external');
+
+    await ledger.record([
+      { userId, auctionId: 'a1', type: 'bid', amount: 10, status: 'completed' },
+      { userId, auctionId: 'a1', type: 'bid_increase', amount: 5, status: 'completed' },
+      { userId, auctionId: 'a1', type: 'refund', amount: 15, status: 'completed' },
+    ]);
+    expect(await ledger.record([])).toEqual([]);
+
+    // Операция с ключом запроса записывается один раз
+    const keyed = {
+      userId: `${prefix}-keyed`,
+      auctionId: 'deposit',
+      type: 'deposit' as const,
+      amount: 1,
+      status: 'completed' as const,
+      idempotencyKey: `${prefix}-key`,
+    };
+    await ledger.record([keyed]);
+    await expectDuplicate(ledger.record([keyed]));
+    expect((await ledger.findByIdempotencyKey(keyed.userId, 'deposit', keyed.idempotencyKey))?.amount).toBe(1);
+    expect(await ledger.findByIdempotencyKey(userId, 'deposit', keyed.idempotencyKey)).toBeNull();
+    // Ключ уникален в пределах операции: ставка и её повышение — одна операция
+    await ledger.record([{ ...keyed, type: 'bid' }]);
+    await expectDuplicate(ledger.record([{ ...keyed, type: 'bid_increase' }]));
+    expect((await ledger.findByIdempotencyKey(keyed.userId, 'bid', keyed.idempotencyKey))?.type).toBe('bid');
+
+    expect(await ledger.countBids('a1', userId)).toBe(2);
+    const history = await ledger.find({ userId }, 10);
+    expect(history.map((t) => t.type)).toEqual(['refund', 'bid_increase', 'bid', 'deposit']);
+
+    // Страница после курсора продолжает с той же операции, даже при равном createdAt
+    const [, second] = await ledger.find({ userId }, 2);
+    const rest = await ledger.find({ userId }, 10, {
+      value: second.createdAt.getTime(),
+      id: second._id.toString(),
+    });
+    expect(rest.map((t) => t.type)).toEqual(['bid', 'deposit']);
+    expect(
+      (await ledger.find({ userId, auctionId: 'a1', types: ['bid', 'refund'] }, 10)).map((t) => t.type)
+    ).toEqual(['refund', 'bid']);
+    expect(await ledger.find({ userId, from: new Date(Date.now() + 60_000) }, 10)).toHaveLength(0);
+
+    const totals = await ledger.totals({ userId, auctionId: 'a1' });
+    expect(totals.map((row) => [row.type, row.count, row.amount]).sort()).toEqual([
+      ['bid', 1, 10],
+      ['bid_increase', 1, 5],
+      ['refund', 1, 15],
+    ]);
+    const before = await ledger.totalsBefore(userId, second.createdAt, second._id.toString());
+    expect(before.map((row) => row.type).sort()).toEqual(['bid', 'deposit']);
+
+    const streamed: string[] = [];
+    for await (const transaction of ledger.stream({ userId })) {
+      streamed.push(transaction.type);
+    }
+    expect(streamed).toEqual(['deposit', 'bid', 'bid_increase', 'refund']);
+    const streamedAuction: string[] = [];
+    for await (const transaction of ledger.stream({ auctionId: 'a1', types: ['bid', 'refund'] })) {
+      streamedAuction.push(transaction.type);
+    }
+    expect(streamedAuction).toEqual(['bid', 'refund']);
+    expect((await ledger.findByAuction('a1')).map((t) => t.type)).toEqual(['bid', 'bid_increase', 'refund']);
+
+    const sums = (await ledger.sumByType('userId')).filter((row) => row.key === userId);
+    expect(sums.map((row) => [row.type, row.amount]).sort()).toEqual([
+      ['bid', 10],
+      ['bid_increase', 5],
+      ['deposit', 100],
+      ['refund', 15],
+    ]);
+    const account = (await ledger.turnover()).find((entry) => entry.account === `user:${userId}`);
+    expect([account?.debit, account?.credit]).toEqual([115, 15]);
+  });
+
+  test('proxy bids: upsert, close and latest', async () => {
+    const { proxyBids } = repositories;
+    const auctionId = `${prefix}-proxy`;
+    const first = await proxyBids.upsertActive(auctionId, 'alice', 50);
+    const raised = await proxyBids.upsertActive(auctionId, 'alice', 80);
+    expect(raised._id.toString()).toBe(first._id.toString());
+    expect(raised.maxAmount).toBe(80);
+    await proxyBids.upsertActive(auctionId, 'bob', 60);
+
+    expect((await proxyBids.findActive(auctionId)).map((p) => p.userId)).toEqual(['alice', 'bob']);
+    const at = new Date();
+    expect(await proxyBids.close(auctionId, 'cancelled', at, ['alice'])).toBe(1);
+    expect(await proxyBids.close(auctionId, 'cancelled', at, ['alice'])).toBe(0);
+
+    const latest = (await proxyBids.findLatest(auctionId, 'alice'))!;
+    expect(latest.status).toBe('cancelled');
+    expect(latest.cancelledAt?.getTime()).toBe(at.getTime());
+    expect(await proxyBids.close(auctionId, 'completed', at)).toBe(1);
+    expect(await proxyBids.findActive(auctionId)).toHaveLength(0);
+  });
+
+  test('history and audit: ordered, append-only entries', async () => {
+    const { history, audit } = repositories;
+    const auctionId = `${prefix}-history`;
+    expect(await history.lastSequence(auctionId)).toBe(0);
+    await history.insert([
+      { auctionId, sequence: 1, type: 'auction_created', payload: {} },
+      { auctionId, sequence: 2, type: 'auction_started', payload: { startedAt: 1 } },
+    ]);
+    expect(await history.lastSequence(auctionId)).toBe(2);
+    await expectDuplicate(history.insert([{ auctionId, sequence: 2, type: 'x', payload: {} }]));
+    expect(
+      (await history.findByAuction(auctionId)).map((entry) => [entry.sequence, entry.payload])
+    ).toEqual([[1, {}], [2, { startedAt: 1 }]]);
+
+    const actorId = `${prefix}-admin`;
+    await audit.create({ actorId, actorRole: 'admin', action: 'a', targetType: 'user', targetId: 'u' });
+    await tick();
+    await audit.create({ actorId, actorRole: 'admin', action: 'b', targetType: 'user', targetId: 'u' });
+    expect((await audit.find({ actorId }, 10)).map((entry) => entry.action)).toEqual(['b', 'a']);
+    expect(await audit.find({ actorId, action: 'a' }, 10)).toHaveLength(1);
+  });
+
+  test('locks: lease held by one owner until it expires', async () => {
+    const { locks } = repositories;
+    const name = `${prefix}-lock`;
+    const start = Date.now();
+    const at = (seconds: number) => new Date(start + seconds * 1000);
+
+    expect(await locks.acquire(name, 'a', at(0), at(10))).toBe(true);
+    expect(await locks.acquire(name, 'b', at(1), at(11))).toBe(false);
+    expect(await locks.acquire(name, 'a', at(2), at(12))).toBe(true);
+    const held = await locks.findHolder(name, at(3));
+    expect([held?.owner, held?.expiresAt]).toEqual(['a', at(12)]);
+
+    // Просроченную аренду перехватывает другой владелец
+    expect(await locks.findHolder(name, at(13))).toBeNull();
+    expect(await locks.acquire(name, 'b', at(13), at(23))).toBe(true);
+    expect((await locks.findHolder(name, at(14)))?.acquiredAt).toEqual(at(13));
+
+    await locks.release(name, 'a');
+    expect((await locks.findHolder(name, at(14)))?.owner).toBe('b');
+    await locks.release(name, 'b');
+    expect(await locks.findHolder(name, at(14))).toBeNull();
+  });
+
+  test('idempotency keys: claim, reclaim, complete and release', async () => {
+    const { idempotencyKeys } = repositories;
+    const id = { userId: `${prefix}-keys`, scope: 'POST /api/test', key: 'k1' };
+    const expiresAt = new Date(Date.now() + 60_000);
+
+    await idempotencyKeys.create({ ...id, requestHash: 'h1', expiresAt });
+    await expectDuplicate(idempotencyKeys.create({ ...id, requestHash: 'h1', expiresAt }));
+    expect(await idempotencyKeys.find({ ...id, scope: 'POST /api/other' })).toBeNull();
+
+    const staleBefore = new Date(Date.now() + 1000);
+    expect(await idempotencyKeys.reclaim(id, 'h2', staleBefore, new Date())).toBeNull();
+    expect(await idempotencyKeys.reclaim(id, 'h1', new Date(0), new Date())).toBeNull();
+    expect((await idempotencyKeys.reclaim(id, 'h1', staleBefore, new Date()))?.status).toBe('processing');
+
+    await idempotencyKeys.complete(id, 201, { ok: true });
+    const completed = await idempotencyKeys.find(id);
+    expect([completed?.status, completed?.responseStatus, completed?.responseBody]).toEqual([
+      'completed',
+      201,
+      { ok: true },
+    ]);
+    expect(await idempotencyKeys.reclaim(id, 'h1', staleBefore, new Date())).toBeNull();
+
+    await idempotencyKeys.remove(id);
+    expect(await idempotencyKeys.find(id)).toBeNull();
+  });
+
+  test('transaction: all or nothing', async () => {
+    const userId = `${prefix}-tx`;
+    await repositories.users.create({ userId, balance: 100 });
+
+    await expect(
+      repositories.transaction(async (session) => {
+        await repositories.users.incrementBalance(userId, -30, session);
+        await repositories.ledger.record(
+          [{ userId, auctionId: 'a1', type: 'bid', amount: 30, status: 'completed' }],
+          session
+        );
+        throw new Error('rollback');
+      })
+    ).rejects.toThrow('rollback');
+
+    expect((await repositories.users.findByUserId(userId))?.balance).toBe(100);
+    expect(await repositories.ledger.countBids('a1', userId)).toBe(0);
+    expect(
+      await repositories.transaction(async (session) => {
+        await repositories.users.incrementBalance(userId, -30, session);
+        return 'done';
+      })
+    ).toBe('done');
+    expect((await repositories.users.findByUserId(userId))?.balance).toBe(70);
+  });
+
+  test('services: auction played end to end', async () => {
+    const clock = new ManualClock(new Date());
+    const users = new UserService(repositories);
+    const auctions = new AuctionService(clock, repositories);
+    const organizer = { userId: `${prefix}-organizer`, role: 'organizer' as const };
+    const alice = `${prefix}-alice`;
+    const bob = `${prefix}-bob`;
+    await users.getOrCreateUser(alice);
+    await users.getOrCreateUser(bob);
+
+    const auction = await auctions.createAuction(
+      { title: `${prefix} services`, totalItems: 1, itemsPerRound: 1, roundDuration: 60, minBid: 10 },
+      organizer
+    );
+    const auctionId = auction._id.toString();
+    await auctions.startAuction(auctionId, organizer);
+
+    await auctions.placeBid(auctionId, alice, 100);
+    clock.advance(1000);
+    await auctions.placeBid(auctionId, bob, 150);
+    clock.advance(1000);
+    await auctions.placeBid(auctionId, alice, 200);
+    await expect(auctions.completeRound(auctionId)).rejects.toThrow('Round has not ended yet');
+
+    const { items: [listed] } = await auctions.listAuctions({ createdBy: organizer.userId, sort: 'ending' });
+    expect([listed.topBid, listed.timeLeftSeconds, listed.popularity]).toEqual([200, 58, 2]);
+    const firstPage = await auctions.listAuctions({ createdBy: organizer.userId, limit: 1 });
+    expect(firstPage.nextCursor).toBeNull();
+    await expect(
+      auctions.listAuctions({ sort: 'popular', cursor: 'not-a-cursor' })
+    ).rejects.toThrow('Invalid cursor');
+
+    clock.advance(60 * 1000);
+    const completed = await auctions.completeRound(auctionId);
+    expect(completed.status).toBe('completed');
+    expect(completed.rounds[0].winners.map((w) => [w.userId, w.price])).toEqual([[alice, 200]]);
+
+    const [aliceBalance, bobBalance] = await Promise.all([users.getBalance(alice), users.getBalance(bob)]);
+    expect([aliceBalance.available, aliceBalance.held]).toEqual([800, 0]);
+    expect([bobBalance.available, bobBalance.held]).toEqual([1000, 0]);
+    expect(await auctions.getUserBids(auctionId, alice)).toHaveLength(1);
+
+    // alice: пополнение 1000, ставка 100, повышение до 200, выигрыш
+    const history = await users.getTransactionHistory(alice, { limit: 3 });
+    expect(history.items.map((row) => [row.type, row.balanceAfter])).toEqual([
+      ['win', 800],
+      ['bid_increase', 800],
+      ['bid', 900],
+    ]);
+    expect([history.totals.count, history.totals.netChange]).toEqual([4, 800]);
+    const rest = await users.getTransactionHistory(alice, { limit: 3, cursor: history.nextCursor! });
+    expect(rest.items.map((row) => [row.type, row.balanceAfter])).toEqual([['deposit', 1000]]);
+    expect(rest.nextCursor).toBeNull();
+
+    // Повтор запроса с тем же ключом второй раз не применяется
+    await users.deposit(bob, 10, `${prefix}-deposit`);
+    await expect(users.deposit(bob, 10, `${prefix}-deposit`)).rejects.toBeInstanceOf(
+      RequestAlreadyAppliedError
+    );
+    expect((await users.getBalance(bob)).available).toBe(1010);
+
+    const raises = await users.getTransactionHistory(alice, { types: ['bid_increase'] });
+    expect(raises.items.map((row) => row.balanceAfter)).toEqual([800]);
+
+    // Итоги до первой операции берутся один раз на пользователя
+    const totalsBefore = jest.spyOn(repositories.ledger, 'totalsBefore');
+    const exported: Array<[string, string, number]> = [];
+    for await (const row of users.exportTransactions({ auctionId }, { types: ['bid', 'bid_increase', 'refund'] })) {
+      exported.push([row.userId, row.type, row.balanceAfter]);
+    }
+    expect(exported).toEqual([
+      [alice, 'bid', 900],
+      [bob, 'bid', 850],
+      [alice, 'bid_increase', 800],
+      [bob, 'refund', 1000],
+    ]);
+    expect(totalsBefore).toHaveBeenCalledTimes(2);
+    totalsBefore.mockClear();
+    const bobDeposits: number[] = [];
+    for await (const row of users.exportTransactions({ userId: bob }, { types: ['deposit'] })) {
+      bobDeposits.push(row.balanceAfter);
+    }
+    expect(bobDeposits).toEqual([1000, 1010]);
+    expect(totalsBefore).toHaveBeenCalledTimes(1);
+    totalsBefore.mockRestore();
+    const bobRows: Array<[string, number]> = [];
+    for await (const row of users.exportTransactions({ userId: bob })) {
+      bobRows.push([row.type, row.balanceAfter]);
+    }
+    expect(bobRows).toEqual([
+      ['deposit', 1000],
+      ['bid', 850],
+      ['refund', 1000],
+      ['deposit', 1010],
+    ]);
+
+    const settlement = await new SettlementService(clock, repositories).getSettlement(auctionId);
+    expect(settlement.totals).toEqual({
+      revenue: 200,
+      uniqueBidders: 2,
+      itemsSold: 1,
+      totalItems: 1,
+      unsoldItems: 0,
+      refunds: { count: 1, amount: 150 },
+    });
+    expect(settlement.rounds.map((round) => [round.threshold, round.carriedOver, round.refunds.count])).toEqual([
+      [200, 0, 1],
+    ]);
+    expect(
+      settlement.users.map((user) => [user.userId, user.itemsWon, user.paid, user.refunded, user.held])
+    ).toEqual([
+      [alice, 1, 200, 0, 0],
+      [bob, 0, 0, 150, 0],
+    ]);
+
+    // В хранилище есть и записи других проверок, поэтому смотрим только на этот аукцион
+    const report = await new LedgerService(clock, repositories).reconcile();
+    expect(report.users.filter((drift) => [alice, bob].includes(drift.userId))).toEqual([]);
+    expect(report.auctions.filter((drift) => drift.auctionId === auctionId)).toEqual([]);
+  });
+});
@@ -0,0 +1,527 @@
+import { ClientSession } from 'mongoose';
+import { IAuction } from '../models/Auction';
+import { IAuctionHistoryEntry } from '../models/AuctionHistory';
+import { IAuditLog } from '../models/AuditLog';
+import { IBid } from '../models/Bid';
+import { IIdempotencyKey } from '../models/IdempotencyKey';
+import { ILock } from '../models/Lock';
+import { IProxyBid } from '../models/ProxyBid';
+import { IdempotentOperation, ITransaction, TransactionType } from '../models/Transaction';
+import { IUser } from '../models/User';
+import { PricingRule } from '../utils/pricing';
+
+/**
+ * Хранилище данных: mongo — MongoDB, memory — память процесса
+ * (без базы, для тестов)
+ */
+export type StorageBackend = 'mongo' | 'memory';
+
+export const STORAGE_BACKENDS: StorageBackend[] = ['mongo', 'memory'];
+
+// Погрешность сложения дробных сумм, ниже которой блокировка считается снятой
+export const HOLD_EPSILON = 1e-9;
+
+export type AuctionStatus = IAuction['status'];
+
+export interface AuctionQuery {
+  status?: AuctionStatus;
+  scheduledAfter?: Date; // Только с запланированным стартом позже этого момента
+  sort?: 'newest' | 'scheduled'; // По убыванию createdAt или по возрастанию scheduledStartAt
+  limit?: number;
+}
+
+/**
+ * Порядок каталога аукционов:
+ * - newest — сначала новые (createdAt)
+ * - ending — сначала те, у которых раньше закончится текущий раунд;
+ *   аукционы без идущего раунда в конце
+ * - popular — сначала с наибольшим числом ставок (перенесённая ставка считается один раз)
+ */
+export type AuctionSort = 'newest' | 'ending' | 'popular';
+
+export const AUCTION_SORTS: AuctionSort[] = ['newest', 'ending', 'popular'];
+
+/**
+ * Условия каталога аукционов. Диапазоны включают границы
+ */
+export interface AuctionListQuery {
+  statuses?: AuctionStatus[];
+  createdBy?: string;
+  minItems?: number;
+  maxItems?: number;
+  minBidFrom?: number;
+  minBidTo?: number;
+  endingBefore?: Date; // Только идущие раунды, которые закончатся не позже
+  search?: string; // Слова из названия или описания (любое из них)
+  sort: AuctionSort;
+  after?: { value: number; id: string }; // Ключ сортировки последней записи прошлой страницы
+  limit: number;
+}
+
+/**
+ * Строка каталога: аукцион без раундов, плана и настроек
+ */
+export interface AuctionListRow {
+  _id: string;
+  title: string;
+  description?: string;
+  status: AuctionStatus;
+  createdBy?: string;
+  totalItems: number;
+  itemsSold: number;
+  minBid: number;
+  pricingRule: PricingRule;
+  currentRound: number;
+  round: {
+    roundNumber: number;
+    status: IAuction['rounds'][number]['status'];
+    items?: number;
+    reservePrice?: number;
+    startTime: Date;
+    endTime: Date;
+    totalBids: number;
+  } | null;
+  endsAt: Date | null; // Конец идущего раунда
+  popularity: number; // Ставок в аукционе (перенесённая ставка считается один раз)
+  scheduledStartAt?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  cancelledAt?: Date;
+  createdAt: Date;
+}
+
+// Ключ сортировки ending для аукционов без идущего раунда: они идут последними
+export const NO_END_TIME = 8.64e15;
+
+/**
+ * Значение ключа сортировки строки каталога
+ */
+export const auctionSortValue = (row: AuctionListRow, sort: AuctionSort): number => {
+  switch (sort) {
+    case 'newest':
+      return row.createdAt.getTime();
+    case 'ending':
+      return row.endsAt?.getTime() ?? NO_END_TIME;
+    case 'popular':
+      return row.popularity;
+  }
+};
+
+/**
+ * Поля аукциона, по которым планировщик раундов определяет срок следующего действия
+ */
+export interface AuctionSchedule {
+  _id: string;
+  status: AuctionStatus;
+  scheduledStartAt?: Date;
+  currentRound: number;
+  rounds: Array<Pick<IAuction['rounds'][number], 'status' | 'startTime' | 'endTime'>>;
+}
+
+export interface AuctionRepository {
+  /**
+   * Создать аукцион. Значения по умолчанию и проверки — как у схемы Auction
+   */
+  create(data: Record<string, unknown>, session?: ClientSession): Promise<IAuction>;
+  findById(auctionId: string, session?: ClientSession): Promise<IAuction | null>;
+  exists(auctionId: string): Promise<boolean>;
+  find(query?: AuctionQuery): Promise<IAuction[]>;
+  /**
+   * Страница каталога: не больше limit строк после курсора after
+   */
+  list(query: AuctionListQuery): Promise<AuctionListRow[]>;
+  /**
+   * Сроки аукциона для планировщика, без загрузки раундов целиком
+   */
+  findSchedule(auctionId: string): Promise<AuctionSchedule | null>;
+  /**
+   * Сроки идущих аукционов и черновиков с запланированным стартом.
+   * Аукционы читаются порциями, а не загружаются целиком
+   */
+  streamScheduled(): AsyncIterable<AuctionSchedule>;
+  /**
+   * Сохранить изменения аукциона с проверкой версии: если аукцион
+   * изменили после чтения, выбрасывается VersionError
+   */
+  save(auction: IAuction, session?: ClientSession): Promise<IAuction>;
+}
+
+export interface NewUser {
+  userId: string;
+  username?: string;
+  balance: number;
+}
+
+/**
+ * Деньги пользователя: доступный баланс и блокировки
+ */
+export type UserBalance = Pick<IUser, 'userId' | 'balance' | 'held' | 'holds'>;
+
+export interface UserRepository {
+  findByUserId(userId: string, session?: ClientSession): Promise<IUser | null>;
+  /**
+   * Роль пользователя; null — пользователя нет
+   */
+  findRole(userId: string): Promise<IUser['role'] | null>;
+  /**
+   * Балансы и блокировки всех пользователей
+   */
+  findBalances(): Promise<UserBalance[]>;
+  exists(userId: string, session?: ClientSession): Promise<boolean>;
+  create(data: NewUser, session?: ClientSession): Promise<IUser>;
+  save(user: IUser, session?: ClientSession): Promise<IUser>;
+  /**
+   * Изменить доступный баланс на delta одной атомарной операцией.
+   * null — пользователя нет или баланс ушёл бы в минус
+   */
+  incrementBalance(userId: string, delta: number, session?: ClientSession): Promise<IUser | null>;
+  /**
+   * Перевести amount из доступного баланса в блокировку по аукциону.
+   * null — пользователя нет или не хватает средств
+   */
+  addHold(userId: string, auctionId: string, amount: number, session?: ClientSession): Promise<IUser | null>;
+  /**
+   * Уменьшить блокировку по аукциону на amount, вернув refund в доступный
+   * баланс. Опустевшая блокировка удаляется. null — такой блокировки нет
+   */
+  reduceHold(
+    userId: string,
+    auctionId: string,
+    amount: number,
+    refund: number,
+    session?: ClientSession
+  ): Promise<IUser | null>;
+}
+
+export interface NewBid {
+  auctionId: string;
+  userId: string;
+  amount: number;
+  timestamp: Date;
+  roundNumber: number;
+  placedInRound: number;
+  status: IBid['status'];
+}
+
+export interface BidRepository {
+  create(data: NewBid, session?: ClientSession): Promise<IBid>;
+  save(bid: IBid, session?: ClientSession): Promise<IBid>;
+  /**
+   * Живая ставка пользователя в аукционе (у пользователя она одна)
+   */
+  findActive(auctionId: string, userId: string, session?: ClientSession): Promise<IBid | null>;
+  findActiveByAuction(auctionId: string, session?: ClientSession): Promise<IBid[]>;
+  findByAuction(auctionId: string): Promise<IBid[]>;
+  /**
+   * Ставки пользователя в аукционе по времени
+   */
+  findByUser(auctionId: string, userId: string): Promise<IBid[]>;
+  /**
+   * Невозвращённые ставки раунда по убыванию суммы (при равенстве — более ранняя)
+   */
+  getStandings(
+    auctionId: string,
+    roundNumber: number,
+    limit?: number,
+    session?: ClientSession
+  ): Promise<IBid[]>;
+  /**
+   * Максимальная невозвращённая ставка в каждом из раундов (ключ — auctionId).
+   * Аукционы без ставок в ответ не попадают
+   */
+  getTopBids(rounds: Array<{ auctionId: string; roundNumber: number }>): Promise<Map<string, number>>;
+  /**
+   * Сумма живых ставок в каждом аукционе (ключ — auctionId)
+   */
+  sumActive(): Promise<Map<string, number>>;
+  setStatus(bidIds: string[], status: IBid['status'], session?: ClientSession): Promise<void>;
+  /**
+   * Перенести живые ставки раунда в другой раунд. Возвращает число перенесённых
+   */
+  moveActive(
+    auctionId: string,
+    fromRound: number,
+    toRound: number,
+    session?: ClientSession
+  ): Promise<number>;
+}
+
+export interface NewLedgerEntry {
+  userId: string;
+  auctionId: string;
+  type: TransactionType;
+  amount: number;
+  status: ITransaction['status'];
+  description?: string;
+  bidId?: string;
+  roundNumber?: number;
+  idempotencyKey?: string;
+}
+
+/**
+ * Условия выборки операций журнала. Период — [from, to)
+ */
+export interface LedgerQuery {
+  userId?: string;
+  auctionId?: string;
+  types?: TransactionType[];
+  statuses?: ITransaction['status'][];
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Подходит ли операция под условия выборки
+ */
+export const matchesLedgerQuery = (transaction: ITransaction, query: LedgerQuery): boolean =>
+  (query.userId === undefined || transaction.userId === query.userId) &&
+  (query.auctionId === undefined || transaction.auctionId === query.auctionId) &&
+  (!query.types || query.types.includes(transaction.type)) &&
+  (!query.statuses || query.statuses.includes(transaction.status)) &&
+  (!query.from || transaction.createdAt >= query.from) &&
+  (!query.to || transaction.createdAt < query.to);
+
+/**
+ * Число и сумма операций одного типа и статуса
+ */
+export interface LedgerTotalsRow {
+  type: TransactionType;
+  status: ITransaction['status'];
+  count: number;
+  amount: number;
+}
+
+/**
+ * Сумма завершённых операций одного типа по пользователю или аукциону (key)
+ */
+export interface LedgerTypeSum {
+  key: string;
+  type: TransactionType;
+  amount: number;
+}
+
+/**
+ * Обороты завершённых операций по счёту
+ */
+export interface AccountTurnover {
+  account: string;
+  debit: number;
+  credit: number;
+}
+
+export interface LedgerRepository {
+  /**
+   * Записать операции. Счета проводки проставляет схема Transaction
+   */
+  record(entries: NewLedgerEntry[], session?: ClientSession): Promise<ITransaction[]>;
+  /**
+   * Операции по условию, новые первыми (при равном createdAt — по убыванию _id).
+   * after — createdAt (мс) и id последней операции прошлой страницы
+   */
+  find(query: LedgerQuery, limit: number, after?: { value: number; id: string }): Promise<ITransaction[]>;
+  /**
+   * Операции по условию в порядке записи.
+   * Операции читаются порциями, а не загружаются целиком
+   */
+  stream(query: LedgerQuery): AsyncIterable<ITransaction>;
+  /**
+   * Итоги операций по условию в разрезе типа и статуса
+   */
+  totals(query: LedgerQuery): Promise<LedgerTotalsRow[]>;
+  /**
+   * Итоги завершённых операций пользователя, записанных раньше операции id
+   * с моментом createdAt
+   */
+  totalsBefore(userId: string, createdAt: Date, id: string): Promise<LedgerTotalsRow[]>;
+  /**
+   * Суммы завершённых операций по типам в разрезе пользователей или аукционов
+   */
+  sumByType(field: 'userId' | 'auctionId'): Promise<LedgerTypeSum[]>;
+  /**
+   * Дебетовые и кредитовые обороты каждого счёта по завершённым операциям
+   */
+  turnover(): Promise<AccountTurnover[]>;
+  /**
+   * Операции по аукциону в порядке записи
+   */
+  findByAuction(auctionId: string): Promise<ITransaction[]>;
+  /**
+   * Операция пользователя, записанная с ключом запроса idempotencyKey
+   * в рамках операции operation
+   */
+  findByIdempotencyKey(
+    userId: string,
+    operation: IdempotentOperation,
+    idempotencyKey: string,
+    session?: ClientSession
+  ): Promise<ITransaction | null>;
+  /**
+   * Сколько ставок и повышений пользователь сделал в аукционе
+   */
+  countBids(auctionId: string, userId: string, session?: ClientSession): Promise<number>;
+}
+
+export interface ProxyBidRepository {
+  /**
+   * Действующие автоставки аукциона в порядке создания
+   */
+  findActive(auctionId: string, session?: ClientSession): Promise<IProxyBid[]>;
+  /**
+   * Последняя автоставка пользователя в аукционе
+   */
+  findLatest(auctionId: string, userId: string): Promise<IProxyBid | null>;
+  /**
+   * Задать потолок действующей автоставки или создать её
+   */
+  upsertActive(
+    auctionId: string,
+    userId: string,
+    maxAmount: number,
+    session?: ClientSession
+  ): Promise<IProxyBid>;
+  /**
+   * Закрыть действующие автоставки аукциона (всех пользователей или только userIds).
+   * Момент закрытия записывается в completedAt или cancelledAt.
+   * Возвращает число закрытых автоставок
+   */
+  close(
+    auctionId: string,
+    status: 'completed' | 'cancelled',
+    at: Date,
+    userIds?: string[],
+    session?: ClientSession
+  ): Promise<number>;
+}
+
+export interface NewHistoryEntry {
+  auctionId: string;
+  sequence: number;
+  type: string;
+  payload: Record<string, unknown>;
+}
+
+export interface AuctionHistoryRepository {
+  /**
+   * Номер последнего события журнала аукциона (0, если журнал пуст)
+   */
+  lastSequence(auctionId: string, session?: ClientSession): Promise<number>;
+  /**
+   * Дописать события. Номер (auctionId, sequence) уникален
+   */
+  insert(entries: NewHistoryEntry[], session?: ClientSession): Promise<void>;
+  findByAuction(auctionId: string): Promise<IAuctionHistoryEntry[]>;
+}
+
+export interface NewAuditEntry {
+  actorId: string;
+  actorRole: string;
+  action: string;
+  targetType: IAuditLog['targetType'];
+  targetId: string;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  actorId?: string;
+  targetType?: IAuditLog['targetType'];
+  targetId?: string;
+  action?: string;
+}
+
+export interface AuditLogRepository {
+  create(entry: NewAuditEntry, session?: ClientSession): Promise<void>;
+  /**
+   * Записи по условию, новые первыми
+   */
+  find(query: AuditQuery, limit: number): Promise<IAuditLog[]>;
+}
+
+export interface LockRepository {
+  /**
+   * Захватить или продлить блокировку name до expiresAt. Удаётся, если
+   * блокировка свободна, истекла к моменту now или уже принадлежит owner.
+   * При смене владельца acquiredAt становится равным now
+   */
+  acquire(name: string, owner: string, now: Date, expiresAt: Date): Promise<boolean>;
+  /**
+   * Освободить блокировку, если она принадлежит owner
+   */
+  release(name: string, owner: string): Promise<void>;
+  /**
+   * Блокировка, действующая в момент now, или null
+   */
+  findHolder(name: string, now: Date): Promise<ILock | null>;
+}
+
+/**
+ * Ошибка уникального индекса (code 11000): так её выбрасывают оба хранилища
+ */
+export const isDuplicateKeyError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 11000;
+
+/**
+ * Ключ идемпотентности: уникален в пределах пользователя и операции (scope)
+ */
+export interface IdempotencyKeyId {
+  userId: string;
+  scope: string;
+  key: string;
+}
+
+export interface NewIdempotencyKey extends IdempotencyKeyId {
+  requestHash: string;
+  expiresAt: Date;
+}
+
+export interface IdempotencyKeyRepository {
+  /**
+   * Занять ключ в статусе processing. Если ключ уже занят,
+   * выбрасывается ошибка уникального индекса (code 11000)
+   */
+  create(data: NewIdempotencyKey): Promise<IIdempotencyKey>;
+  /**
+   * Перехватить брошенный ключ: запись processing с тем же requestHash,
+   * не обновлявшуюся с момента staleBefore, получает updatedAt = now.
+   * null — такой записи нет
+   */
+  reclaim(
+    id: IdempotencyKeyId,
+    requestHash: string,
+    staleBefore: Date,
+    now: Date
+  ): Promise<IIdempotencyKey | null>;
+  /**
+   * Ключ или null. Ключи удаляются после expiresAt (в MongoDB — TTL-индексом)
+   */
+  find(id: IdempotencyKeyId): Promise<IIdempotencyKey | null>;
+  /**
+   * Сохранить ответ на запрос и перевести ключ в completed
+   */
+  complete(id: IdempotencyKeyId, responseStatus: number, responseBody: unknown): Promise<void>;
+  /**
+   * Освободить ключ
+   */
+  remove(id: IdempotencyKeyId): Promise<void>;
+}
+
+/**
+ * Все хранилища одного бэкенда
+ */
+export interface Repositories {
+  readonly backend: StorageBackend;
+  readonly auctions: AuctionRepository;
+  readonly users: UserRepository;
+  readonly bids: BidRepository;
+  readonly ledger: LedgerRepository;
+  readonly proxyBids: ProxyBidRepository;
+  readonly history: AuctionHistoryRepository;
+  readonly audit: AuditLogRepository;
+  readonly locks: LockRepository; // Не участвуют в транзакциях
+  readonly idempotencyKeys: IdempotencyKeyRepository; // Не участвуют в транзакциях
+  /**
+   * Выполнить fn атомарно: либо применяются все изменения, либо ни одно.
+   * Операции внутри должны передавать полученную сессию
+   * (у хранилища в памяти её нет — передаётся undefined)
+   */
+  transaction<T>(fn: (session?: ClientSession) => Promise<T>): Promise<T>;
+}
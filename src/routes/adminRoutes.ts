@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import AdminController from '../controllers/AdminController';
+import { body, param, query } from 'express-validator';
+import { validateRequest } from '../middleware/errorHandler';
+import { authenticateTelegram } from '../middleware/telegramAuth';
+import { requireRole } from '../middleware/authorization';
+import { transactionExportValidation } from './transactionValidation';
+
+const router = Router();
+
+// Все административные маршруты доступны только администраторам
+router.use(authenticateTelegram, requireRole('admin'));
+
+router.put('/users/:userId/role',
+  param('userId').notEmpty(),
+  body('role').isIn(['admin', 'organizer', 'bidder']).withMessage('role must be admin, organizer or bidder'),
+  validateRequest,
+  AdminController.setUserRole
+);
+router.get('/audit',
+  query('targetType').optional().isIn(['auction', 'user']),
+  query('limit').optional().isInt({ min: 1, max: 1000 }),
+  validateRequest,
+  AdminController.getAuditLog
+);
+router.get('/ledger/reconciliation', AdminController.getReconciliation);
+router.get('/ledger/accounts', AdminController.getTrialBalance);
+router.get('/auctions/:id/history', param('id').isMongoId(), validateRequest, AdminController.getAuctionHistory);
+router.get('/auctions/:id/replay', param('id').isMongoId(), validateRequest, AdminController.replayAuction);
+router.get('/auctions/:id/transactions/export',
+  param('id').isMongoId(),
+  transactionExportValidation,
+  validateRequest,
+  AdminController.exportAuctionTransactions
+);
+
+export default router;
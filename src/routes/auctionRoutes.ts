@@ -1,7 +1,14 @@
 import { Router } from 'express';
 import AuctionController from '../controllers/AuctionController';
-import { body, param } from 'express-validator';
+import StreamController from '../controllers/StreamController';
+import { body, param, query } from 'express-validator';
 import { validateRequest } from '../middleware/errorHandler';
+import { authenticateTelegram, requireSelf } from '../middleware/telegramAuth';
+import { requireRole, requireAuctionOwner } from '../middleware/authorization';
+import { idempotency } from '../middleware/idempotency';
+import { AUCTION_SORTS } from '../repositories';
+import { EXPORT_FORMATS } from '../utils/export';
+import { decodeCursor } from '../utils/cursor';
 
 const router = Router();
 
@@ -9,24 +16,90 @@ const router = Router();
 const createAuctionValidation = [
   body('title').notEmpty().withMessage('Title is required'),
   body('totalItems').isInt({ min: 1 }).withMessage('totalItems must be a positive integer'),
-  body('itemsPerRound').isInt({ min: 1 }).withMessage('itemsPerRound must be a positive integer'),
+  body('itemsPerRound')
+    .if(body('roundPlan').not().exists())
+    .isInt({ min: 1 })
+    .withMessage('itemsPerRound must be a positive integer'),
+  body('roundPlan').optional().isArray({ min: 1 }).withMessage('roundPlan must be a non-empty array'),
   body('roundDuration').isInt({ min: 10 }).withMessage('roundDuration must be at least 10 seconds'),
   body('minBid').isFloat({ min: 0 }).withMessage('minBid must be a non-negative number'),
+  body('pricingRule').optional().isIn(['pay_as_bid', 'uniform', 'second_price']).withMessage('pricingRule must be pay_as_bid, uniform or second_price'),
+  body('scheduledStartAt').optional().isISO8601().withMessage('scheduledStartAt must be an ISO 8601 date'),
+  body('timezone').optional().isString(),
+  body('blackoutWindows').optional().isArray().withMessage('blackoutWindows must be an array'),
+  body('antiSniping').optional().isObject().withMessage('antiSniping must be an object'),
+  body('bidRules').optional().isObject().withMessage('bidRules must be an object'),
+  body('limits').optional().isObject().withMessage('limits must be an object'),
 ];
 
-// Валидация для ставки
+// Валидация для расписания
+const scheduleValidation = [
+  body('scheduledStartAt').isISO8601().withMessage('scheduledStartAt must be an ISO 8601 date'),
+  body('timezone').optional().isString(),
+  body('blackoutWindows').optional().isArray().withMessage('blackoutWindows must be an array'),
+];
+
+// Валидация для ставки (userId берётся из подписи Telegram, в теле он необязателен)
 const placeBidValidation = [
-  body('userId').notEmpty().withMessage('userId is required'),
+  body('userId').optional().notEmpty().withMessage('userId must not be empty'),
   body('amount').isFloat({ min: 0 }).withMessage('amount must be a non-negative number'),
 ];
 
-router.post('/', createAuctionValidation, validateRequest, AuctionController.createAuction);
-router.get('/', AuctionController.getAllAuctions);
+// Валидация фильтров каталога
+const listAuctionsValidation = [
+  query('status')
+    .optional()
+    .custom((value: string) => value.split(',').every((status) => ['draft', 'active', 'completed', 'cancelled'].includes(status)))
+    .withMessage('status must be a comma-separated list of draft, active, completed, cancelled'),
+  query('creator').optional().notEmpty(),
+  query(['minItems', 'maxItems']).optional().isInt({ min: 0 }).withMessage('item counts must be non-negative integers'),
+  query(['minBidFrom', 'minBidTo']).optional().isFloat({ min: 0 }).withMessage('minBid range must be non-negative numbers'),
+  query('endingWithin').optional().isInt({ min: 1 }).withMessage('endingWithin must be a positive number of seconds'),
+  query('sort').optional().isIn(AUCTION_SORTS).withMessage(`sort must be one of: ${AUCTION_SORTS.join(', ')}`),
+  query('q').optional().isString().trim().notEmpty(),
+  query('cursor').optional().custom((value: string) => decodeCursor(value)).withMessage('Invalid cursor'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100'),
+];
+
+// Управление аукционами: администратор — любыми, организатор — своими
+const canManageAuctions = [authenticateTelegram, requireRole('admin', 'organizer')];
+const canManageAuction = [...canManageAuctions, requireAuctionOwner];
+
+router.post('/', canManageAuctions, createAuctionValidation, validateRequest, AuctionController.createAuction);
+router.get('/', listAuctionsValidation, validateRequest, AuctionController.getAllAuctions);
 router.get('/active', AuctionController.getActiveAuctions);
+router.get('/upcoming', AuctionController.getUpcomingAuctions);
 router.get('/:id', param('id').notEmpty(), validateRequest, AuctionController.getAuction);
-router.post('/:id/start', param('id').notEmpty(), validateRequest, AuctionController.startAuction);
-router.post('/:id/bid', param('id').notEmpty(), placeBidValidation, validateRequest, AuctionController.placeBid);
-router.post('/:id/complete-round', param('id').notEmpty(), validateRequest, AuctionController.completeRound);
+router.post('/:id/start', canManageAuction, param('id').notEmpty(), validateRequest, AuctionController.startAuction);
+router.post('/:id/bid', authenticateTelegram, param('id').notEmpty(), placeBidValidation, validateRequest, idempotency, AuctionController.placeBid);
+router.put('/:id/proxy-bid',
+  authenticateTelegram,
+  param('id').notEmpty(),
+  body('maxAmount').isFloat({ gt: 0 }).withMessage('maxAmount must be a positive number'),
+  validateRequest,
+  AuctionController.setProxyBid
+);
+router.get('/:id/proxy-bid', authenticateTelegram, param('id').notEmpty(), validateRequest, AuctionController.getProxyBid);
+router.delete('/:id/proxy-bid', authenticateTelegram, param('id').notEmpty(), validateRequest, AuctionController.cancelProxyBid);
+router.post('/:id/complete-round', canManageAuction, param('id').notEmpty(), validateRequest, AuctionController.completeRound);
+router.put('/:id/schedule', canManageAuction, param('id').notEmpty(), scheduleValidation, validateRequest, AuctionController.scheduleAuction);
+router.delete('/:id/schedule', canManageAuction, param('id').notEmpty(), validateRequest, AuctionController.unscheduleAuction);
+router.post('/:id/cancel',
+  canManageAuction,
+  param('id').notEmpty(),
+  body('reason').optional().isString(),
+  validateRequest,
+  AuctionController.cancelAuction
+);
+router.get('/:id/events', param('id').notEmpty(), validateRequest, StreamController.streamAuction);
+router.get('/:id/settlement',
+  canManageAuction,
+  param('id').notEmpty(),
+  query('format').optional().isIn(EXPORT_FORMATS).withMessage(`format must be one of: ${EXPORT_FORMATS.join(', ')}`),
+  query('table').optional().isIn(['users', 'rounds', 'winners']).withMessage('table must be users, rounds or winners'),
+  validateRequest,
+  AuctionController.getSettlement
+);
 router.get('/:id/round/:roundNumber/leaderboard', 
   param('id').notEmpty(),
   param('roundNumber').isInt(),
@@ -34,6 +107,8 @@ router.get('/:id/round/:roundNumber/leaderboard',
   AuctionController.getRoundLeaderboard
 );
 router.get('/:id/user/:userId/bids',
+  authenticateTelegram,
+  requireSelf('userId'),
   param('id').notEmpty(),
   param('userId').notEmpty(),
   validateRequest,
@@ -0,0 +1,34 @@
+import { query } from 'express-validator';
+import { TRANSACTION_STATUSES, TRANSACTION_TYPES } from '../models/Transaction';
+import { EXPORT_FORMATS } from '../utils/export';
+import { decodeCursor } from '../utils/cursor';
+
+const inList = (allowed: string[]) => (value: string) =>
+  value.split(',').every((item) => allowed.includes(item));
+
+// Валидация фильтров истории операций
+export const transactionFilterValidation = [
+  query('auctionId').optional().isMongoId().withMessage('auctionId must be a valid auction ID'),
+  query('type')
+    .optional()
+    .custom(inList(TRANSACTION_TYPES))
+    .withMessage(`type must be a comma-separated list of: ${TRANSACTION_TYPES.join(', ')}`),
+  query('status')
+    .optional()
+    .custom(inList(TRANSACTION_STATUSES))
+    .withMessage(`status must be a comma-separated list of: ${TRANSACTION_STATUSES.join(', ')}`),
+  query(['from', 'to']).optional().isISO8601().withMessage('from and to must be ISO 8601 dates'),
+];
+
+// Валидация страницы истории
+export const transactionPageValidation = [
+  ...transactionFilterValidation,
+  query('cursor').optional().custom((value: string) => decodeCursor(value)).withMessage('Invalid cursor'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100'),
+];
+
+// Валидация выгрузки
+export const transactionExportValidation = [
+  ...transactionFilterValidation,
+  query('format').optional().isIn(EXPORT_FORMATS).withMessage(`format must be one of: ${EXPORT_FORMATS.join(', ')}`),
+];
@@ -1,10 +1,17 @@
 import { Router } from 'express';
 import UserController from '../controllers/UserController';
+import StreamController from '../controllers/StreamController';
 import { param, body } from 'express-validator';
 import { validateRequest } from '../middleware/errorHandler';
+import { authenticateTelegram, requireSelf } from '../middleware/telegramAuth';
+import { idempotency } from '../middleware/idempotency';
+import { transactionExportValidation, transactionPageValidation } from './transactionValidation';
 
 const router = Router();
 
+// Все операции доступны только владельцу аккаунта
+router.use('/:userId', authenticateTelegram, requireSelf('userId'));
+
 router.get('/:userId', param('userId').notEmpty(), validateRequest, UserController.getUser);
 router.post('/:userId', param('userId').notEmpty(), validateRequest, UserController.getOrCreateUser);
 router.get('/:userId/balance', param('userId').notEmpty(), validateRequest, UserController.getBalance);
@@ -12,13 +19,21 @@ router.post('/:userId/deposit',
   param('userId').notEmpty(),
   body('amount').isFloat({ min: 0 }).withMessage('amount must be a non-negative number'),
   validateRequest,
+  idempotency,
   UserController.deposit
 );
+router.get('/:userId/events', param('userId').notEmpty(), validateRequest, StreamController.streamUser);
 router.get('/:userId/transactions',
   param('userId').notEmpty(),
+  transactionPageValidation,
   validateRequest,
   UserController.getTransactionHistory
 );
+router.get('/:userId/transactions/export',
+  param('userId').notEmpty(),
+  transactionExportValidation,
+  validateRequest,
+  UserController.exportTransactions
+);
 
 export default router;
-
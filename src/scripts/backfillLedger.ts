@@ -0,0 +1,97 @@
+/**
+ * Перевод журнала операций на двойную запись.
+ *
+ * Операциям, созданным до появления счетов, проставляются счета дебета и
+ * кредита. Стартовый баланс раньше не записывался в журнал, поэтому для
+ * пользователей, у которых денег больше, чем следует из журнала, создаётся
+ * пополнение «Opening balance» на разницу. Операциям с ключом запроса
+ * проставляется операция (operation), в пределах которой ключ уникален;
+ * после этого старый индекс userId_1_idempotencyKey_1 нужно удалить.
+ * Повторный запуск ничего не меняет.
+ */
+
+import dotenv from 'dotenv';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import Transaction, { TransactionType, idempotentOperationFor, ledgerAccountsFor } from '../models/Transaction';
+import LedgerService from '../services/LedgerService';
+import logger from '../config/logger';
+
+export const assignLedgerAccounts = async (): Promise<number> => {
+  const cursor = Transaction.collection.find({ debitAccount: { $exists: false } });
+  let assigned = 0;
+
+  for await (const doc of cursor) {
+    await Transaction.collection.updateOne(
+      { _id: doc._id },
+      { $set: ledgerAccountsFor(doc.type as TransactionType, doc.userId) }
+    );
+    assigned += 1;
+  }
+
+  return assigned;
+};
+
+export const assignIdempotentOperations = async (): Promise<number> => {
+  const cursor = Transaction.collection.find({
+    idempotencyKey: { $type: 'string' },
+    operation: { $exists: false },
+  });
+  let assigned = 0;
+
+  for await (const doc of cursor) {
+    await Transaction.collection.updateOne(
+      { _id: doc._id },
+      { $set: { operation: idempotentOperationFor(doc.type as TransactionType) } }
+    );
+    assigned += 1;
+  }
+
+  return assigned;
+};
+
+export const recordOpeningBalances = async (): Promise<number> => {
+  const report = await LedgerService.reconcile();
+  let recorded = 0;
+
+  for (const drift of report.users) {
+    const missing = drift.availableDrift + drift.heldDrift;
+    if (missing <= 0) {
+      // Недостача денег — это настоящее расхождение, его нужно разбирать вручную
+      continue;
+    }
+
+    await Transaction.create({
+      userId: drift.userId,
+      auctionId: 'deposit',
+      type: 'deposit',
+      amount: missing,
+      status: 'completed',
+      description: 'Opening balance',
+    });
+    recorded += 1;
+  }
+
+  return recorded;
+};
+
+// Запуск, если файл выполняется напрямую
+if (require.main === module) {
+  dotenv.config();
+
+  connectDatabase()
+    .then(async () => {
+      const assigned = await assignLedgerAccounts();
+      const operations = await assignIdempotentOperations();
+      const recorded = await recordOpeningBalances();
+      logger.info(
+        `Ledger backfill finished, ${assigned} transactions assigned accounts, ` +
+          `${operations} idempotency keys scoped, ${recorded} opening balances recorded`
+      );
+      await disconnectDatabase();
+    })
+    .catch(async (error) => {
+      logger.error('Ledger backfill failed:', error);
+      await disconnectDatabase();
+      process.exit(1);
+    });
+}
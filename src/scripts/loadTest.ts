@@ -4,8 +4,25 @@
  */
 
 import axios from 'axios';
+import { signInitData } from '../utils/telegramInitData';
 
 const API_BASE = process.env.API_BASE || 'http://localhost:3000/api';
+const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
+// Аукцион создаёт организатор: этот userId должен быть в ADMIN_USER_IDS сервера
+// или иметь роль organizer
+const ORGANIZER_ID = process.env.LOAD_TEST_ORGANIZER_ID || 'load_test_organizer';
+
+/**
+ * Заголовки авторизации бота: подписанные initData, если известен токен бота,
+ * иначе X-User-Id (сервер должен быть запущен с TELEGRAM_AUTH_DISABLED=true)
+ */
+const authHeaders = (botId: string): Record<string, string> => {
+  if (TELEGRAM_BOT_TOKEN) {
+    const initData = signInitData({ id: botId, username: botId }, TELEGRAM_BOT_TOKEN);
+    return { Authorization: `tma ${initData}` };
+  }
+  return { 'X-User-Id': botId };
+};
 
 interface Bot {
   id: string;
@@ -32,12 +49,12 @@ class LoadTester {
       // Создать пользователя
       await axios.post(`${API_BASE}/users/${botId}`, {
         username: `Bot ${botId}`,
-      });
+      }, { headers: authHeaders(botId) });
 
       // Пополнить баланс
       await axios.post(`${API_BASE}/users/${botId}/deposit`, {
         amount: 10000,
-      });
+      }, { headers: authHeaders(botId) });
 
       this.bots.push({
         id: botId,
@@ -56,6 +73,7 @@ class LoadTester {
    */
   async createTestAuction(): Promise<string> {
     try {
+      const organizerHeaders = authHeaders(ORGANIZER_ID);
       const response = await axios.post(`${API_BASE}/auctions`, {
         title: 'Load Test Auction',
         description: 'Auction for load testing',
@@ -64,12 +82,12 @@ class LoadTester {
         roundDuration: 60,
         minBid: 1,
         antiSnipingWindow: 10,
-      });
+      }, { headers: organizerHeaders });
 
       const auctionId = response.data._id;
 
       // Запустить аукцион
-      await axios.post(`${API_BASE}/auctions/${auctionId}/start`);
+      await axios.post(`${API_BASE}/auctions/${auctionId}/start`, {}, { headers: organizerHeaders });
 
       console.log(`✓ Test auction created: ${auctionId}`);
       return auctionId;
@@ -93,9 +111,8 @@ class LoadTester {
       const bidAmount = minBid + Math.random() * (maxBid - minBid);
 
       await axios.post(`${API_BASE}/auctions/${auctionId}/bid`, {
-        userId: botId,
         amount: Math.round(bidAmount * 100) / 100,
-      });
+      }, { headers: authHeaders(botId) });
 
       this.stats.successfulBids++;
       this.stats.totalBids++;
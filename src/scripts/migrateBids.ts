@@ -0,0 +1,229 @@
+/**
+ * Миграция ставок из встроенного массива Auction.bids в коллекцию Bid.
+ *
+ * Раньше перенос ставки в следующий раунд создавал её копию, поэтому одна
+ * ставка могла встречаться в массиве несколько раз. Копии схлопываются в
+ * одну ставку (с _id исходной ставки, на который ссылаются транзакции),
+ * которая участвует в последнем раунде, куда была перенесена.
+ *
+ * У каждого пользователя остаётся одна живая ставка в аукционе: максимальная
+ * сохраняется, остальные записываются возвращёнными и возвращаются на баланс
+ * в той же транзакции, что и перенос ставок аукциона.
+ */
+
+import dotenv from 'dotenv';
+import mongoose, { ClientSession } from 'mongoose';
+import { connectDatabase, disconnectDatabase, withTransaction } from '../config/database';
+import Auction from '../models/Auction';
+import Bid, { IBid } from '../models/Bid';
+import Transaction from '../models/Transaction';
+import User from '../models/User';
+import UserService from '../services/UserService';
+import logger from '../config/logger';
+
+interface EmbeddedBid {
+  _id: mongoose.Types.ObjectId;
+  userId: string;
+  amount: number;
+  timestamp: Date;
+  roundNumber: number;
+}
+
+interface EmbeddedRound {
+  roundNumber: number;
+  winners?: Array<{ userId: string; bidAmount: number }>;
+}
+
+/**
+ * Определить статус перенесённой ставки по итогам раундов
+ */
+const resolveStatus = (
+  bid: EmbeddedBid,
+  rounds: EmbeddedRound[],
+  auctionStatus: string
+): 'active' | 'won' | 'refunded' => {
+  const round = rounds.find((r) => r.roundNumber === bid.roundNumber);
+  const winner = round?.winners?.find((w) => w.userId === bid.userId);
+
+  if (winner) {
+    // Победитель платил максимальной ставкой, остальные ставки ему вернули
+    return winner.bidAmount === bid.amount ? 'won' : 'refunded';
+  }
+
+  // В завершённом аукционе все невыигравшие ставки уже возвращены
+  return auctionStatus === 'completed' ? 'refunded' : 'active';
+};
+
+/**
+ * Оставить одну живую ставку на пользователя: максимальную (при равенстве —
+ * более раннюю). Остальные живые ставки пользователя помечаются возвращёнными,
+ * возвращаются их индексы в bids
+ */
+const consolidateActiveBids = (
+  bids: Array<Pick<IBid, 'userId' | 'amount' | 'timestamp' | 'status'>>
+): Set<number> => {
+  const kept = new Set<string>();
+  const stacked = new Set<number>();
+
+  const ranked = bids
+    .map((bid, index) => ({ bid, index }))
+    .filter(({ bid }) => bid.status === 'active')
+    .sort(
+      (a, b) =>
+        b.bid.amount - a.bid.amount ||
+        new Date(a.bid.timestamp).getTime() - new Date(b.bid.timestamp).getTime()
+    );
+  for (const { bid, index } of ranked) {
+    if (kept.has(bid.userId)) {
+      bid.status = 'refunded';
+      stacked.add(index);
+    } else {
+      kept.add(bid.userId);
+    }
+  }
+
+  return stacked;
+};
+
+/**
+ * Вернуть лишнюю живую ставку пользователя на баланс. Сумма ставки старого
+ * формата уже списана с баланса, поэтому под неё сначала восстанавливается
+ * блокировка по аукциону (как в migrate:holds), а затем снимается возвратом
+ * с проводкой из эскроу, как при возврате ставки в аукционе
+ */
+const refundStackedBid = async (
+  bid: { _id: mongoose.Types.ObjectId; auctionId: string; userId: string; amount: number; roundNumber: number },
+  session: ClientSession
+): Promise<void> => {
+  const { matchedCount } = await User.updateOne(
+    { userId: bid.userId, 'holds.auctionId': bid.auctionId },
+    { $inc: { held: bid.amount, 'holds.$.amount': bid.amount } },
+    { session }
+  );
+  if (matchedCount === 0) {
+    await User.updateOne(
+      { userId: bid.userId },
+      { $inc: { held: bid.amount }, $push: { holds: { auctionId: bid.auctionId, amount: bid.amount } } },
+      { session }
+    );
+  }
+
+  await UserService.releaseHold(bid.userId, bid.auctionId, bid.amount, session);
+  await Transaction.create(
+    [
+      {
+        userId: bid.userId,
+        auctionId: bid.auctionId,
+        type: 'refund',
+        amount: bid.amount,
+        status: 'completed',
+        bidId: bid._id.toString(),
+        roundNumber: bid.roundNumber,
+        description: 'Refund for stacked bid replaced by a single live bid',
+      },
+    ],
+    { session }
+  );
+};
+
+export const migrateEmbeddedBids = async (): Promise<{ migrated: number; refunded: number }> => {
+  const cursor = Auction.collection.find({ bids: { $exists: true } });
+  let migrated = 0;
+  let refunded = 0;
+
+  for await (const doc of cursor) {
+    const embedded: EmbeddedBid[] = doc.bids || [];
+    const rounds: EmbeddedRound[] = doc.rounds || [];
+
+    // Схлопнуть копии перенесённых ставок
+    const unique = new Map<string, { original: EmbeddedBid; latest: EmbeddedBid }>();
+    for (const bid of embedded) {
+      const key = `${bid.userId}:${bid.amount}:${new Date(bid.timestamp).getTime()}`;
+      const existing = unique.get(key);
+
+      if (!existing) {
+        unique.set(key, { original: bid, latest: bid });
+        continue;
+      }
+
+      if (bid.roundNumber < existing.original.roundNumber) {
+        existing.original = bid;
+      }
+      if (bid.roundNumber > existing.latest.roundNumber) {
+        existing.latest = bid;
+      }
+    }
+
+    const bids = Array.from(unique.values()).map(({ original, latest }) => ({
+      _id: original._id,
+      auctionId: doc._id.toString(),
+      userId: latest.userId,
+      amount: latest.amount,
+      timestamp: latest.timestamp,
+      roundNumber: latest.roundNumber,
+      placedInRound: original.roundNumber,
+      status: resolveStatus(latest, rounds, doc.status),
+    }));
+
+    // Лишние живые ставки возвращаются до записи: уникальный индекс
+    // не допускает двух живых ставок пользователя в аукционе
+    const stacked = consolidateActiveBids(bids);
+
+    // Ставки, возвраты и очистка встроенного массива — одна транзакция,
+    // поэтому прерванный запуск можно повторить без двойных возвратов
+    const refundedInAuction = await withTransaction(async (session) => {
+      let inserted: number[] = [];
+      if (bids.length > 0) {
+        // Повторный запуск не должен падать на уже перенесённых ставках
+        const result = await Bid.bulkWrite(
+          bids.map((bid) => ({
+            updateOne: {
+              filter: { _id: bid._id },
+              update: { $setOnInsert: bid },
+              upsert: true,
+            },
+          })),
+          { session }
+        );
+        inserted = Object.keys(result.upsertedIds).map(Number);
+      }
+
+      // Возвращаются только ставки, записанные этим запуском
+      const toRefund = inserted.filter((index) => stacked.has(index)).map((index) => bids[index]);
+      for (const bid of toRefund) {
+        await refundStackedBid(bid, session);
+      }
+
+      await Auction.collection.updateOne({ _id: doc._id }, { $unset: { bids: '' } }, { session });
+      return toRefund.length;
+    });
+
+    migrated += bids.length;
+    refunded += refundedInAuction;
+    logger.info(
+      `Migrated auction ${doc._id}: ${embedded.length} embedded bids -> ${bids.length} bids, ` +
+        `${refundedInAuction} stacked bids refunded`
+    );
+  }
+
+  return { migrated, refunded };
+};
+
+// Запуск, если файл выполняется напрямую
+if (require.main === module) {
+  dotenv.config();
+
+  connectDatabase()
+    .then(async () => {
+      const { migrated, refunded } = await migrateEmbeddedBids();
+      logger.info(
+        `Bid migration finished, ${migrated} bids migrated, ${refunded} stacked bids refunded`
+      );
+      await disconnectDatabase();
+    })
+    .catch(async (error) => {
+      logger.error('Bid migration failed:', error);
+      await disconnectDatabase();
+      process.exit(1);
+    });
+}
@@ -0,0 +1,65 @@
+/**
+ * Перенос живых ставок в блокировки баланса.
+ *
+ * До появления блокировок сумма ставки сразу списывалась с баланса. Теперь
+ * она хранится в User.holds, поэтому для каждой активной ставки создаётся
+ * блокировка по аукциону. Доступный баланс не меняется: деньги уже списаны.
+ * Пользователи, у которых блокировки уже есть, пропускаются.
+ */
+
+import dotenv from 'dotenv';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import Bid from '../models/Bid';
+import User from '../models/User';
+import logger from '../config/logger';
+
+export const migrateHolds = async (): Promise<number> => {
+  const activeBids = await Bid.aggregate<{
+    _id: string;
+    holds: Array<{ auctionId: string; amount: number }>;
+    held: number;
+  }>([
+    { $match: { status: 'active' } },
+    { $group: { _id: { userId: '$userId', auctionId: '$auctionId' }, amount: { $sum: '$amount' } } },
+    {
+      $group: {
+        _id: '$_id.userId',
+        holds: { $push: { auctionId: '$_id.auctionId', amount: '$amount' } },
+        held: { $sum: '$amount' },
+      },
+    },
+  ]);
+
+  let migrated = 0;
+
+  for (const entry of activeBids) {
+    // Пустой список блокировок мог остаться после возврата лишних ставок в migrate:bids
+    const result = await User.updateOne(
+      { userId: entry._id, 'holds.0': { $exists: false } },
+      { $set: { held: entry.held, holds: entry.holds } }
+    );
+    migrated += result.modifiedCount;
+  }
+
+  // У остальных пользователей блокировок нет
+  await User.updateMany({ holds: { $exists: false } }, { $set: { held: 0, holds: [] } });
+
+  return migrated;
+};
+
+// Запуск, если файл выполняется напрямую
+if (require.main === module) {
+  dotenv.config();
+
+  connectDatabase()
+    .then(async () => {
+      const migrated = await migrateHolds();
+      logger.info(`Hold migration finished, ${migrated} users migrated`);
+      await disconnectDatabase();
+    })
+    .catch(async (error) => {
+      logger.error('Hold migration failed:', error);
+      await disconnectDatabase();
+      process.exit(1);
+    });
+}
@@ -7,8 +7,15 @@ import { connectDatabase } from './config/database';
 import logger from './config/logger';
 import auctionRoutes from './routes/auctionRoutes';
 import userRoutes from './routes/userRoutes';
+import adminRoutes from './routes/adminRoutes';
 import { errorHandler } from './middleware/errorHandler';
-import { startRoundProcessor } from './jobs/roundProcessor';
+import {
+  getRoundProcessorStatus,
+  startRoundProcessor,
+  stopRoundProcessor,
+} from './jobs/roundProcessor';
+import EventService from './services/EventService';
+import repositories from './repositories';
 
 // Загрузить переменные окружения
 dotenv.config();
@@ -20,7 +27,7 @@ const PORT = process.env.PORT || 3000;
 app.use(helmet({
   contentSecurityPolicy: false, // Для разработки
 }));
-app.use(cors());
+app.use(cors({ exposedHeaders: ['Idempotent-Replayed'] }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -36,12 +43,23 @@ app.use((req, _res, next) => {
 // Routes
 app.use('/api/auctions', auctionRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Health check
 app.get('/health', (_req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Состояние обработчика раундов: лидер, последний тик, отставание
+app.get('/health/processor', async (_req, res) => {
+  try {
+    res.json(await getRoundProcessorStatus());
+  } catch (error: any) {
+    logger.error('Error getting round processor status:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // API info endpoint
 app.get('/api', (_req, res) => {
   res.json({
@@ -50,6 +68,7 @@ app.get('/api', (_req, res) => {
     endpoints: {
       auctions: '/api/auctions',
       users: '/api/users',
+      admin: '/api/admin',
       health: '/health',
     },
   });
@@ -67,11 +86,16 @@ app.use(errorHandler);
 // Запуск сервера
 const startServer = async (): Promise<void> => {
   try {
-    // Подключиться к базе данных
-    await connectDatabase();
+    // Подключиться к базе данных; хранилищу в памяти она не нужна
+    if (repositories.backend === 'mongo') {
+      await connectDatabase();
+    }
+    
+    // Запустить брокер событий для SSE-потоков
+    await EventService.start();
     
     // Запустить обработчик раундов
-    startRoundProcessor();
+    await startRoundProcessor();
     
     // Запустить сервер
     app.listen(PORT, () => {
@@ -89,11 +113,15 @@ startServer();
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  await stopRoundProcessor();
+  await EventService.stop();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
+  await stopRoundProcessor();
+  await EventService.stop();
   process.exit(0);
 });
 
@@ -0,0 +1,86 @@
+import { AuctionSimulator } from '../simulation/AuctionSimulator';
+import { AuctionHistoryService } from './AuctionHistoryService';
+
+const seconds = (at: number) => new Date(at * 1000);
+
+/**
+ * Два раунда по товару: anti-sniping продлевает первый, проигравшая ставка
+ * переносится во второй и возвращается в конце
+ */
+const playAuction = async () => {
+  const scenario = await AuctionSimulator.start({
+    totalItems: 2,
+    itemsPerRound: 1,
+    roundDuration: 60,
+    minBid: 10,
+    antiSniping: { trigger: 'any_bid', triggerWindow: 10, extension: 10 },
+    balances: { alice: 100, bob: 100, carol: 100 },
+  });
+
+  await scenario.play([
+    { at: 0, userId: 'alice', amount: 30 },
+    { at: 1, userId: 'bob', amount: 20 },
+    { at: 55, userId: 'carol', amount: 10 },
+    { at: 56, userId: 'alice', amount: 40 },
+    { at: 80, userId: 'bob', amount: 25 },
+  ]);
+
+  return { scenario, history: new AuctionHistoryService(scenario.clock, scenario.repositories) };
+};
+
+describe('AuctionHistoryService', () => {
+  it('records the auction lifecycle in order', async () => {
+    const { scenario, history } = await playAuction();
+
+    const entries = await history.getHistory(scenario.auctionId);
+    expect(entries.map((entry) => entry.sequence)).toEqual(entries.map((_entry, index) => index + 1));
+    expect(new Set(entries.map((entry) => entry.type))).toEqual(
+      new Set([
+        'auction_created',
+        'auction_started',
+        'round_created',
+        'bid_placed',
+        'round_extended',
+        'round_completed',
+        'bids_carried_over',
+        'bids_refunded',
+        'auction_completed',
+      ])
+    );
+    expect(entries[0].type).toBe('auction_created');
+    expect(entries[entries.length - 1].type).toBe('auction_completed');
+  });
+
+  it('replays the history into the stored auction and bids', async () => {
+    const { scenario, history } = await playAuction();
+
+    const report = await history.verify(scenario.auctionId);
+    expect(report.error).toBeUndefined();
+    expect(report.mismatches).toEqual([]);
+    expect(report.consistent).toBe(true);
+    expect(report.replayed).toMatchObject({ status: 'completed', currentRound: 2, completedAt: seconds(126) });
+    expect(report.replayed!.rounds.map((round) => round.winners.map((winner) => winner.userId))).toEqual([
+      ['alice'],
+      ['bob'],
+    ]);
+  });
+
+  it('reports fields that drifted from the history', async () => {
+    const { scenario, history } = await playAuction();
+
+    const auction = (await scenario.repositories.auctions.findById(scenario.auctionId))!;
+    auction.rounds[0].endTime = seconds(60);
+    await scenario.repositories.auctions.save(auction);
+
+    const [bid] = await scenario.repositories.bids.findByUser(scenario.auctionId, 'carol');
+    bid.amount = 15;
+    await scenario.repositories.bids.save(bid);
+
+    const report = await history.verify(scenario.auctionId);
+    expect(report.consistent).toBe(false);
+    expect(report.mismatches).toEqual([
+      { field: 'rounds[0].endTime', stored: seconds(60), replayed: seconds(66) },
+      { field: `bids[${bid._id}].amount`, stored: 15, replayed: 10 },
+    ]);
+  });
+});
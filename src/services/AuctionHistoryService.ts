@@ -0,0 +1,168 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { IAuctionHistoryEntry } from '../models/AuctionHistory';
+import defaultRepositories, { Repositories } from '../repositories';
+import { Clock, systemClock } from '../utils/clock';
+import {
+  AuctionHistoryEvent,
+  HistoryWinner,
+  ReplayedAuction,
+  replayAuction,
+} from '../utils/auctionReplay';
+
+export interface ReplayMismatch {
+  field: string; // Например "rounds[2].endTime" или "bids[<bidId>].amount"
+  stored: unknown;
+  replayed: unknown;
+}
+
+export interface ReplayReport {
+  auctionId: string;
+  generatedAt: Date;
+  events: number;
+  consistent: boolean;
+  error?: string; // Журнал не удалось применить
+  mismatches: ReplayMismatch[];
+  replayed: ReplayedAuction | null;
+}
+
+const toComparable = (value: unknown): unknown => (value instanceof Date ? value.getTime() : value);
+
+const winnersKey = (winners: HistoryWinner[]): string =>
+  JSON.stringify(
+    winners.map(({ userId, bidAmount, price, position }) => ({ userId, bidAmount, price, position }))
+  );
+
+export class AuctionHistoryService {
+  constructor(
+    private readonly clock: Clock = systemClock,
+    private readonly repositories: Repositories = defaultRepositories
+  ) {}
+
+  /**
+   * Дописать события в журнал аукциона.
+   * Запись делается в той же транзакции, что и изменение аукциона
+   */
+  async append(
+    auctionId: string,
+    events: AuctionHistoryEvent[],
+    session?: ClientSession
+  ): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const start = (await this.repositories.history.lastSequence(auctionId, session)) + 1;
+
+    await this.repositories.history.insert(
+      events.map(({ type, ...payload }, index) => ({
+        auctionId,
+        sequence: start + index,
+        type,
+        payload,
+      })),
+      session
+    );
+  }
+
+  /**
+   * Журнал аукциона по порядку
+   */
+  async getHistory(auctionId: string): Promise<IAuctionHistoryEntry[]> {
+    if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+      throw new Error('Invalid auction ID format');
+    }
+
+    return this.repositories.history.findByAuction(auctionId);
+  }
+
+  /**
+   * Восстановить состояние аукциона по журналу и сравнить его
+   * с сохранённым документом аукциона и ставками
+   */
+  async verify(auctionId: string): Promise<ReplayReport> {
+    const history = await this.getHistory(auctionId);
+    const auction = await this.repositories.auctions.findById(auctionId);
+
+    if (!auction) {
+      throw new Error('Auction not found');
+    }
+
+    const report: ReplayReport = {
+      auctionId,
+      generatedAt: this.clock.now(),
+      events: history.length,
+      consistent: false,
+      mismatches: [],
+      replayed: null,
+    };
+
+    if (history.length === 0) {
+      report.error = 'No history recorded for this auction';
+      return report;
+    }
+
+    try {
+      report.replayed = replayAuction(
+        history.map((entry) => ({ type: entry.type, ...entry.payload }) as AuctionHistoryEvent)
+      );
+    } catch (error: any) {
+      report.error = error.message;
+      return report;
+    }
+
+    const replayed = report.replayed;
+    const compare = (field: string, stored: unknown, replayedValue: unknown) => {
+      if (toComparable(stored) !== toComparable(replayedValue)) {
+        report.mismatches.push({ field, stored, replayed: replayedValue });
+      }
+    };
+
+    compare('status', auction.status, replayed.status);
+    compare('currentRound', auction.currentRound, replayed.currentRound);
+    compare('startedAt', auction.startedAt, replayed.startedAt);
+    compare('completedAt', auction.completedAt, replayed.completedAt);
+    compare('cancelledAt', auction.cancelledAt, replayed.cancelledAt);
+    compare('rounds.length', auction.rounds.length, replayed.rounds.length);
+
+    for (const [index, round] of auction.rounds.entries()) {
+      const replayedRound = replayed.rounds[index];
+      if (!replayedRound) {
+        continue;
+      }
+
+      const prefix = `rounds[${index}]`;
+      compare(`${prefix}.status`, round.status, replayedRound.status);
+      compare(`${prefix}.items`, round.items, replayedRound.items);
+      compare(`${prefix}.reservePrice`, round.reservePrice, replayedRound.reservePrice);
+      compare(`${prefix}.startTime`, round.startTime, replayedRound.startTime);
+      compare(`${prefix}.endTime`, round.endTime, replayedRound.endTime);
+      compare(`${prefix}.totalBids`, round.totalBids, replayedRound.totalBids);
+      compare(`${prefix}.clearingPrice`, round.clearingPrice, replayedRound.clearingPrice);
+      compare(`${prefix}.extensions`, round.extensions?.length ?? 0, replayedRound.extensions);
+      compare(`${prefix}.winners`, winnersKey(round.winners), winnersKey(replayedRound.winners));
+    }
+
+    const storedBids = await this.repositories.bids.findByAuction(auctionId);
+    const replayedBids = new Map(replayed.bids.map((bid) => [bid.bidId, bid]));
+    compare('bids.length', storedBids.length, replayed.bids.length);
+
+    for (const bid of storedBids) {
+      const bidId = bid._id.toString();
+      const replayedBid = replayedBids.get(bidId);
+      if (!replayedBid) {
+        report.mismatches.push({ field: `bids[${bidId}]`, stored: bid.amount, replayed: null });
+        continue;
+      }
+
+      compare(`bids[${bidId}].userId`, bid.userId, replayedBid.userId);
+      compare(`bids[${bidId}].amount`, bid.amount, replayedBid.amount);
+      compare(`bids[${bidId}].roundNumber`, bid.roundNumber, replayedBid.roundNumber);
+      compare(`bids[${bidId}].status`, bid.status, replayedBid.status);
+    }
+
+    report.consistent = report.mismatches.length === 0;
+    return report;
+  }
+}
+
+export default new AuctionHistoryService();
@@ -0,0 +1,177 @@
+/**
+ * Сценарии аукциона в AuctionSimulator: настоящий AuctionService по ручным
+ * часам поверх хранилища в памяти
+ */
+
+import { AuctionSimulator, SimulationConfig } from '../simulation/AuctionSimulator';
+
+const BALANCE = 100;
+
+const seconds = (at: number) => new Date(at * 1000);
+
+/**
+ * Запустить аукцион в момент 0; у каждого участника BALANCE на счёте
+ */
+const startScenario = (auction: Omit<SimulationConfig, 'balances'>, userIds: string[]) =>
+  AuctionSimulator.start({
+    ...auction,
+    balances: Object.fromEntries(userIds.map((userId) => [userId, BALANCE])),
+  });
+
+describe('AuctionService scenarios', () => {
+  it('stops anti-sniping extensions at maxExtension', async () => {
+    const scenario = await startScenario(
+      {
+        totalItems: 1,
+        itemsPerRound: 1,
+        roundDuration: 60,
+        minBid: 10,
+        antiSniping: { trigger: 'any_bid', triggerWindow: 10, extension: 10, maxExtension: 15 },
+      },
+      ['alice', 'bob']
+    );
+
+    const { auction, rejected } = await scenario.play([
+      { at: 0, userId: 'alice', amount: 10 },
+      { at: 55, userId: 'bob', amount: 11 },
+      { at: 62, userId: 'alice', amount: 12 },
+      { at: 70, userId: 'bob', amount: 13 },
+      { at: 74, userId: 'alice', amount: 14 },
+      { at: 76, userId: 'bob', amount: 15 },
+    ]);
+
+    const [round] = auction.rounds;
+    expect(round.extensions.map((extension) => extension.newEndTime)).toEqual([
+      seconds(65),
+      seconds(72),
+      seconds(75),
+    ]);
+    expect(round.endTime).toEqual(seconds(75));
+    expect(rejected.map((bid) => bid.error)).toEqual(['Auction is not active']);
+    expect(round.winners.map((winner) => [winner.userId, winner.price])).toEqual([['alice', 14]]);
+    expect(await scenario.account('bob')).toEqual({ available: 100, held: 0, spent: 0, refunded: 13 });
+  });
+
+  it('carries losing bids over and refunds them at the end', async () => {
+    const scenario = await startScenario(
+      { totalItems: 3, itemsPerRound: 2, roundDuration: 60, minBid: 10 },
+      ['alice', 'bob', 'carol', 'dave']
+    );
+
+    const { auction } = await scenario.play([
+      { at: 0, userId: 'alice', amount: 50 },
+      { at: 1, userId: 'bob', amount: 40 },
+      { at: 2, userId: 'carol', amount: 30 },
+      { at: 70, userId: 'dave', amount: 35 },
+    ]);
+
+    expect(auction.status).toBe('completed');
+    expect(
+      auction.rounds.flatMap((round) => round.winners.map((winner) => [round.roundNumber, winner.userId]))
+    ).toEqual([
+      [1, 'alice'],
+      [1, 'bob'],
+      [2, 'dave'],
+    ]);
+    expect(auction.rounds[1].totalBids).toBe(2);
+    expect(await scenario.refunds()).toEqual([{ userId: 'carol', amount: 30, roundNumber: 2 }]);
+    expect(auction.completedAt).toEqual(seconds(120));
+  });
+
+  it('cancels a round postponed by a blackout window', async () => {
+    const scenario = await startScenario(
+      {
+        totalItems: 2,
+        itemsPerRound: 1,
+        roundDuration: 60,
+        minBid: 10,
+        blackoutWindows: [{ start: '00:01', end: '00:05' }],
+      },
+      ['alice', 'bob']
+    );
+
+    await scenario.play(
+      [
+        { at: 0, userId: 'alice', amount: 20 },
+        { at: 1, userId: 'bob', amount: 10 },
+      ],
+      90
+    );
+    const auction = await scenario.cancel(120);
+
+    const [first, second] = auction.rounds;
+    expect(first.winners.map((winner) => winner.userId)).toEqual(['alice']);
+    expect(second.startTime).toEqual(seconds(300));
+    expect([second.status, second.endTime]).toEqual(['cancelled', seconds(120)]);
+    expect(await scenario.account('bob')).toEqual({ available: 100, held: 0, spent: 0, refunded: 10 });
+  });
+
+  it('refunds the difference to the clearing price under uniform pricing', async () => {
+    const scenario = await startScenario(
+      { totalItems: 2, itemsPerRound: 2, roundDuration: 60, minBid: 10, pricingRule: 'uniform' },
+      ['alice', 'bob', 'carol']
+    );
+
+    const { auction, rejected } = await scenario.play([
+      { at: 0, userId: 'alice', amount: 30 },
+      { at: 1, userId: 'bob', amount: 20 },
+      { at: 2, userId: 'carol', amount: 15 },
+      { at: 3, userId: 'carol', amount: 15 },
+    ]);
+
+    expect(auction.rounds[0].clearingPrice).toBe(20);
+    expect(rejected.map((bid) => bid.code)).toEqual(['NOT_HIGHER_THAN_CURRENT']);
+    expect(await scenario.account('alice')).toEqual({ available: 80, held: 0, spent: 20, refunded: 10 });
+    expect(await scenario.account('carol')).toEqual({ available: 100, held: 0, spent: 0, refunded: 15 });
+  });
+
+  it('rejects bids from a user who already won the item cap', async () => {
+    const scenario = await startScenario(
+      { totalItems: 2, itemsPerRound: 1, roundDuration: 60, minBid: 10, limits: { maxItemsPerUser: 1 } },
+      ['alice', 'bob']
+    );
+
+    const { auction, rejected } = await scenario.play([
+      { at: 0, userId: 'alice', amount: 50 },
+      { at: 1, userId: 'bob', amount: 20 },
+      { at: 70, userId: 'alice', amount: 60 },
+    ]);
+
+    expect(rejected.map((bid) => [bid.at, bid.code])).toEqual([[70, 'MAX_ITEMS_REACHED']]);
+    expect(
+      auction.rounds.flatMap((round) => round.winners.map((winner) => [round.roundNumber, winner.userId]))
+    ).toEqual([
+      [1, 'alice'],
+      [2, 'bob'],
+    ]);
+    expect(await scenario.account('alice')).toEqual({ available: 50, held: 0, spent: 50, refunded: 0 });
+  });
+
+  it('rejects bids over the bid count and spending limits', async () => {
+    const scenario = await startScenario(
+      {
+        totalItems: 1,
+        itemsPerRound: 1,
+        roundDuration: 60,
+        minBid: 10,
+        limits: { maxBidsPerUser: 2, maxSpendPerUser: 40 },
+      },
+      ['alice', 'bob']
+    );
+
+    const { auction, rejected } = await scenario.play([
+      { at: 0, userId: 'alice', amount: 10 },
+      { at: 1, userId: 'alice', amount: 20 },
+      { at: 2, userId: 'alice', amount: 30 },
+      { at: 3, userId: 'bob', amount: 50 },
+      { at: 4, userId: 'bob', amount: 15 },
+    ]);
+
+    expect(rejected.map((bid) => [bid.userId, bid.code])).toEqual([
+      ['alice', 'MAX_BIDS_REACHED'],
+      ['bob', 'MAX_SPEND_REACHED'],
+    ]);
+    expect(auction.rounds[0].winners.map((winner) => [winner.userId, winner.price])).toEqual([['alice', 20]]);
+    expect(await scenario.account('bob')).toEqual({ available: 100, held: 0, spent: 0, refunded: 15 });
+  });
+});
@@ -1,371 +1,1129 @@
-import mongoose from 'mongoose';
-import Auction, { IAuction, IBid } from '../models/Auction';
-import UserService from './UserService';
-import Transaction from '../models/Transaction';
+import mongoose, { ClientSession } from 'mongoose';
+import { IAuction, IRound } from '../models/Auction';
+import { IBid } from '../models/Bid';
+import { IProxyBid } from '../models/ProxyBid';
+import { UserService } from './UserService';
+import EventService, { DomainEvent } from './EventService';
+import { AuditService, Actor } from './AuditService';
+import { AuctionHistoryService } from './AuctionHistoryService';
 import logger from '../config/logger';
+import defaultRepositories, {
+  AuctionListRow,
+  AuctionSort,
+  AuctionStatus,
+  NewLedgerEntry,
+  Repositories,
+  auctionSortValue,
+} from '../repositories';
+import {
+  AntiSnipingPolicy,
+  planExtension,
+  resolveAntiSnipingPolicy,
+  validateAntiSnipingPolicy,
+} from '../utils/antiSniping';
+import {
+  buildRoundPlan,
+  normalizeRoundPlan,
+  planRound,
+  resolveRoundPlan,
+} from '../utils/roundPlan';
+import { PRICING_RULES, PricingRule } from '../utils/pricing';
+import { BidRules, checkBidAmount, validateBidRules } from '../utils/bidRules';
+import {
+  ParticipationLimits,
+  assertWithinLimits,
+  canWin,
+  summarizeWins,
+  validateParticipationLimits,
+} from '../utils/limits';
+import { decideRoundOutcome } from '../utils/roundOutcome';
+import { Clock, systemClock } from '../utils/clock';
+import { resolveProxyBids } from '../utils/proxyBidding';
+import { AuctionHistoryEvent, HistoryRound } from '../utils/auctionReplay';
+import { BlackoutWindow, isValidTimezone, validateBlackoutWindows } from '../utils/schedule';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
 
 export interface CreateAuctionDto {
   title: string;
   description?: string;
   totalItems: number;
-  itemsPerRound: number;
+  itemsPerRound?: number; // Обязательно, если не задан roundPlan
   roundDuration: number;
+  roundPlan?: Array<{ items: number; duration?: number }>;
   minBid: number;
+  pricingRule?: PricingRule;
+  bidRules?: BidRules;
+  limits?: ParticipationLimits;
   antiSnipingWindow?: number;
+  antiSniping?: Partial<AntiSnipingPolicy>;
+  scheduledStartAt?: Date | string;
+  timezone?: string;
+  blackoutWindows?: BlackoutWindow[];
 }
 
+export interface PlaceBidOptions {
+  idempotencyKey?: string;
+}
+
+export interface ScheduleDto {
+  scheduledStartAt: Date | string;
+  timezone?: string;
+  blackoutWindows?: BlackoutWindow[];
+}
+
+export interface ListAuctionsOptions {
+  statuses?: AuctionStatus[];
+  createdBy?: string;
+  minItems?: number;
+  maxItems?: number;
+  minBidFrom?: number;
+  minBidTo?: number;
+  endingWithin?: number; // Секунд до конца текущего раунда, не больше
+  search?: string;
+  sort?: AuctionSort;
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * Аукцион в каталоге: без раундов и ставок, но с текущим раундом,
+ * оставшимся временем и лучшей ставкой раунда
+ */
+export interface AuctionSummary extends AuctionListRow {
+  timeLeftSeconds: number | null; // Только у идущего раунда
+  topBid: number | null;
+}
+
+// Сколько позиций лидерборда отправлять в событии leaderboard_changed
+const LEADERBOARD_EVENT_SIZE = 10;
+
+/**
+ * Раунд в том виде, в каком он попадает в журнал аукциона
+ */
+const historyRound = ({
+  roundNumber,
+  items,
+  reservePrice,
+  startTime,
+  endTime,
+  status,
+  totalBids,
+}: HistoryRound): HistoryRound => ({
+  roundNumber,
+  items,
+  reservePrice,
+  startTime,
+  endTime,
+  status,
+  totalBids,
+});
+
 export class AuctionService {
+  private readonly users: UserService;
+  private readonly audit: AuditService;
+  private readonly history: AuctionHistoryService;
+
+  constructor(
+    private readonly clock: Clock = systemClock,
+    private readonly repositories: Repositories = defaultRepositories
+  ) {
+    this.users = new UserService(repositories);
+    this.audit = new AuditService(repositories);
+    this.history = new AuctionHistoryService(clock, repositories);
+  }
+
   /**
-   * Создать новый аукцион
+   * Создать новый аукцион от имени организатора
    */
-  async createAuction(data: CreateAuctionDto): Promise<IAuction> {
-    const auction = new Auction({
-      ...data,
-      antiSnipingWindow: data.antiSnipingWindow || 10,
-      status: 'draft',
-      currentRound: 1,
-      rounds: [],
-      bids: [],
+  async createAuction(data: CreateAuctionDto, actor: Actor): Promise<IAuction> {
+    this.validateSchedule(data);
+    validateAntiSnipingPolicy(data.antiSniping || {});
+
+    if (data.pricingRule !== undefined && !PRICING_RULES.includes(data.pricingRule)) {
+      throw new Error(`pricingRule must be one of: ${PRICING_RULES.join(', ')}`);
+    }
+
+    validateBidRules(data.bidRules || {});
+    validateParticipationLimits(data.limits || {});
+
+    if (!data.roundPlan && !data.itemsPerRound) {
+      throw new Error('itemsPerRound or roundPlan is required');
+    }
+
+    const roundPlan = data.roundPlan
+      ? normalizeRoundPlan(data.roundPlan, data.totalItems, data.roundDuration)
+      : buildRoundPlan(data.totalItems, data.itemsPerRound!, data.roundDuration);
+
+    const antiSniping = resolveAntiSnipingPolicy(
+      { antiSnipingWindow: data.antiSnipingWindow || 10, roundDuration: data.roundDuration },
+      data.antiSniping
+    );
+
+    const auction = await this.repositories.transaction(async (session) => {
+      const auction = await this.repositories.auctions.create({
+        ...data,
+        itemsPerRound: data.itemsPerRound ?? Math.max(...roundPlan.map((round) => round.items)),
+        roundPlan,
+        antiSnipingWindow: antiSniping.triggerWindow,
+        antiSniping,
+        status: 'draft',
+        createdBy: actor.userId,
+        currentRound: 1,
+        rounds: [],
+      }, session);
+
+      await this.audit.record(
+        actor,
+        'auction.create',
+        { type: 'auction', id: auction._id.toString() },
+        { title: auction.title },
+        session
+      );
+      await this.history.append(
+        auction._id.toString(),
+        [
+          {
+            type: 'auction_created',
+            title: auction.title,
+            totalItems: auction.totalItems,
+            createdBy: actor.userId,
+          },
+        ],
+        session
+      );
+      return auction;
     });
 
-    await auction.save();
     logger.info(`Created auction: ${auction._id}`);
+
+    if (auction.scheduledStartAt) {
+      await EventService.publish([
+        {
+          type: 'auction_scheduled',
+          auctionId: auction._id.toString(),
+          scheduledStartAt: auction.scheduledStartAt,
+        },
+      ]);
+    }
+
     return auction;
   }
 
   /**
    * Запустить аукцион
    */
-  async startAuction(auctionId: string): Promise<IAuction> {
+  async startAuction(auctionId: string, actor: Actor): Promise<IAuction> {
     if (!mongoose.Types.ObjectId.isValid(auctionId)) {
       throw new Error('Invalid auction ID format');
     }
-    
-    const auction = await Auction.findById(auctionId);
-    
-    if (!auction) {
-      throw new Error('Auction not found');
-    }
 
-    if (auction.status !== 'draft') {
-      throw new Error('Auction cannot be started');
-    }
+    const { auction, events } = await this.repositories.transaction(async (session) => {
+      const auction = await this.repositories.auctions.findById(auctionId, session);
+
+      if (!auction) {
+        throw new Error('Auction not found');
+      }
+
+      if (auction.status !== 'draft') {
+        throw new Error('Auction cannot be started');
+      }
 
-    // Создать первый раунд
-    auction.status = 'active';
-    auction.startedAt = new Date();
-    auction.currentRound = 1;
-    auction.rounds = [{
-      roundNumber: 1,
-      startTime: new Date(),
-      endTime: new Date(Date.now() + auction.roundDuration * 1000),
-      status: 'active',
-      winners: [],
-      totalBids: 0,
-    }] as any;
+      // Создать первый раунд
+      const firstRound = this.buildRound(auction, 1, 0);
+      auction.status = 'active';
+      auction.startedAt = this.clock.now();
+      auction.currentRound = 1;
+      auction.rounds = [firstRound];
+
+      await this.repositories.auctions.save(auction, session);
+      await this.audit.record(
+        actor,
+        'auction.start',
+        { type: 'auction', id: auctionId },
+        undefined,
+        session
+      );
+      await this.history.append(
+        auctionId,
+        [
+          { type: 'auction_started', startedAt: auction.startedAt },
+          { type: 'round_created', round: historyRound(firstRound) },
+        ],
+        session
+      );
+
+      const events: DomainEvent[] = [
+        { type: 'auction_started', auctionId, startedAt: auction.startedAt },
+      ];
+      // Раунд, отложенный окном блокировки, сообщит о старте при активации
+      if (firstRound.status === 'active') {
+        events.push({
+          type: 'round_started',
+          auctionId,
+          roundNumber: 1,
+          endTime: firstRound.endTime,
+        });
+        // Автоставки, заданные до старта, делают первые ставки
+        await this.runProxyBids(auction, auction.rounds[0], this.clock.now(), events, session);
+        await this.repositories.auctions.save(auction, session);
+      }
+      return { auction, events };
+    });
 
-    await auction.save();
     logger.info(`Started auction: ${auctionId}`);
+    await EventService.publish(events);
     return auction;
   }
 
   /**
-   * Разместить ставку
+   * Разместить ставку или повысить текущую ставку пользователя до amount
    */
   async placeBid(
     auctionId: string,
     userId: string,
-    amount: number
+    amount: number,
+    options: PlaceBidOptions = {}
   ): Promise<IBid> {
     if (!mongoose.Types.ObjectId.isValid(auctionId)) {
       throw new Error('Invalid auction ID format');
     }
-    
-    const auction = await Auction.findById(auctionId);
-    
-    if (!auction) {
-      throw new Error('Auction not found');
-    }
 
-    if (auction.status !== 'active') {
-      throw new Error('Auction is not active');
-    }
+    const { bid, events } = await this.repositories.transaction(async (session) => {
+      const events: DomainEvent[] = [];
+      const auction = await this.repositories.auctions.findById(auctionId, session);
 
-    if (amount < auction.minBid) {
-      throw new Error(`Bid must be at least ${auction.minBid}`);
-    }
+      if (!auction) {
+        throw new Error('Auction not found');
+      }
+
+      if (auction.status !== 'active') {
+        throw new Error('Auction is not active');
+      }
+
+      const currentRound = auction.rounds[auction.currentRound - 1];
+
+      if (!currentRound || currentRound.status !== 'active') {
+        throw new Error('Current round is not active');
+      }
+
+      // Проверить, не истёк ли раунд
+      const now = this.clock.now();
+      if (now >= currentRound.endTime) {
+        throw new Error('Round has ended');
+      }
+
+      await this.users.assertNotApplied(userId, 'bid', options.idempotencyKey, session);
+
+      const bid = await this.applyBid(auction, currentRound, userId, amount, now, events, session, {
+        idempotencyKey: options.idempotencyKey,
+      });
+      // Ставка могла вытеснить пользователей с автоставкой, и они перебивают её
+      const raised = await this.runProxyBids(auction, currentRound, now, events, session);
+
+      await this.repositories.auctions.save(auction, session);
+      return { bid: raised.find((b) => b.userId === userId) ?? bid, events };
+    });
+
+    logger.info(`Bid placed: ${userId} bid ${amount} on auction ${auctionId}`);
+    await EventService.publish(events);
+
+    return bid;
+  }
+
+  /**
+   * Применить ставку пользователя к текущему раунду: проверить правила,
+   * заблокировать средства, записать транзакцию и продлить раунд по anti-sniping.
+   * События добавляются в events, аукцион сохраняет вызывающий
+   */
+  private async applyBid(
+    auction: IAuction,
+    currentRound: IRound,
+    userId: string,
+    amount: number,
+    now: Date,
+    events: DomainEvent[],
+    session: ClientSession | undefined,
+    options: PlaceBidOptions & { proxy?: boolean } = {}
+  ): Promise<IBid> {
+    const auctionId = auction._id.toString();
+
+    // У пользователя одна живая ставка в аукционе: повторная ставка повышает её,
+    // и списывается только разница
+    const existingBid = await this.repositories.bids.findActive(auctionId, userId, session);
+
+    checkBidAmount(
+      auction.bidRules,
+      currentRound.reservePrice ?? auction.minBid,
+      amount,
+      existingBid?.amount
+    );
+    await this.checkParticipationLimits(auction, userId, amount, session);
+
+    const previousAmount = existingBid ? existingBid.amount : null;
+    const charge = existingBid ? amount - existingBid.amount : amount;
+    const antiSniping = resolveAntiSnipingPolicy(auction);
+    const roundItems = this.getRoundItems(auction, currentRound);
+    const leaderboardSize = Math.max(
+      roundItems,
+      antiSniping.topN ?? 0,
+      LEADERBOARD_EVENT_SIZE
+    );
+    const previousTop = await this.getRoundStandings(
+      auctionId,
+      auction.currentRound,
+      leaderboardSize,
+      session
+    );
 
     // Проверить баланс
-    const user = await UserService.getUserById(userId);
-    if (!user || user.balance < amount) {
+    const user = await this.users.getUserById(userId, session);
+    if (!user || user.balance < charge) {
       throw new Error('Insufficient balance');
     }
 
-    const currentRound = auction.rounds[auction.currentRound - 1];
-    
-    if (!currentRound || currentRound.status !== 'active') {
-      throw new Error('Current round is not active');
+    let bid: IBid;
+    if (existingBid) {
+      // Повышенная ставка встаёт в очередь по времени повышения
+      existingBid.amount = amount;
+      existingBid.timestamp = now;
+      bid = await this.repositories.bids.save(existingBid, session);
+    } else {
+      bid = await this.repositories.bids.create(
+        {
+          auctionId,
+          userId,
+          amount,
+          timestamp: now,
+          roundNumber: auction.currentRound,
+          placedInRound: auction.currentRound,
+          status: 'active',
+        },
+        session
+      );
+      currentRound.totalBids += 1;
     }
 
-    // Проверить, не истёк ли раунд
-    const now = new Date();
-    if (now >= currentRound.endTime) {
-      throw new Error('Round has ended');
-    }
+    // Версия аукциона увеличивается при каждой ставке, поэтому ставка
+    // не может попасть в раунд, который параллельно завершается
+    auction.increment();
+
+    const top = await this.getRoundStandings(
+      auctionId,
+      auction.currentRound,
+      leaderboardSize,
+      session
+    );
+    const winningUserIds = top.slice(0, roundItems).map((b) => b.userId);
 
-    // Создать ставку
-    const bid: IBid = {
+    events.push({
+      type: 'bid_placed',
+      auctionId,
+      roundNumber: auction.currentRound,
       userId,
       amount,
       timestamp: now,
-      roundNumber: auction.currentRound,
-    } as IBid;
+      ...(options.proxy && { proxy: true }),
+    });
+    const history: AuctionHistoryEvent[] = [
+      {
+        type: 'bid_placed',
+        roundNumber: auction.currentRound,
+        bidId: bid._id.toString(),
+        userId,
+        amount,
+        previousAmount,
+        timestamp: now,
+        ...(options.proxy && { proxy: true }),
+      },
+    ];
 
-    auction.bids.push(bid);
-    currentRound.totalBids += 1;
+    const snapshot = (bids: IBid[]) => bids.map((b, index) => ({
+      userId: b.userId,
+      amount: b.amount,
+      position: index + 1,
+    }));
+    const leaderboard = snapshot(top);
+    if (JSON.stringify(leaderboard) !== JSON.stringify(snapshot(previousTop))) {
+      events.push({
+        type: 'leaderboard_changed',
+        auctionId,
+        roundNumber: auction.currentRound,
+        leaderboard,
+      });
+    }
 
-    // Anti-sniping: продлить раунд ТОЛЬКО если ставка входит в топ
-    // По механике Telegram: "Если в топ-3 перебивают ставку, добавляется 30 секунд"
-    const timeUntilEnd = currentRound.endTime.getTime() - now.getTime();
-    const antiSnipingMs = auction.antiSnipingWindow * 1000;
-    
-    if (timeUntilEnd <= antiSnipingMs) {
-      // Проверить, входит ли ставка в топ (топ-N, где N = itemsPerRound)
-      const roundBids = auction.bids.filter(
-        (b) => b.roundNumber === auction.currentRound
-      );
-      
-      // Группировать по пользователям (максимальная ставка)
-      const userBids = new Map<string, IBid>();
-      for (const b of roundBids) {
-        const existing = userBids.get(b.userId);
-        if (!existing || b.amount > existing.amount) {
-          userBids.set(b.userId, b);
-        }
+    // Уведомить пользователей, вытесненных из топа
+    let displacedWinners = 0;
+    for (const displaced of previousTop.slice(0, roundItems)) {
+      if (displaced.userId !== userId && !winningUserIds.includes(displaced.userId)) {
+        displacedWinners += 1;
+        events.push({
+          type: 'outbid',
+          userId: displaced.userId,
+          auctionId,
+          roundNumber: auction.currentRound,
+          amount: displaced.amount,
+        });
       }
-      
-      // Отсортировать и проверить, входит ли новая ставка в топ
-      const sortedBids = Array.from(userBids.values()).sort((a, b) => {
-        if (b.amount !== a.amount) {
-          return b.amount - a.amount;
-        }
-        return a.timestamp.getTime() - b.timestamp.getTime();
+    }
+
+    // Anti-sniping: продлить раунд по политике аукциона
+    // По механике Telegram: "Если в топ-3 перебивают ставку, добавляется 30 секунд"
+    const position = top.findIndex((b) => b.userId === userId);
+    const newEndTime = planExtension(antiSniping, currentRound, {
+      at: now,
+      position: position >= 0 ? position + 1 : null,
+      displacedWinners,
+      roundItems,
+    });
+
+    if (newEndTime) {
+      const extension = {
+        at: now,
+        userId,
+        amount,
+        trigger: antiSniping.trigger,
+        previousEndTime: currentRound.endTime,
+        newEndTime,
+      };
+      currentRound.extensions.push(extension);
+      currentRound.endTime = newEndTime;
+      history.push({ type: 'round_extended', roundNumber: auction.currentRound, extension });
+      events.push({
+        type: 'round_extended',
+        auctionId,
+        roundNumber: auction.currentRound,
+        endTime: newEndTime,
+        extension,
       });
-      
-      // Проверить, входит ли ставка пользователя в топ
-      const userTopBidIndex = sortedBids.findIndex((b) => b.userId === userId);
-      if (userTopBidIndex >= 0 && userTopBidIndex < auction.itemsPerRound) {
-        // Ставка входит в топ - продлить раунд
-        // Но не продлеваем бесконечно - максимум до удвоенного времени раунда
-        const maxEndTime = new Date(currentRound.startTime.getTime() + auction.roundDuration * 2000);
-        const newEndTime = new Date(now.getTime() + antiSnipingMs);
-        
-        if (newEndTime <= maxEndTime) {
-          currentRound.endTime = newEndTime;
-          logger.info(`Extended round ${auction.currentRound} due to anti-sniping (bid in top-${auction.itemsPerRound})`);
-        } else {
-          logger.info(`Round ${auction.currentRound} reached max extension time`);
-        }
-      }
+      logger.info(
+        `Extended round ${auction.currentRound} due to anti-sniping (${antiSniping.trigger})`
+      );
     }
 
-    // Списать средства
-    await UserService.updateBalance(userId, amount, 'subtract');
-    
+    // Заблокировать средства под ставку
+    await this.users.placeHold(userId, auctionId, charge, session);
+
     // Создать транзакцию
-    await Transaction.create({
-      userId,
-      auctionId: auctionId.toString(),
-      type: 'bid',
-      amount,
-      status: 'completed',
-      bidId: bid._id?.toString(),
-      roundNumber: auction.currentRound,
-      description: `Bid on auction ${auction.title}`,
-    });
+    const label = options.proxy ? 'Proxy bid' : 'Bid';
+    await this.repositories.ledger.record(
+      [
+        {
+          userId,
+          auctionId,
+          type: existingBid ? 'bid_increase' : 'bid',
+          amount: charge,
+          status: 'completed',
+          bidId: bid._id.toString(),
+          roundNumber: auction.currentRound,
+          idempotencyKey: options.idempotencyKey,
+          description: existingBid
+            ? `${label} raised to ${amount} on auction ${auction.title}`
+            : `${label} on auction ${auction.title}`,
+        },
+      ],
+      session
+    );
+    await this.history.append(auctionId, history, session);
 
-    await auction.save();
-    logger.info(`Bid placed: ${userId} bid ${amount} on auction ${auctionId}`);
-    
     return bid;
   }
 
   /**
-   * Завершить текущий раунд и определить победителей
+   * Повысить ставки пользователей с автоставкой, вытесненных из топа раунда.
+   * Итог разыгрывается в памяти (resolveProxyBids), затем каждое повышение
+   * применяется как обычная ставка, в том числе с продлением по anti-sniping.
+   * Возвращает повышенные ставки
    */
-  async completeRound(auctionId: string): Promise<IAuction> {
-    if (!mongoose.Types.ObjectId.isValid(auctionId)) {
-      throw new Error('Invalid auction ID format');
-    }
-    
-    const auction = await Auction.findById(auctionId);
-    
-    if (!auction) {
-      throw new Error('Auction not found');
+  private async runProxyBids(
+    auction: IAuction,
+    round: IRound,
+    now: Date,
+    events: DomainEvent[],
+    session?: ClientSession
+  ): Promise<IBid[]> {
+    if (round.status !== 'active' || now >= round.endTime) {
+      return [];
     }
 
-    const currentRound = auction.rounds[auction.currentRound - 1];
-    
-    if (!currentRound || currentRound.status !== 'active') {
-      throw new Error('Current round is not active');
+    const auctionId = auction._id.toString();
+    const proxies = await this.repositories.proxyBids.findActive(auctionId, session);
+
+    if (proxies.length === 0) {
+      return [];
     }
 
-    const now = new Date();
-    if (now < currentRound.endTime) {
-      throw new Error('Round has not ended yet');
+    const standings = await this.getRoundStandings(auctionId, round.roundNumber, undefined, session);
+    const ceilings = [];
+    for (const proxy of proxies) {
+      const current = standings.find((bid) => bid.userId === proxy.userId)?.amount;
+      const ceiling = await this.getProxyCeiling(auction, proxy, current, session);
+      if (ceiling !== null) {
+        ceilings.push({ userId: proxy.userId, ceiling });
+      }
     }
 
-    // Получить все ставки текущего раунда
-    const roundBids = auction.bids.filter(
-      (bid) => bid.roundNumber === auction.currentRound
+    const raises = resolveProxyBids(
+      standings.map((bid, index) => ({ userId: bid.userId, amount: bid.amount, sequence: index })),
+      ceilings,
+      {
+        roundItems: this.getRoundItems(auction, round),
+        reserve: round.reservePrice ?? auction.minBid,
+        rules: auction.bidRules,
+      }
     );
 
-    // Группировать ставки по пользователям (брать максимальную ставку каждого пользователя)
-    const userBids = new Map<string, IBid>();
-    
-    for (const bid of roundBids) {
-      const existingBid = userBids.get(bid.userId);
-      if (!existingBid || bid.amount > existingBid.amount) {
-        userBids.set(bid.userId, bid);
+    // Повышения идут после ставки, которая их вызвала, и друг за другом:
+    // при равных суммах выше остаётся более раннее
+    const bids: IBid[] = [];
+    for (const [index, raise] of raises.entries()) {
+      const at = new Date(now.getTime() + index + 1);
+      bids.push(
+        await this.applyBid(auction, round, raise.userId, raise.amount, at, events, session, {
+          proxy: true,
+        })
+      );
+      logger.info(`Proxy bid: ${raise.userId} raised to ${raise.amount} on auction ${auctionId}`);
+    }
+
+    return bids;
+  }
+
+  /**
+   * Сумма, до которой автоставка может поднять ставку: потолок пользователя,
+   * но не больше доступных средств и лимита трат. null — повышать нельзя
+   */
+  private async getProxyCeiling(
+    auction: IAuction,
+    proxy: IProxyBid,
+    currentAmount: number | undefined,
+    session?: ClientSession
+  ): Promise<number | null> {
+    const user = await this.users.getUserById(proxy.userId, session);
+    if (!user) {
+      return null;
+    }
+
+    // Под текущую ставку средства уже заблокированы
+    let ceiling = Math.min(proxy.maxAmount, (currentAmount ?? 0) + user.balance);
+
+    const limits = auction.limits;
+    if (limits) {
+      const wins = summarizeWins(auction.rounds).get(proxy.userId);
+      if (!canWin(limits, wins, 0)) {
+        return null;
       }
+      if (limits.maxSpendPerUser !== undefined) {
+        ceiling = Math.min(ceiling, limits.maxSpendPerUser - (wins?.spent ?? 0));
+      }
+      if (
+        limits.maxBidsPerUser !== undefined &&
+        (await this.countPlacedBids(auction, proxy.userId, session)) >= limits.maxBidsPerUser
+      ) {
+        return null;
+      }
+    }
+
+    return ceiling;
+  }
+
+  /**
+   * Завершить текущий раунд и определить победителей.
+   * actor передаётся при ручном завершении через API и попадает в аудит
+   */
+  async completeRound(auctionId: string, actor?: Actor): Promise<IAuction> {
+    if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+      throw new Error('Invalid auction ID format');
     }
 
-    // Отсортировать по сумме ставки (по убыванию), затем по времени (по возрастанию)
-    const sortedBids = Array.from(userBids.values()).sort((a, b) => {
-      if (b.amount !== a.amount) {
-        return b.amount - a.amount;
+    const { auction, events } = await this.repositories.transaction(async (session) => {
+      const events: DomainEvent[] = [];
+      const auction = await this.repositories.auctions.findById(auctionId, session);
+
+      if (!auction) {
+        throw new Error('Auction not found');
       }
-      return a.timestamp.getTime() - b.timestamp.getTime();
-    });
 
-    // Определить победителей
-    const winners = sortedBids
-      .slice(0, auction.itemsPerRound)
-      .map((bid, index) => ({
-        userId: bid.userId,
-        bidAmount: bid.amount,
-        position: index + 1,
-      }));
-
-    const winnerUserIds = new Set(winners.map((w) => w.userId));
-    const winnerMaxBids = new Map<string, number>();
-    
-    // Сохранить максимальные ставки победителей
-    winners.forEach((winner) => {
-      winnerMaxBids.set(winner.userId, winner.bidAmount);
-    });
+      // Аукцион мог быть отменён параллельно (например, пока раунд ждал завершения)
+      if (auction.status !== 'active') {
+        throw new Error('Auction is not active');
+      }
+
+      const currentRound = auction.rounds[auction.currentRound - 1];
+
+      if (!currentRound || currentRound.status !== 'active') {
+        throw new Error('Current round is not active');
+      }
+
+      const now = this.clock.now();
+      if (now < currentRound.endTime) {
+        throw new Error('Round has not ended yet');
+      }
+
+      // Живые ставки раунда по убыванию суммы, при равенстве — более ранняя.
+      // У каждого пользователя не больше одной живой ставки
+      const standings = await this.getRoundStandings(
+        auctionId,
+        auction.currentRound,
+        undefined,
+        session
+      );
+
+      // Определить победителей: не больше товаров раунда и не больше,
+      // чем осталось неразыгранных товаров
+      const soldBefore = auction.rounds
+        .filter((round) => round.roundNumber !== currentRound.roundNumber)
+        .reduce((sum, round) => sum + (round.winners?.length || 0), 0);
+      const roundItems = Math.min(
+        this.getRoundItems(auction, currentRound),
+        auction.totalItems - soldBefore
+      );
+      // Перенесённые ставки ниже резервной цены раунда в нём не выигрывают.
+      // Пользователи, упёршиеся в лимиты, пропускаются, их место получает следующий
+      const { winningBids, winners, clearingPrice } = decideRoundOutcome(standings, {
+        roundItems,
+        reserve: currentRound.reservePrice ?? auction.minBid,
+        pricingRule: auction.pricingRule || 'pay_as_bid',
+        limits: auction.limits,
+        previousWins: summarizeWins(
+          auction.rounds.filter((round) => round.roundNumber !== currentRound.roundNumber)
+        ),
+      });
+
+      // По механике Telegram: "невыигравшие ставки автоматически переносятся в следующий раунд"
+      // Победители получают товар: блокировка их ставки превращается в списание
+      // Проигравшие ставки переносятся в следующий раунд (блокировка сохраняется)
+      await this.repositories.bids.setStatus(
+        winningBids.map((b) => b._id.toString()),
+        'won',
+        session
+      );
 
-    // По механике Telegram: "невыигравшие ставки автоматически переносятся в следующий раунд"
-    // Победители получают товар и их ставки списываются
-    // Проигравшие ставки переносятся в следующий раунд (не возвращаются сразу)
-    
-    // Вернуть дополнительные ставки победителей (кроме максимальной)
-    for (const bid of roundBids) {
-      if (winnerUserIds.has(bid.userId)) {
-        const maxBid = winnerMaxBids.get(bid.userId);
-        if (maxBid && bid.amount < maxBid) {
-          // Это дополнительная ставка победителя - вернуть
-          await UserService.updateBalance(bid.userId, bid.amount, 'add');
-          
-          await Transaction.create({
+      const ledgerEntries: NewLedgerEntry[] = [];
+      for (const [index, bid] of winningBids.entries()) {
+        const price = winners[index].price;
+        await this.users.captureHold(bid.userId, auctionId.toString(), price, session);
+        ledgerEntries.push({
+          userId: bid.userId,
+          auctionId: auctionId.toString(),
+          type: 'win',
+          amount: price,
+          status: 'completed',
+          bidId: bid._id.toString(),
+          roundNumber: auction.currentRound,
+          description: `Won item in round ${auction.currentRound} of auction ${auction.title}`,
+        });
+
+        // Разница между ставкой и единой ценой возвращается победителю
+        if (price < bid.amount) {
+          const difference = bid.amount - price;
+          await this.users.releaseHold(bid.userId, auctionId.toString(), difference, session);
+          ledgerEntries.push({
             userId: bid.userId,
             auctionId: auctionId.toString(),
             type: 'refund',
-            amount: bid.amount,
+            amount: difference,
             status: 'completed',
-            bidId: bid._id?.toString(),
+            bidId: bid._id.toString(),
             roundNumber: auction.currentRound,
-            description: `Refund for additional bid in round ${auction.currentRound}`,
+            description: `Refund above clearing price ${price} in round ${auction.currentRound} of auction ${auction.title}`,
           });
         }
       }
-      // Проигравшие ставки НЕ возвращаются - они переносятся в следующий раунд
-    }
 
-    // Обновить раунд
-    currentRound.status = 'completed';
-    currentRound.winners = winners;
+      await this.repositories.ledger.record(ledgerEntries, session);
 
-    // Проверить, нужно ли создать следующий раунд
-    // Считаем общее количество победителей (включая текущий раунд)
-    const totalWinners = auction.rounds.reduce(
-      (sum, round) => sum + (round.winners?.length || 0),
-      0
-    );
+      // Автоставка выигравшего пользователя выполнила свою задачу
+      await this.repositories.proxyBids.close(
+        auctionId.toString(),
+        'completed',
+        now,
+        winningBids.map((b) => b.userId),
+        session
+      );
 
-    // Проверяем, все ли товары разыграны
-    if (totalWinners < auction.totalItems) {
-      // Создать следующий раунд
-      const nextRoundNumber = auction.currentRound + 1;
-      const nextRound = {
-        roundNumber: nextRoundNumber,
-        startTime: new Date(),
-        endTime: new Date(Date.now() + auction.roundDuration * 1000),
-        status: 'active' as const,
-        winners: [],
-        totalBids: 0,
-      };
-      
-      auction.rounds.push(nextRound as any);
-      auction.currentRound = nextRoundNumber;
-      
-      // По механике Telegram: "невыигравшие ставки автоматически переносятся в следующий раунд в исходном размере"
-      for (const bid of roundBids) {
-        if (!winnerUserIds.has(bid.userId)) {
-          // Перенести ставку в следующий раунд
-          const nextRoundBid: IBid = {
-            userId: bid.userId,
-            amount: bid.amount, // В исходном размере
-            timestamp: bid.timestamp, // Сохраняем оригинальное время
-            roundNumber: nextRoundNumber,
-          } as IBid;
-          
-          auction.bids.push(nextRoundBid);
-          nextRound.totalBids += 1;
-        }
+      // Обновить раунд
+      currentRound.status = 'completed';
+      currentRound.winners = winners;
+      currentRound.clearingPrice = clearingPrice ?? undefined;
+      await this.history.append(
+        auctionId.toString(),
+        [
+          {
+            type: 'round_completed',
+            roundNumber: currentRound.roundNumber,
+            winners,
+            wonBidIds: winningBids.map((b) => b._id.toString()),
+            clearingPrice,
+          },
+        ],
+        session
+      );
+
+      for (const winner of winners) {
+        events.push({
+          type: 'won',
+          userId: winner.userId,
+          auctionId: auctionId.toString(),
+          roundNumber: currentRound.roundNumber,
+          position: winner.position,
+          amount: winner.bidAmount,
+          price: winner.price,
+        });
       }
-    } else {
-      // Аукцион завершён
-      auction.status = 'completed';
-      auction.completedAt = new Date();
-      
-      // По механике Telegram: "если предложение ни разу не вошло в топ, деньги возвращаются пользователю обратно"
-      // Вернуть деньги всем ставкам, которые ни разу не вошли в топ за все раунды
-      const allWinnerUserIds = new Set<string>();
-      auction.rounds.forEach((round) => {
-        if (round.winners) {
-          round.winners.forEach((winner) => {
-            allWinnerUserIds.add(winner.userId);
-          });
-        }
-      });
-      
-      // Вернуть деньги проигравшим ставкам, которые ни разу не вошли в топ
-      for (const bid of auction.bids) {
-        if (!allWinnerUserIds.has(bid.userId)) {
-          // Эта ставка ни разу не вошла в топ - вернуть деньги
-          await UserService.updateBalance(bid.userId, bid.amount, 'add');
-          
-          await Transaction.create({
-            userId: bid.userId,
+
+      // Проверить, нужно ли создать следующий раунд
+      // Считаем общее количество победителей (включая текущий раунд)
+      const totalWinners = auction.rounds.reduce(
+        (sum, round) => sum + (round.winners?.length || 0),
+        0
+      );
+
+      // Проверяем, все ли товары разыграны и остались ли раунды в плане
+      const nextRoundNumber = auction.currentRound + 1;
+      if (
+        totalWinners < auction.totalItems &&
+        nextRoundNumber <= resolveRoundPlan(auction).length
+      ) {
+        // Ставки пользователей, которые больше не могут выиграть из-за лимитов,
+        // возвращаются сразу, а не переносятся
+        const wins = summarizeWins(auction.rounds);
+        const cappedBids = standings.filter(
+          (bid) =>
+            !winningBids.includes(bid) && !canWin(auction.limits, wins.get(bid.userId), bid.amount)
+        );
+        await this.refundBids(
+          auction,
+          cappedBids,
+          `Refund for bid on auction ${auction.title}: participation limit reached`,
+          session
+        );
+
+        // По механике Telegram: "невыигравшие ставки автоматически переносятся в следующий раунд в исходном размере"
+        // Ставка не копируется, а переходит в следующий раунд с исходной суммой и временем
+        const carried = await this.repositories.bids.moveActive(
+          auctionId.toString(),
+          auction.currentRound,
+          nextRoundNumber,
+          session
+        );
+
+        // Товары, не нашедшие победителя, добавляются к следующему раунду
+        const nextRound = this.buildRound(
+          auction,
+          nextRoundNumber,
+          carried,
+          roundItems - winningBids.length
+        );
+        const nextRoundEndTime = nextRound.endTime;
+        auction.rounds.push(nextRound);
+        auction.currentRound = nextRoundNumber;
+
+        const carriedBids = standings.filter(
+          (bid) => !winningBids.includes(bid) && !cappedBids.includes(bid)
+        );
+        await this.history.append(
+          auctionId.toString(),
+          [
+            {
+              type: 'bids_carried_over',
+              fromRound: currentRound.roundNumber,
+              toRound: nextRoundNumber,
+              bidIds: carriedBids.map((b) => b._id.toString()),
+            },
+            { type: 'round_created', round: historyRound(nextRound) },
+          ],
+          session
+        );
+
+        events.push({
+          type: 'round_completed',
+          auctionId: auctionId.toString(),
+          roundNumber: currentRound.roundNumber,
+          winners,
+          clearingPrice: clearingPrice ?? undefined,
+          nextRound: { roundNumber: nextRoundNumber, endTime: nextRoundEndTime },
+        });
+
+        // Перенесённые ставки с автоставкой перебивают друг друга в новом раунде
+        await this.runProxyBids(
+          auction,
+          auction.rounds[auction.currentRound - 1],
+          now,
+          events,
+          session
+        );
+      } else {
+        // Аукцион завершён
+        auction.status = 'completed';
+        auction.completedAt = this.clock.now();
+
+        events.push(
+          {
+            type: 'round_completed',
             auctionId: auctionId.toString(),
-            type: 'refund',
-            amount: bid.amount,
-            status: 'completed',
-            bidId: bid._id?.toString(),
-            roundNumber: bid.roundNumber,
-            description: `Refund for bid that never entered top in auction ${auction.title}`,
-          });
-        }
+            roundNumber: currentRound.roundNumber,
+            winners,
+            clearingPrice: clearingPrice ?? undefined,
+          },
+          {
+            type: 'auction_completed',
+            auctionId: auctionId.toString(),
+            completedAt: auction.completedAt,
+          }
+        );
+
+        // По механике Telegram: "если предложение ни разу не вошло в топ, деньги возвращаются пользователю обратно"
+        // Все ставки, которые остались активными, ни разу не выиграли
+        const losingBids = await this.repositories.bids.findActiveByAuction(
+          auctionId.toString(),
+          session
+        );
+
+        await this.refundBids(
+          auction,
+          losingBids,
+          `Refund for bid that never entered top in auction ${auction.title}`,
+          session
+        );
+
+        await this.repositories.proxyBids.close(
+          auctionId.toString(),
+          'completed',
+          auction.completedAt,
+          undefined,
+          session
+        );
+        await this.history.append(
+          auctionId.toString(),
+          [{ type: 'auction_completed', completedAt: auction.completedAt }],
+          session
+        );
+      }
+
+      await this.repositories.auctions.save(auction, session);
+      if (actor) {
+        await this.audit.record(
+          actor,
+          'auction.complete_round',
+          { type: 'auction', id: auctionId },
+          { roundNumber: currentRound.roundNumber },
+          session
+        );
       }
+      logger.info(`Completed round ${currentRound.roundNumber} of auction ${auctionId}`);
+      return { auction, events };
+    });
+
+    await EventService.publish(events);
+    return auction;
+  }
+
+  /**
+   * Отменить аукцион (из черновика или активного состояния).
+   * Текущий раунд останавливается, все живые ставки, включая перенесённые
+   * из прошлых раундов, возвращаются. Товары завершённых раундов остаются
+   * за победителями. Повторная отмена ничего не делает.
+   */
+  async cancelAuction(auctionId: string, actor: Actor, reason?: string): Promise<IAuction> {
+    if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+      throw new Error('Invalid auction ID format');
     }
 
-    await auction.save();
-    logger.info(`Completed round ${currentRound.roundNumber} of auction ${auctionId}`);
-    
+    const { auction, events } = await this.repositories.transaction(async (session) => {
+      const events: DomainEvent[] = [];
+      const auction = await this.repositories.auctions.findById(auctionId, session);
+
+      if (!auction) {
+        throw new Error('Auction not found');
+      }
+
+      if (auction.status === 'cancelled') {
+        return { auction, events };
+      }
+
+      if (auction.status === 'completed') {
+        throw new Error('Completed auction cannot be cancelled');
+      }
+
+      const currentRound = auction.rounds[auction.currentRound - 1];
+      let cancelledRound: { roundNumber: number; endTime: Date } | null = null;
+      // Отложенный окном блокировки раунд тоже отменяется, иначе обработчик
+      // раундов запустил бы его в отменённом аукционе
+      if (currentRound && (currentRound.status === 'active' || currentRound.status === 'pending')) {
+        currentRound.status = 'cancelled';
+        currentRound.endTime = this.clock.now();
+        cancelledRound = { roundNumber: currentRound.roundNumber, endTime: currentRound.endTime };
+      }
+
+      const outstandingBids = await this.repositories.bids.findActiveByAuction(
+        auctionId.toString(),
+        session
+      );
+
+      await this.refundBids(
+        auction,
+        outstandingBids,
+        `Refund for cancelled auction ${auction.title}`,
+        session
+      );
+
+      await this.repositories.proxyBids.close(
+        auctionId.toString(),
+        'cancelled',
+        this.clock.now(),
+        undefined,
+        session
+      );
+
+      auction.status = 'cancelled';
+      auction.cancelledAt = this.clock.now();
+      auction.cancelledBy = actor.userId;
+      auction.cancellationReason = reason;
+      await this.history.append(
+        auctionId,
+        [
+          {
+            type: 'auction_cancelled',
+            cancelledAt: auction.cancelledAt,
+            cancelledBy: actor.userId,
+            reason,
+            cancelledRound,
+          },
+        ],
+        session
+      );
+
+      // Сохранение с проверкой версии: если обработчик раундов параллельно
+      // завершил раунд, транзакция повторится уже с новым состоянием
+      await this.repositories.auctions.save(auction, session);
+      await this.audit.record(
+        actor,
+        'auction.cancel',
+        { type: 'auction', id: auctionId },
+        { reason, refundedBids: outstandingBids.length },
+        session
+      );
+
+      events.push({
+        type: 'auction_cancelled',
+        auctionId: auctionId.toString(),
+        cancelledAt: auction.cancelledAt,
+        reason,
+      });
+
+      logger.info(`Cancelled auction ${auctionId}, refunded ${outstandingBids.length} bids`);
+      return { auction, events };
+    });
+
+    await EventService.publish(events);
+    return auction;
+  }
+
+  /**
+   * Запустить отложенный раунд, если закончилось окно блокировки
+   */
+  async activatePendingRound(auctionId: string): Promise<IAuction> {
+    const { auction, events } = await this.repositories.transaction(async (session) => {
+      const events: DomainEvent[] = [];
+      const auction = await this.repositories.auctions.findById(auctionId, session);
+
+      if (!auction) {
+        throw new Error('Auction not found');
+      }
+
+      const currentRound = auction.rounds[auction.currentRound - 1];
+      if (auction.status !== 'active' || !currentRound || currentRound.status !== 'pending') {
+        throw new Error('Current round is not pending');
+      }
+
+      if (this.clock.now() < currentRound.startTime) {
+        throw new Error('Round has not started yet');
+      }
+
+      currentRound.status = 'active';
+
+      events.push({
+        type: 'round_started',
+        auctionId: auctionId.toString(),
+        roundNumber: currentRound.roundNumber,
+        endTime: currentRound.endTime,
+      });
+
+      await this.history.append(
+        auctionId,
+        [{ type: 'round_started', roundNumber: currentRound.roundNumber }],
+        session
+      );
+      await this.runProxyBids(auction, currentRound, this.clock.now(), events, session);
+      await this.repositories.auctions.save(auction, session);
+
+      logger.info(`Started pending round ${currentRound.roundNumber} of auction ${auctionId}`);
+      return { auction, events };
+    });
+
+    await EventService.publish(events);
     return auction;
   }
 
+  /**
+   * Назначить или перенести запланированный старт черновика.
+   * Вместе со стартом можно поменять часовой пояс и окна блокировки
+   */
+  async scheduleAuction(auctionId: string, schedule: ScheduleDto, actor: Actor): Promise<IAuction> {
+    if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+      throw new Error('Invalid auction ID format');
+    }
+
+    if (!schedule.scheduledStartAt) {
+      throw new Error('scheduledStartAt is required');
+    }
+    this.validateSchedule(schedule);
+
+    return this.updateDraftSchedule(auctionId, actor, 'auction.schedule', (auction) => {
+      auction.scheduledStartAt = new Date(schedule.scheduledStartAt);
+      if (schedule.timezone !== undefined) {
+        auction.timezone = schedule.timezone;
+      }
+      if (schedule.blackoutWindows !== undefined) {
+        auction.blackoutWindows = schedule.blackoutWindows;
+      }
+    });
+  }
+
+  /**
+   * Снять запланированный старт: аукцион остаётся черновиком до ручного запуска
+   */
+  async unscheduleAuction(auctionId: string, actor: Actor): Promise<IAuction> {
+    if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+      throw new Error('Invalid auction ID format');
+    }
+
+    return this.updateDraftSchedule(auctionId, actor, 'auction.unschedule', (auction) => {
+      auction.scheduledStartAt = undefined;
+    });
+  }
+
+  /**
+   * Предстоящие аукционы с обратным отсчётом до старта
+   */
+  async getUpcomingAuctions(
+    limit: number = 50
+  ): Promise<Array<Record<string, unknown> & { startsInSeconds: number }>> {
+    const now = this.clock.now().getTime();
+    const auctions = await this.repositories.auctions.find({
+      status: 'draft',
+      scheduledAfter: new Date(now),
+      sort: 'scheduled',
+      limit,
+    });
+
+    return auctions.map((auction) => ({
+      ...auction.toJSON(),
+      startsInSeconds: Math.ceil((auction.scheduledStartAt!.getTime() - now) / 1000),
+    }));
+  }
+
   /**
    * Получить аукцион по ID
    */
@@ -373,25 +1131,69 @@ export class AuctionService {
     if (!mongoose.Types.ObjectId.isValid(auctionId)) {
       throw new Error('Invalid auction ID format');
     }
-    
-    return Auction.findById(auctionId);
+
+    return this.repositories.auctions.findById(auctionId);
   }
 
   /**
    * Получить все активные аукционы
    */
   async getActiveAuctions(): Promise<IAuction[]> {
-    return Auction.find({ status: 'active' }).sort({ createdAt: -1 });
+    return this.repositories.auctions.find({ status: 'active' });
   }
 
   /**
-   * Получить все аукционы
+   * Страница каталога аукционов с фильтрами, поиском и сортировкой.
+   * nextCursor — курсор следующей страницы (null, если страница последняя)
    */
-  async getAllAuctions(limit: number = 50): Promise<IAuction[]> {
-    return Auction.find()
-      .sort({ createdAt: -1 })
-      .limit(limit)
-      .exec();
+  async listAuctions(
+    options: ListAuctionsOptions = {}
+  ): Promise<{ items: AuctionSummary[]; nextCursor: string | null }> {
+    const sort = options.sort ?? 'newest';
+    const limit = options.limit ?? 50;
+    const after = options.cursor !== undefined ? decodeCursor(options.cursor) : undefined;
+    if (after && (after.sort !== sort || !mongoose.Types.ObjectId.isValid(after.id))) {
+      throw new Error('Invalid cursor');
+    }
+
+    const now = this.clock.now().getTime();
+    // На одну строку больше, чтобы узнать, есть ли следующая страница
+    const rows = await this.repositories.auctions.list({
+      statuses: options.statuses,
+      createdBy: options.createdBy,
+      minItems: options.minItems,
+      maxItems: options.maxItems,
+      minBidFrom: options.minBidFrom,
+      minBidTo: options.minBidTo,
+      endingBefore:
+        options.endingWithin !== undefined ? new Date(now + options.endingWithin * 1000) : undefined,
+      search: options.search,
+      sort,
+      after,
+      limit: limit + 1,
+    });
+    const page = rows.slice(0, limit);
+
+    const topBids = await this.repositories.bids.getTopBids(
+      page
+        .filter((row) => row.round && row.status === 'active')
+        .map((row) => ({ auctionId: row._id, roundNumber: row.round!.roundNumber }))
+    );
+
+    const last = page[page.length - 1];
+    return {
+      items: page.map((row) => ({
+        ...row,
+        timeLeftSeconds: row.endsAt
+          ? Math.max(0, Math.ceil((row.endsAt.getTime() - now) / 1000))
+          : null,
+        topBid: topBids.get(row._id) ?? null,
+      })),
+      nextCursor:
+        rows.length > limit
+          ? encodeCursor({ sort, value: auctionSortValue(last, sort), id: last._id })
+          : null,
+    };
   }
 
   /**
@@ -401,20 +1203,110 @@ export class AuctionService {
     if (!mongoose.Types.ObjectId.isValid(auctionId)) {
       throw new Error('Invalid auction ID format');
     }
-    
-    const auction = await Auction.findById(auctionId);
-    
-    if (!auction) {
+
+    if (!(await this.repositories.auctions.exists(auctionId))) {
       throw new Error('Auction not found');
     }
 
-    return auction.bids.filter(
-      (bid) => bid.userId === userId
+    return this.repositories.bids.findByUser(auctionId, userId);
+  }
+
+  /**
+   * Задать или изменить потолок автоставки пользователя. Пока аукцион идёт,
+   * система повышает ставку пользователя на минимальный шаг, как только его
+   * вытесняют из топа раунда, но не выше maxAmount. Потолок действует во всех
+   * следующих раундах, пока ставка не выиграет или пользователь его не отменит
+   */
+  async setProxyBid(auctionId: string, userId: string, maxAmount: number): Promise<IProxyBid> {
+    if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+      throw new Error('Invalid auction ID format');
+    }
+
+    if (typeof maxAmount !== 'number' || !(maxAmount > 0)) {
+      throw new Error('maxAmount must be a positive number');
+    }
+
+    const { proxy, events } = await this.repositories.transaction(async (session) => {
+      const events: DomainEvent[] = [];
+      const auction = await this.repositories.auctions.findById(auctionId, session);
+
+      if (!auction) {
+        throw new Error('Auction not found');
+      }
+
+      if (auction.status !== 'draft' && auction.status !== 'active') {
+        throw new Error('Auction is not accepting bids');
+      }
+
+      if (maxAmount < auction.minBid) {
+        throw new Error(`maxAmount must be at least ${auction.minBid}`);
+      }
+
+      const proxy = await this.repositories.proxyBids.upsertActive(
+        auctionId,
+        userId,
+        maxAmount,
+        session
+      );
+
+      // Автоставка сразу возвращает пользователя в топ, если потолок позволяет
+      const currentRound = auction.rounds[auction.currentRound - 1];
+      if (auction.status === 'active' && currentRound) {
+        const now = this.clock.now();
+        const raised = await this.runProxyBids(auction, currentRound, now, events, session);
+        if (raised.length > 0) {
+          await this.repositories.auctions.save(auction, session);
+        }
+      }
+
+      return { proxy, events };
+    });
+
+    logger.info(`Proxy bid set: ${userId} up to ${maxAmount} on auction ${auctionId}`);
+    await EventService.publish(events);
+    return proxy;
+  }
+
+  /**
+   * Отменить автоставку. Уже сделанные ставки остаются в силе
+   */
+  async cancelProxyBid(auctionId: string, userId: string): Promise<IProxyBid> {
+    if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+      throw new Error('Invalid auction ID format');
+    }
+
+    const cancelled = await this.repositories.proxyBids.close(
+      auctionId,
+      'cancelled',
+      this.clock.now(),
+      [userId]
     );
+
+    if (cancelled === 0) {
+      throw new Error('Proxy bid not found');
+    }
+
+    const proxy = (await this.repositories.proxyBids.findLatest(auctionId, userId))!;
+
+    logger.info(`Proxy bid cancelled: ${userId} on auction ${auctionId}`);
+    return proxy;
+  }
+
+  /**
+   * Последняя автоставка пользователя в аукционе
+   */
+  async getProxyBid(auctionId: string, userId: string): Promise<IProxyBid | null> {
+    if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+      throw new Error('Invalid auction ID format');
+    }
+
+    return this.repositories.proxyBids.findLatest(auctionId, userId);
   }
 
   /**
-   * Получить топ ставок раунда
+   * Получить топ ставок раунда.
+   * Для завершённого раунда в таблице остаются только выигравшие ставки:
+   * проигравшие к этому моменту перенесены в следующий раунд.
    */
   async getRoundLeaderboard(
     auctionId: string,
@@ -423,41 +1315,211 @@ export class AuctionService {
     if (!mongoose.Types.ObjectId.isValid(auctionId)) {
       throw new Error('Invalid auction ID format');
     }
-    
-    const auction = await Auction.findById(auctionId);
-    
-    if (!auction) {
+
+    if (!(await this.repositories.auctions.exists(auctionId))) {
       throw new Error('Auction not found');
     }
 
-    const roundBids = auction.bids.filter(
-      (bid) => bid.roundNumber === roundNumber
+    const standings = await this.getRoundStandings(auctionId, roundNumber);
+
+    return standings.map((bid) => ({
+      userId: bid.userId,
+      amount: bid.amount,
+      timestamp: bid.timestamp,
+    }));
+  }
+
+  /**
+   * Ставки раунда, отсортированные по убыванию суммы
+   * (при равенстве — более ранняя ставка выше)
+   */
+  private async getRoundStandings(
+    auctionId: string,
+    roundNumber: number,
+    limit?: number,
+    session?: ClientSession
+  ): Promise<IBid[]> {
+    return this.repositories.bids.getStandings(auctionId.toString(), roundNumber, limit, session);
+  }
+
+  /**
+   * Создать раунд. Если сейчас действует окно блокировки, раунд создаётся
+   * в статусе pending и начинается после окончания окна
+   */
+  private buildRound(
+    auction: IAuction,
+    roundNumber: number,
+    totalBids: number,
+    unsoldItems: number = 0
+  ) {
+    return planRound(auction, roundNumber, totalBids, unsoldItems, this.clock.now());
+  }
+
+  /**
+   * Проверить лимиты участия пользователя перед ставкой amount
+   */
+  private async checkParticipationLimits(
+    auction: IAuction,
+    userId: string,
+    amount: number,
+    session?: ClientSession
+  ): Promise<void> {
+    const limits = auction.limits;
+    if (!limits) {
+      return;
+    }
+
+    const placed = limits.maxBidsPerUser !== undefined
+      ? await this.countPlacedBids(auction, userId, session)
+      : 0;
+    assertWithinLimits(limits, summarizeWins(auction.rounds).get(userId), amount, placed);
+  }
+
+  /**
+   * Сколько ставок и повышений пользователь сделал в аукционе
+   */
+  private async countPlacedBids(
+    auction: IAuction,
+    userId: string,
+    session?: ClientSession
+  ): Promise<number> {
+    return this.repositories.ledger.countBids(auction._id.toString(), userId, session);
+  }
+
+  /**
+   * Сколько товаров разыгрывается в раунде. У раундов, созданных до появления
+   * плана, число берётся из плана, выведенного из параметров аукциона
+   */
+  private getRoundItems(auction: IAuction, round: IRound): number {
+    return (
+      round.items ??
+      resolveRoundPlan(auction)[round.roundNumber - 1]?.items ??
+      auction.itemsPerRound
     );
+  }
 
-    // Группировать по пользователям и брать максимальную ставку
-    const userBids = new Map<string, IBid>();
-    
-    for (const bid of roundBids) {
-      const existingBid = userBids.get(bid.userId);
-      if (!existingBid || bid.amount > existingBid.amount) {
-        userBids.set(bid.userId, bid);
+  /**
+   * Проверить расписание: старт в будущем, известный часовой пояс, корректные окна
+   */
+  private validateSchedule(schedule: {
+    scheduledStartAt?: Date | string;
+    timezone?: string;
+    blackoutWindows?: BlackoutWindow[];
+  }): void {
+    if (schedule.scheduledStartAt !== undefined) {
+      const startAt = new Date(schedule.scheduledStartAt);
+      if (isNaN(startAt.getTime())) {
+        throw new Error('Invalid scheduledStartAt');
+      }
+      if (startAt <= this.clock.now()) {
+        throw new Error('scheduledStartAt must be in the future');
       }
     }
 
-    return Array.from(userBids.values())
-      .sort((a, b) => {
-        if (b.amount !== a.amount) {
-          return b.amount - a.amount;
-        }
-        return a.timestamp.getTime() - b.timestamp.getTime();
-      })
-      .map((bid) => ({
+    if (schedule.timezone !== undefined && !isValidTimezone(schedule.timezone)) {
+      throw new Error(`Unknown timezone: ${schedule.timezone}`);
+    }
+
+    if (schedule.blackoutWindows !== undefined) {
+      validateBlackoutWindows(schedule.blackoutWindows);
+    }
+  }
+
+  /**
+   * Изменить расписание черновика в транзакции с записью в аудит
+   */
+  private async updateDraftSchedule(
+    auctionId: string,
+    actor: Actor,
+    action: string,
+    apply: (auction: IAuction) => void
+  ): Promise<IAuction> {
+    const auction = await this.repositories.transaction(async (session) => {
+      const auction = await this.repositories.auctions.findById(auctionId, session);
+
+      if (!auction) {
+        throw new Error('Auction not found');
+      }
+
+      if (auction.status !== 'draft') {
+        throw new Error('Only draft auctions can be rescheduled');
+      }
+
+      apply(auction);
+      await this.repositories.auctions.save(auction, session);
+      await this.audit.record(
+        actor,
+        action,
+        { type: 'auction', id: auctionId },
+        { scheduledStartAt: auction.scheduledStartAt },
+        session
+      );
+      return auction;
+    });
+
+    await EventService.publish([
+      {
+        type: 'auction_scheduled',
+        auctionId,
+        scheduledStartAt: auction.scheduledStartAt ?? null,
+      },
+    ]);
+    return auction;
+  }
+
+  /**
+   * Вернуть средства по ставкам и пометить их возвращёнными
+   */
+  private async refundBids(
+    auction: IAuction,
+    bids: IBid[],
+    description: string,
+    session?: ClientSession
+  ): Promise<void> {
+    if (bids.length === 0) {
+      return;
+    }
+
+    for (const bid of bids) {
+      await this.users.releaseHold(bid.userId, auction._id.toString(), bid.amount, session);
+    }
+
+    await this.repositories.ledger.record(
+      bids.map((bid) => ({
         userId: bid.userId,
+        auctionId: auction._id.toString(),
+        type: 'refund',
         amount: bid.amount,
-        timestamp: bid.timestamp,
-      }));
+        status: 'completed',
+        bidId: bid._id.toString(),
+        roundNumber: bid.roundNumber,
+        description,
+      })),
+      session
+    );
+
+    await this.repositories.bids.setStatus(
+      bids.map((b) => b._id.toString()),
+      'refunded',
+      session
+    );
+
+    await this.history.append(
+      auction._id.toString(),
+      [
+        {
+          type: 'bids_refunded',
+          reason: description,
+          bids: bids.map((bid) => ({
+            bidId: bid._id.toString(),
+            userId: bid.userId,
+            amount: bid.amount,
+          })),
+        },
+      ],
+      session
+    );
   }
 }
 
 export default new AuctionService();
-
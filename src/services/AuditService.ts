@@ -0,0 +1,69 @@
+import { ClientSession } from 'mongoose';
+import { IAuditLog } from '../models/AuditLog';
+import { UserRole } from '../models/User';
+import defaultRepositories, { Repositories } from '../repositories';
+
+/**
+ * Пользователь, выполняющий привилегированное действие
+ */
+export interface Actor {
+  userId: string;
+  role: UserRole;
+}
+
+// Исполнитель автоматических действий (запуск по расписанию и т.п.)
+export const SYSTEM_ACTOR: Actor = { userId: 'system', role: 'admin' };
+
+export interface AuditFilter {
+  actorId?: string;
+  targetType?: 'auction' | 'user';
+  targetId?: string;
+  action?: string;
+  limit?: number;
+}
+
+export class AuditService {
+  constructor(private readonly repositories: Repositories = defaultRepositories) {}
+
+  /**
+   * Записать действие в журнал аудита.
+   * Запись делается в той же транзакции, что и само действие
+   */
+  async record(
+    actor: Actor,
+    action: string,
+    target: { type: 'auction' | 'user'; id: string },
+    details?: Record<string, unknown>,
+    session?: ClientSession
+  ): Promise<void> {
+    await this.repositories.audit.create(
+      {
+        actorId: actor.userId,
+        actorRole: actor.role,
+        action,
+        targetType: target.type,
+        targetId: target.id,
+        details,
+      },
+      session
+    );
+  }
+
+  /**
+   * Получить записи журнала аудита
+   */
+  async getEntries(filter: AuditFilter = {}): Promise<IAuditLog[]> {
+    const { limit = 100, ...conditions } = filter;
+    const query: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(conditions)) {
+      if (value !== undefined) {
+        query[key] = value;
+      }
+    }
+
+    return this.repositories.audit.find(query, limit);
+  }
+}
+
+export default new AuditService();
@@ -0,0 +1,174 @@
+import { EventBroker, LocalEventBroker, createEventBroker } from '../config/eventBroker';
+import logger from '../config/logger';
+import defaultRepositories, { StorageBackend } from '../repositories';
+import { RoundExtension } from '../utils/antiSniping';
+import { systemClock } from '../utils/clock';
+
+export interface LeaderboardSnapshotEntry {
+  userId: string;
+  amount: number;
+  position: number;
+}
+
+/**
+ * События канала аукциона
+ */
+export type AuctionEvent =
+  | {
+      type: 'bid_placed';
+      auctionId: string;
+      roundNumber: number;
+      userId: string;
+      amount: number;
+      timestamp: Date;
+      proxy?: boolean; // Ставку повысила автоставка пользователя
+    }
+  | {
+      type: 'leaderboard_changed';
+      auctionId: string;
+      roundNumber: number;
+      leaderboard: LeaderboardSnapshotEntry[];
+    }
+  | {
+      type: 'round_started';
+      auctionId: string;
+      roundNumber: number;
+      endTime: Date;
+    }
+  | {
+      type: 'round_extended';
+      auctionId: string;
+      roundNumber: number;
+      endTime: Date;
+      extension: RoundExtension; // Кто и какой ставкой продлил раунд
+    }
+  | {
+      type: 'round_completed';
+      auctionId: string;
+      roundNumber: number;
+      winners: Array<{ userId: string; bidAmount: number; price: number; position: number }>;
+      clearingPrice?: number; // Единая цена раунда при правилах uniform и second_price
+      nextRound?: { roundNumber: number; endTime: Date };
+    }
+  | {
+      type: 'auction_scheduled';
+      auctionId: string;
+      scheduledStartAt: Date | null;
+    }
+  | {
+      type: 'auction_started';
+      auctionId: string;
+      startedAt: Date;
+    }
+  | {
+      type: 'auction_completed';
+      auctionId: string;
+      completedAt: Date;
+    }
+  | {
+      type: 'auction_cancelled';
+      auctionId: string;
+      cancelledAt: Date;
+      reason?: string;
+    };
+
+/**
+ * События личного канала пользователя
+ */
+export type UserEvent =
+  | {
+      type: 'outbid';
+      userId: string;
+      auctionId: string;
+      roundNumber: number;
+      amount: number;
+    }
+  | {
+      type: 'won';
+      userId: string;
+      auctionId: string;
+      roundNumber: number;
+      position: number;
+      amount: number; // Ставка победителя
+      price: number; // Сколько он заплатил
+    };
+
+export type DomainEvent = AuctionEvent | UserEvent;
+
+export class EventService {
+  private broker: EventBroker = new LocalEventBroker();
+
+  /**
+   * Запустить брокер событий (тип берётся из EVENT_BROKER, по умолчанию local)
+   * для хранилища backend
+   */
+  async start(backend: StorageBackend = defaultRepositories.backend): Promise<void> {
+    this.broker = createEventBroker(systemClock, backend);
+    await this.broker.start();
+  }
+
+  /**
+   * Доходят ли события этого экземпляра до подписчиков на других экземплярах
+   */
+  get shared(): boolean {
+    return this.broker.shared;
+  }
+
+  /**
+   * Остановить брокер событий
+   */
+  async stop(): Promise<void> {
+    await this.broker.stop();
+  }
+
+  /**
+   * Опубликовать события. Вызывается после фиксации транзакции,
+   * ошибки доставки не влияют на результат операции
+   */
+  async publish(events: DomainEvent[]): Promise<void> {
+    for (const event of events) {
+      try {
+        await this.broker.publish(this.channelFor(event), event);
+      } catch (error: any) {
+        logger.error(`Failed to publish ${event.type} event:`, error);
+      }
+    }
+  }
+
+  /**
+   * Подписаться на события аукциона
+   */
+  subscribeToAuction(auctionId: string, handler: (event: AuctionEvent) => void): () => void {
+    return this.broker.subscribe(`auction:${auctionId}`, handler);
+  }
+
+  /**
+   * Подписаться на события всех аукционов (например, для планировщика раундов)
+   */
+  subscribeToAllAuctions(handler: (event: AuctionEvent) => void): () => void {
+    return this.broker.subscribeAll<DomainEvent>((channel, payload) => {
+      if (channel.startsWith('auction:')) {
+        handler(payload as AuctionEvent);
+      }
+    });
+  }
+
+  /**
+   * Подписаться на личные события пользователя
+   */
+  subscribeToUser(userId: string, handler: (event: UserEvent) => void): () => void {
+    return this.broker.subscribe(`user:${userId}`, handler);
+  }
+
+  private channelFor(event: DomainEvent): string {
+    switch (event.type) {
+      case 'outbid':
+      case 'won':
+        return `user:${event.userId}`;
+      default:
+        return `auction:${event.auctionId}`;
+    }
+  }
+}
+
+export default new EventService();
@@ -0,0 +1,228 @@
+import { SYSTEM_ACCOUNTS, TransactionType } from '../models/Transaction';
+import defaultRepositories, { Repositories } from '../repositories';
+import { Clock, systemClock } from '../utils/clock';
+
+// Допустимое расхождение из-за сложения дробных сумм
+const DRIFT_EPSILON = 1e-6;
+
+export interface AccountBalance {
+  account: string;
+  debit: number;
+  credit: number;
+  balance: number; // debit - credit
+}
+
+export interface UserDrift {
+  userId: string;
+  expectedAvailable: number;
+  actualAvailable: number;
+  expectedHeld: number;
+  actualHeld: number;
+  availableDrift: number; // actual - expected
+  heldDrift: number;
+}
+
+export interface AuctionDrift {
+  auctionId: string;
+  ledgerHeld: number; // Заблокировано по журналу: ставки - возвраты - выигрыши
+  userHolds: number; // Сумма блокировок в балансах пользователей
+  activeBids: number; // Сумма живых ставок
+}
+
+export interface InvariantCheck {
+  name: string;
+  ok: boolean;
+  details?: Record<string, unknown>;
+}
+
+export interface ReconciliationReport {
+  generatedAt: Date;
+  ok: boolean;
+  totals: {
+    moneyIn: number; // Все пополнения
+    available: number;
+    held: number;
+    spent: number; // Оплаченные выигрыши
+  };
+  accounts: AccountBalance[];
+  invariants: InvariantCheck[];
+  users: UserDrift[];
+  auctions: AuctionDrift[];
+}
+
+type TypeTotals = Partial<Record<TransactionType, number>>;
+
+const differs = (a: number, b: number): boolean => Math.abs(a - b) > DRIFT_EPSILON;
+
+/**
+ * Ожидаемые доступные и заблокированные средства по суммам операций
+ */
+const expectedFunds = (totals: TypeTotals): { available: number; held: number } => {
+  const deposits = totals.deposit || 0;
+  const bids = (totals.bid || 0) + (totals.bid_increase || 0);
+  const refunds = totals.refund || 0;
+  const wins = totals.win || 0;
+
+  return {
+    available: deposits - bids + refunds,
+    held: bids - refunds - wins,
+  };
+};
+
+export class LedgerService {
+  constructor(
+    private readonly clock: Clock = systemClock,
+    private readonly repositories: Repositories = defaultRepositories
+  ) {}
+
+  /**
+   * Сверить балансы пользователей с журналом операций.
+   * В отчёт попадают только пользователи и аукционы с расхождениями
+   */
+  async reconcile(): Promise<ReconciliationReport> {
+    const [byUser, byAuction, accounts, users, activeByAuction] = await Promise.all([
+      this.sumByType('userId'),
+      this.sumByType('auctionId'),
+      this.getTrialBalance(),
+      this.repositories.users.findBalances(),
+      this.repositories.bids.sumActive(),
+    ]);
+
+    // Расхождения по пользователям
+    const userDrifts: UserDrift[] = [];
+    const seenUsers = new Set<string>();
+    const holdsByAuction = new Map<string, number>();
+
+    for (const user of users) {
+      seenUsers.add(user.userId);
+      const expected = expectedFunds(byUser.get(user.userId) || {});
+      const actualHeld = user.held || 0;
+
+      for (const hold of user.holds || []) {
+        holdsByAuction.set(hold.auctionId, (holdsByAuction.get(hold.auctionId) || 0) + hold.amount);
+      }
+
+      if (differs(user.balance, expected.available) || differs(actualHeld, expected.held)) {
+        userDrifts.push({
+          userId: user.userId,
+          expectedAvailable: expected.available,
+          actualAvailable: user.balance,
+          expectedHeld: expected.held,
+          actualHeld,
+          availableDrift: user.balance - expected.available,
+          heldDrift: actualHeld - expected.held,
+        });
+      }
+    }
+
+    // Операции пользователей, которых нет в коллекции User
+    for (const [userId, totals] of byUser) {
+      if (seenUsers.has(userId)) continue;
+      const expected = expectedFunds(totals);
+      userDrifts.push({
+        userId,
+        expectedAvailable: expected.available,
+        actualAvailable: 0,
+        expectedHeld: expected.held,
+        actualHeld: 0,
+        availableDrift: -expected.available,
+        heldDrift: -expected.held,
+      });
+    }
+
+    // Расхождения по аукционам
+    const auctionIds = new Set([
+      ...[...byAuction.keys()].filter((id) => id !== 'deposit'),
+      ...holdsByAuction.keys(),
+      ...activeByAuction.keys(),
+    ]);
+    const auctionDrifts: AuctionDrift[] = [];
+
+    for (const auctionId of auctionIds) {
+      const ledgerHeld = expectedFunds(byAuction.get(auctionId) || {}).held;
+      const userHolds = holdsByAuction.get(auctionId) || 0;
+      const active = activeByAuction.get(auctionId) || 0;
+
+      if (differs(ledgerHeld, userHolds) || differs(ledgerHeld, active)) {
+        auctionDrifts.push({ auctionId, ledgerHeld, userHolds, activeBids: active });
+      }
+    }
+
+    // Глобальные инварианты
+    const accountBalance = (account: string) =>
+      accounts.find((entry) => entry.account === account)?.balance || 0;
+    const totals = {
+      moneyIn: -accountBalance(SYSTEM_ACCOUNTS.external),
+      available: users.reduce((sum, user) => sum + user.balance, 0),
+      held: users.reduce((sum, user) => sum + (user.held || 0), 0),
+      spent: accountBalance(SYSTEM_ACCOUNTS.revenue),
+    };
+    const negative = users.filter((user) => user.balance < 0 || (user.held || 0) < 0);
+    const postingsTotal = accounts.reduce((sum, entry) => sum + entry.balance, 0);
+    const accountedFor = totals.available + totals.held + totals.spent;
+
+    const invariants: InvariantCheck[] = [
+      {
+        name: 'no_negative_balances',
+        ok: negative.length === 0,
+        details: negative.length ? { userIds: negative.map((user) => user.userId) } : undefined,
+      },
+      {
+        name: 'money_in_equals_held_spent_available',
+        ok: !differs(totals.moneyIn, accountedFor),
+        details: { moneyIn: totals.moneyIn, accountedFor },
+      },
+      {
+        name: 'escrow_equals_held',
+        ok: !differs(accountBalance(SYSTEM_ACCOUNTS.escrow), totals.held),
+        details: { escrow: accountBalance(SYSTEM_ACCOUNTS.escrow), held: totals.held },
+      },
+      {
+        name: 'postings_balanced',
+        ok: !differs(postingsTotal, 0),
+        details: { total: postingsTotal },
+      },
+    ];
+
+    return {
+      generatedAt: this.clock.now(),
+      ok:
+        invariants.every((check) => check.ok) &&
+        userDrifts.length === 0 &&
+        auctionDrifts.length === 0,
+      totals,
+      accounts,
+      invariants,
+      users: userDrifts,
+      auctions: auctionDrifts,
+    };
+  }
+
+  /**
+   * Оборотно-сальдовая ведомость: дебет, кредит и сальдо каждого счёта
+   */
+  async getTrialBalance(): Promise<AccountBalance[]> {
+    const turnover = await this.repositories.ledger.turnover();
+
+    return turnover
+      .map(({ account, debit, credit }) => ({ account, debit, credit, balance: debit - credit }))
+      .sort((a, b) => a.account.localeCompare(b.account));
+  }
+
+  /**
+   * Суммы завершённых операций по типам, сгруппированные по полю
+   */
+  private async sumByType(field: 'userId' | 'auctionId'): Promise<Map<string, TypeTotals>> {
+    const rows = await this.repositories.ledger.sumByType(field);
+
+    const result = new Map<string, TypeTotals>();
+    for (const row of rows) {
+      const totals = result.get(row.key) || {};
+      totals[row.type] = row.amount;
+      result.set(row.key, totals);
+    }
+    return result;
+  }
+}
+
+export default new LedgerService();
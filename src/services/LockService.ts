@@ -0,0 +1,56 @@
+import os from 'os';
+import crypto from 'crypto';
+import { ILock } from '../models/Lock';
+import defaultRepositories, { Repositories } from '../repositories';
+import { Clock, systemClock } from '../utils/clock';
+
+export class LockService {
+  // Идентификатор текущего экземпляра сервера
+  readonly instanceId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+
+  constructor(
+    private readonly clock: Clock = systemClock,
+    private readonly repositories: Repositories = defaultRepositories
+  ) {}
+
+  /**
+   * Захватить или продлить блокировку на ttlMs.
+   * Удаётся, если блокировка свободна, просрочена или уже принадлежит этому экземпляру
+   */
+  async acquire(name: string, ttlMs: number, owner: string = this.instanceId): Promise<boolean> {
+    const now = this.clock.now();
+    return this.repositories.locks.acquire(name, owner, now, new Date(now.getTime() + ttlMs));
+  }
+
+  /**
+   * Освободить блокировку, если она принадлежит владельцу
+   */
+  async release(name: string, owner: string = this.instanceId): Promise<void> {
+    await this.repositories.locks.release(name, owner);
+  }
+
+  /**
+   * Текущий владелец блокировки или null, если она свободна или просрочена
+   */
+  async getHolder(name: string): Promise<ILock | null> {
+    return this.repositories.locks.findHolder(name, this.clock.now());
+  }
+
+  /**
+   * Выполнить fn под блокировкой. Если блокировку держит другой экземпляр,
+   * fn не вызывается и возвращается null
+   */
+  async withLock<T>(name: string, ttlMs: number, fn: () => Promise<T>): Promise<T | null> {
+    if (!(await this.acquire(name, ttlMs))) {
+      return null;
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await this.release(name);
+    }
+  }
+}
+
+export default new LockService();
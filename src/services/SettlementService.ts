@@ -0,0 +1,38 @@
+import mongoose from 'mongoose';
+import defaultRepositories, { Repositories } from '../repositories';
+import { Clock, systemClock } from '../utils/clock';
+import { SettlementReport, buildSettlement } from '../utils/settlement';
+
+export class SettlementService {
+  constructor(
+    private readonly clock: Clock = systemClock,
+    private readonly repositories: Repositories = defaultRepositories
+  ) {}
+
+  /**
+   * Отчёт о расчётах по завершённому или отменённому аукциону
+   */
+  async getSettlement(auctionId: string): Promise<SettlementReport> {
+    if (!mongoose.Types.ObjectId.isValid(auctionId)) {
+      throw new Error('Invalid auction ID format');
+    }
+
+    const auction = await this.repositories.auctions.findById(auctionId);
+    if (!auction) {
+      throw new Error('Auction not found');
+    }
+    // Пока аукцион идёт, ставки ещё не рассчитаны
+    if (auction.status !== 'completed' && auction.status !== 'cancelled') {
+      throw new Error('Auction is not finished');
+    }
+
+    const [bids, transactions] = await Promise.all([
+      this.repositories.bids.findByAuction(auctionId),
+      this.repositories.ledger.findByAuction(auctionId),
+    ]);
+
+    return buildSettlement(auction, bids, transactions, this.clock.now());
+  }
+}
+
+export default new SettlementService();
@@ -1,21 +1,126 @@
-import User, { IUser } from '../models/User';
-import Transaction from '../models/Transaction';
+import mongoose, { ClientSession } from 'mongoose';
+import { IHold, IUser, UserRole } from '../models/User';
+import { IdempotentOperation, ITransaction, TransactionType, availableDelta } from '../models/Transaction';
 import logger from '../config/logger';
+import defaultRepositories, {
+  LedgerQuery,
+  LedgerTotalsRow,
+  Repositories,
+  matchesLedgerQuery,
+} from '../repositories';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { RequestAlreadyAppliedError } from '../utils/errors';
+import { AuditService, Actor } from './AuditService';
+
+// Начальный баланс для демо
+const INITIAL_BALANCE = 1000;
+
+export interface BalanceSummary {
+  available: number;
+  held: number;
+  total: number;
+  holds: IHold[];
+}
+
+export type TransactionFilters = Omit<LedgerQuery, 'userId'>;
+
+/**
+ * Операция в истории и выгрузке
+ */
+export interface TransactionRow {
+  id: string;
+  userId: string;
+  auctionId: string;
+  type: TransactionType;
+  status: ITransaction['status'];
+  amount: number;
+  roundNumber?: number;
+  bidId?: string;
+  description?: string;
+  createdAt: Date;
+  balanceAfter: number; // Доступные средства пользователя сразу после операции
+}
+
+export interface TransactionTotals {
+  count: number;
+  byType: Partial<Record<TransactionType, { count: number; amount: number }>>;
+  netChange: number; // Изменение доступных средств от завершённых операций
+}
+
+const toRow = (transaction: ITransaction, balanceAfter: number): TransactionRow => ({
+  id: transaction._id.toString(),
+  userId: transaction.userId,
+  auctionId: transaction.auctionId,
+  type: transaction.type,
+  status: transaction.status,
+  amount: transaction.amount,
+  roundNumber: transaction.roundNumber,
+  bidId: transaction.bidId,
+  description: transaction.description,
+  createdAt: transaction.createdAt,
+  balanceAfter,
+});
+
+// Доступные средства меняют только завершённые операции
+const balanceChange = (transaction: Pick<ITransaction, 'type' | 'status' | 'amount'>): number =>
+  transaction.status === 'completed' ? availableDelta(transaction.type, transaction.amount) : 0;
+
+const summarize = (rows: LedgerTotalsRow[]): TransactionTotals => {
+  const totals: TransactionTotals = { count: 0, byType: {}, netChange: 0 };
+  for (const row of rows) {
+    const byType = totals.byType[row.type] ?? { count: 0, amount: 0 };
+    byType.count += row.count;
+    byType.amount += row.amount;
+    totals.byType[row.type] = byType;
+    totals.count += row.count;
+    totals.netChange += balanceChange(row);
+  }
+  return totals;
+};
 
 export class UserService {
+  private readonly audit: AuditService;
+
+  constructor(private readonly repositories: Repositories = defaultRepositories) {
+    this.audit = new AuditService(repositories);
+  }
+
   /**
-   * Создать или получить пользователя
+   * Создать или получить пользователя.
+   * Если username изменился в Telegram, он обновляется
    */
   async getOrCreateUser(userId: string, username?: string): Promise<IUser> {
-    let user = await User.findOne({ userId });
+    let user = await this.repositories.users.findByUserId(userId);
+    
+    if (user && username && user.username !== username) {
+      user.username = username;
+      await this.repositories.users.save(user);
+    }
     
     if (!user) {
-      user = new User({
-        userId,
-        username,
-        balance: 1000, // Начальный баланс для демо
+      user = await this.repositories.transaction(async (session) => {
+        const created = await this.repositories.users.create(
+          { userId, username, balance: INITIAL_BALANCE },
+          session
+        );
+
+        // Стартовый баланс проводится как пополнение, чтобы сходилась сверка
+        await this.repositories.ledger.record(
+          [
+            {
+              userId,
+              auctionId: 'deposit',
+              type: 'deposit',
+              amount: INITIAL_BALANCE,
+              status: 'completed',
+              description: 'Initial demo balance',
+            },
+          ],
+          session
+        );
+
+        return created;
       });
-      await user.save();
       logger.info(`Created new user: ${userId}`);
     }
     
@@ -25,75 +130,328 @@ export class UserService {
   /**
    * Получить пользователя по ID
    */
-  async getUserById(userId: string): Promise<IUser | null> {
-    return User.findOne({ userId });
+  async getUserById(userId: string, session?: ClientSession): Promise<IUser | null> {
+    return this.repositories.users.findByUserId(userId, session);
   }
 
   /**
-   * Обновить баланс пользователя
+   * Обновить баланс пользователя.
+   * Проверка и изменение баланса выполняются одной атомарной операцией,
+   * поэтому конкурентные списания не могут увести баланс в минус.
    */
   async updateBalance(
     userId: string,
     amount: number,
-    type: 'add' | 'subtract'
+    type: 'add' | 'subtract',
+    session?: ClientSession
   ): Promise<IUser | null> {
-    const user = await User.findOne({ userId });
-    
+    const delta = type === 'add' ? amount : -amount;
+    const user = await this.repositories.users.incrementBalance(userId, delta, session);
+
     if (!user) {
-      throw new Error('User not found');
+      const exists = await this.repositories.users.exists(userId, session);
+      throw new Error(exists ? 'Insufficient balance' : 'User not found');
     }
 
-    if (type === 'subtract' && user.balance < amount) {
-      throw new Error('Insufficient balance');
-    }
+    return user;
+  }
 
-    user.balance = type === 'add' 
-      ? user.balance + amount 
-      : user.balance - amount;
+  /**
+   * Назначить роль пользователю (только администратор)
+   */
+  async setRole(userId: string, role: UserRole, actor: Actor): Promise<IUser> {
+    await this.getOrCreateUser(userId);
+
+    return this.repositories.transaction(async (session) => {
+      const user = await this.repositories.users.findByUserId(userId, session);
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      const previousRole = user.role;
+      user.role = role;
+      await this.repositories.users.save(user, session);
+
+      await this.audit.record(
+        actor,
+        'user.set_role',
+        { type: 'user', id: userId },
+        { previousRole, role },
+        session
+      );
+
+      logger.info(`User ${userId} role changed from ${previousRole} to ${role} by ${actor.userId}`);
+      return user;
+    });
+  }
+
+  /**
+   * Заблокировать средства под ставку в аукционе: доступный баланс
+   * уменьшается, блокировка по аукциону увеличивается
+   */
+  async placeHold(
+    userId: string,
+    auctionId: string,
+    amount: number,
+    session?: ClientSession
+  ): Promise<IUser> {
+    const user = await this.repositories.users.addHold(userId, auctionId, amount, session);
+
+    if (!user) {
+      const exists = await this.repositories.users.exists(userId, session);
+      throw new Error(exists ? 'Insufficient balance' : 'User not found');
+    }
 
-    await user.save();
     return user;
   }
 
   /**
-   * Получить баланс пользователя
+   * Снять блокировку и вернуть средства в доступный баланс (возврат ставки)
+   */
+  async releaseHold(
+    userId: string,
+    auctionId: string,
+    amount: number,
+    session?: ClientSession
+  ): Promise<IUser> {
+    return this.reduceHold(userId, auctionId, amount, amount, session);
+  }
+
+  /**
+   * Списать заблокированные средства (оплата выигранного товара)
    */
-  async getBalance(userId: string): Promise<number> {
-    const user = await User.findOne({ userId });
-    return user?.balance || 0;
+  async captureHold(
+    userId: string,
+    auctionId: string,
+    amount: number,
+    session?: ClientSession
+  ): Promise<IUser> {
+    return this.reduceHold(userId, auctionId, amount, 0, session);
   }
 
   /**
-   * Получить историю транзакций пользователя
+   * Убедиться, что операция с ключом запроса ещё не записана в журнал
+   * (ключ уникален в пределах операции: пополнение или ставка).
+   * Вызывается в той же транзакции, что и запись операции; одновременный
+   * повтор отсекает уникальный индекс журнала
    */
-  async getTransactionHistory(userId: string, limit: number = 50) {
-    return Transaction.find({ userId })
-      .sort({ createdAt: -1 })
-      .limit(limit)
-      .lean();
+  async assertNotApplied(
+    userId: string,
+    operation: IdempotentOperation,
+    idempotencyKey: string | undefined,
+    session?: ClientSession
+  ): Promise<void> {
+    if (
+      idempotencyKey &&
+      (await this.repositories.ledger.findByIdempotencyKey(userId, operation, idempotencyKey, session))
+    ) {
+      throw new RequestAlreadyAppliedError(idempotencyKey);
+    }
+  }
+
+  /**
+   * Получить баланс пользователя: доступные и заблокированные средства
+   * с разбивкой блокировок по аукционам
+   */
+  async getBalance(userId: string): Promise<BalanceSummary> {
+    const user = await this.repositories.users.findByUserId(userId);
+    const available = user?.balance || 0;
+    const held = user?.held || 0;
+
+    return {
+      available,
+      held,
+      total: available + held,
+      holds: (user?.holds || []).map((hold) => ({
+        auctionId: hold.auctionId,
+        amount: hold.amount,
+      })),
+    };
+  }
+
+  /**
+   * Страница истории операций пользователя, новые первыми. У каждой операции —
+   * остаток доступных средств после неё; totals — итоги по всем операциям
+   * под фильтром, а не только по странице
+   */
+  async getTransactionHistory(
+    userId: string,
+    options: TransactionFilters & { cursor?: string; limit?: number } = {}
+  ): Promise<{ items: TransactionRow[]; totals: TransactionTotals; nextCursor: string | null }> {
+    const { cursor, limit = 50, ...filters } = options;
+    const after = cursor !== undefined ? decodeCursor(cursor) : undefined;
+    if (after && (after.sort !== 'newest' || !mongoose.Types.ObjectId.isValid(after.id))) {
+      throw new Error('Invalid cursor');
+    }
+
+    const query = { ...filters, userId };
+    const [transactions, totals] = await Promise.all([
+      this.repositories.ledger.find(query, limit + 1, after),
+      this.repositories.ledger.totals(query),
+    ]);
+    const page = transactions.slice(0, limit);
+    const balances = await this.getBalancesAfter(userId, page);
+
+    const last = page[page.length - 1];
+    return {
+      items: page.map((transaction) => toRow(transaction, balances.get(transaction._id.toString())!)),
+      totals: summarize(totals),
+      nextCursor:
+        transactions.length > limit
+          ? encodeCursor({ sort: 'newest', value: last.createdAt.getTime(), id: last._id.toString() })
+          : null,
+    };
+  }
+
+  /**
+   * Выгрузка операций по порядку записи: операции пользователя (scope.userId)
+   * или всех участников аукциона (scope.auctionId). Из базы порциями читаются
+   * операции с момента первой операции выгрузки, поэтому выгрузка не
+   * ограничена по размеру
+   */
+  async *exportTransactions(
+    scope: { userId: string } | { auctionId: string },
+    filters: TransactionFilters = {}
+  ): AsyncGenerator<TransactionRow> {
+    const query: LedgerQuery = { ...filters, ...scope };
+    let first: ITransaction | undefined;
+    for await (const transaction of this.repositories.ledger.stream(query)) {
+      first = transaction;
+      break;
+    }
+    if (!first) {
+      return;
+    }
+
+    // Остаток меняют и операции не из выгрузки (другие аукционы, типы, статусы),
+    // поэтому журнал читается подряд с первой операции выгрузки. Итоги до первой
+    // операции пользователя берутся один раз, дальше остаток ведётся по всем
+    // его операциям
+    const firstId = first._id.toString();
+    const balances = new Map<string, number>();
+    let started = false;
+
+    for await (const transaction of this.repositories.ledger.stream({
+      ...('userId' in scope && { userId: scope.userId }),
+      from: first.createdAt,
+      to: query.to,
+    })) {
+      // Операции с тем же createdAt, но записанные раньше, в выгрузку не входят
+      started ||= transaction._id.toString() === firstId;
+      if (!started) {
+        continue;
+      }
+
+      const matches = matchesLedgerQuery(transaction, query);
+      let before = balances.get(transaction.userId);
+      if (before === undefined) {
+        if (!matches) {
+          continue;
+        }
+        before = summarize(
+          await this.repositories.ledger.totalsBefore(
+            transaction.userId,
+            transaction.createdAt,
+            transaction._id.toString()
+          )
+        ).netChange;
+      }
+
+      const balance = before + balanceChange(transaction);
+      balances.set(transaction.userId, balance);
+      if (matches) {
+        yield toRow(transaction, balance);
+      }
+    }
+  }
+
+  /**
+   * Остаток доступных средств после каждой из операций пользователя
+   * (операции — подряд идущая по времени выборка, новые первыми)
+   */
+  private async getBalancesAfter(userId: string, transactions: ITransaction[]): Promise<Map<string, number>> {
+    const balances = new Map<string, number>();
+    if (transactions.length === 0) {
+      return balances;
+    }
+
+    const oldest = transactions[transactions.length - 1];
+    const newestId = transactions[0]._id.toString();
+    const wanted = new Set(transactions.map((transaction) => transaction._id.toString()));
+    let balance = summarize(
+      await this.repositories.ledger.totalsBefore(userId, oldest.createdAt, oldest._id.toString())
+    ).netChange;
+    let started = false;
+
+    // Между операциями выборки могут быть операции, не попавшие под фильтр: они тоже меняют остаток
+    for await (const transaction of this.repositories.ledger.stream({ userId, from: oldest.createdAt })) {
+      const id = transaction._id.toString();
+      // Операции с тем же createdAt, но записанные раньше, уже учтены в totalsBefore
+      started ||= id === oldest._id.toString();
+      if (!started) {
+        continue;
+      }
+
+      balance += balanceChange(transaction);
+      if (wanted.has(id)) {
+        balances.set(id, balance);
+      }
+      if (id === newestId) {
+        break;
+      }
+    }
+
+    return balances;
+  }
+
+  /**
+   * Уменьшить блокировку по аукциону на amount, вернув refund в доступный баланс
+   */
+  private async reduceHold(
+    userId: string,
+    auctionId: string,
+    amount: number,
+    refund: number,
+    session?: ClientSession
+  ): Promise<IUser> {
+    const user = await this.repositories.users.reduceHold(userId, auctionId, amount, refund, session);
+
+    if (!user) {
+      throw new Error(`No hold of ${amount} for auction ${auctionId}`);
+    }
+
+    return user;
   }
 
   /**
    * Пополнить баланс (для демо)
    */
-  async deposit(userId: string, amount: number): Promise<IUser> {
+  async deposit(userId: string, amount: number, idempotencyKey?: string): Promise<IUser> {
     await this.getOrCreateUser(userId);
     
-    await this.updateBalance(userId, amount, 'add');
-    
-    // Создать транзакцию
-    await Transaction.create({
-      userId,
-      auctionId: 'deposit',
-      type: 'deposit',
-      amount,
-      status: 'completed',
-      description: 'Balance deposit',
-    });
+    return this.repositories.transaction(async (session) => {
+      await this.assertNotApplied(userId, 'deposit', idempotencyKey, session);
+      const user = await this.updateBalance(userId, amount, 'add', session);
 
-    return (await this.getUserById(userId))!;
+      // Создать транзакцию
+      await this.repositories.ledger.record(
+        [
+          {
+            userId,
+            auctionId: 'deposit',
+            type: 'deposit',
+            amount,
+            status: 'completed',
+            idempotencyKey,
+            description: 'Balance deposit',
+          },
+        ],
+        session
+      );
+
+      return user!;
+    });
   }
 }
 
 export default new UserService();
-
@@ -0,0 +1,162 @@
+import { IAuction } from '../models/Auction';
+import { createMemoryRepositories } from '../repositories/MemoryRepositories';
+import { NO_END_TIME, Repositories } from '../repositories/types';
+import { Actor } from '../services/AuditService';
+import { AuctionService, CreateAuctionDto } from '../services/AuctionService';
+import { ManualClock } from '../utils/clock';
+
+/**
+ * Параметры симулируемого аукциона (как при создании через API)
+ * и стартовые балансы участников
+ */
+export interface SimulationConfig extends Omit<CreateAuctionDto, 'title'> {
+  title?: string;
+  balances: Record<string, number>;
+  startAt?: Date; // Момент старта аукциона, по умолчанию начало эпохи
+}
+
+/**
+ * Ставка сценария: at — секунды от старта аукциона
+ */
+export interface ScriptedBid {
+  at: number;
+  userId: string;
+  amount: number;
+}
+
+export interface RejectedBid extends ScriptedBid {
+  error: string;
+  code?: string;
+}
+
+export interface SimulatedAccount {
+  available: number;
+  held: number;
+  spent: number; // Оплачено за выигрыши
+  refunded: number; // Возвращено по ставкам
+}
+
+export interface SimulatedRefund {
+  userId: string;
+  amount: number;
+  roundNumber?: number;
+}
+
+const ORGANIZER: Actor = { userId: 'simulation-organizer', role: 'organizer' };
+
+/**
+ * Детерминированная симуляция аукциона: настоящий AuctionService поверх
+ * хранилища в памяти и ручных часов (ManualClock). Ставки делаются в заданные
+ * секунды, а раунды завершаются и начинаются точно в свой срок, как их
+ * запускает обработчик раундов, поэтому полный аукцион с anti-sniping и
+ * несколькими раундами проигрывается за миллисекунды и без MongoDB
+ */
+export class AuctionSimulator {
+  private constructor(
+    readonly clock: ManualClock,
+    readonly repositories: Repositories,
+    readonly service: AuctionService,
+    readonly auctionId: string,
+    private readonly startAt: Date
+  ) {}
+
+  /**
+   * Создать участников с балансами, создать и запустить аукцион в момент startAt
+   */
+  static async start(config: SimulationConfig): Promise<AuctionSimulator> {
+    const { balances, startAt = new Date(0), title = 'Simulation', ...auction } = config;
+    const clock = new ManualClock(startAt);
+    const repositories = createMemoryRepositories(clock);
+    const service = new AuctionService(clock, repositories);
+
+    for (const [userId, balance] of Object.entries(balances)) {
+      await repositories.users.create({ userId, balance });
+    }
+
+    const created = await service.createAuction({ title, ...auction }, ORGANIZER);
+    const auctionId = created._id.toString();
+    await service.startAuction(auctionId, ORGANIZER);
+
+    return new AuctionSimulator(clock, repositories, service, auctionId, startAt);
+  }
+
+  /**
+   * Момент через at секунд после старта аукциона
+   */
+  at(seconds: number): Date {
+    return new Date(this.startAt.getTime() + seconds * 1000);
+  }
+
+  /**
+   * Довести часы до момента at, по пути выполнив все наступившие
+   * завершения и старты раундов в их срок
+   */
+  async advanceTo(at: Date): Promise<void> {
+    for (;;) {
+      const schedule = (await this.repositories.auctions.findSchedule(this.auctionId))!;
+      const round = schedule.rounds[schedule.currentRound - 1];
+      if (schedule.status !== 'active' || !round) break;
+      const dueAt = round.status === 'pending' ? round.startTime : round.endTime;
+      if (round.status === 'completed' || dueAt > at) break;
+
+      this.clock.set(dueAt);
+      if (round.status === 'pending') {
+        await this.service.activatePendingRound(this.auctionId);
+      } else {
+        await this.service.completeRound(this.auctionId);
+      }
+    }
+    this.clock.set(at);
+  }
+
+  /**
+   * Сделать ставки сценария и доиграть аукцион до момента until секунд
+   * (по умолчанию до конца). Отклонённые ставки возвращаются с ошибкой
+   */
+  async play(script: ScriptedBid[], until?: number): Promise<{ auction: IAuction; rejected: RejectedBid[] }> {
+    const rejected: RejectedBid[] = [];
+    for (const bid of script) {
+      await this.advanceTo(this.at(bid.at));
+      try {
+        await this.service.placeBid(this.auctionId, bid.userId, bid.amount);
+      } catch (error: any) {
+        rejected.push({ ...bid, error: error.message, code: error.code });
+      }
+    }
+    await this.advanceTo(until === undefined ? new Date(NO_END_TIME) : this.at(until));
+
+    return { auction: (await this.repositories.auctions.findById(this.auctionId))!, rejected };
+  }
+
+  /**
+   * Отменить аукцион через at секунд после старта
+   */
+  async cancel(at: number, reason = 'Simulation cancelled'): Promise<IAuction> {
+    await this.advanceTo(this.at(at));
+    return this.service.cancelAuction(this.auctionId, ORGANIZER, reason);
+  }
+
+  /**
+   * Деньги участника: баланс и блокировка, оплачено и возвращено по журналу
+   */
+  async account(userId: string): Promise<SimulatedAccount> {
+    const user = (await this.repositories.users.findByUserId(userId))!;
+    const totals = await this.repositories.ledger.totals({
+      userId,
+      auctionId: this.auctionId,
+      statuses: ['completed'],
+    });
+    const sum = (type: string) =>
+      totals.filter((row) => row.type === type).reduce((total, row) => total + row.amount, 0);
+    return { available: user.balance, held: user.held, spent: sum('win'), refunded: sum('refund') };
+  }
+
+  /**
+   * Возвраты по аукциону в порядке записи
+   */
+  async refunds(): Promise<SimulatedRefund[]> {
+    return (await this.repositories.ledger.findByAuction(this.auctionId))
+      .filter((transaction) => transaction.type === 'refund')
+      .map(({ userId, amount, roundNumber }) => ({ userId, amount, roundNumber }));
+  }
+}
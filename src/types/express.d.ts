@@ -0,0 +1,17 @@
+import { TelegramUser } from '../utils/telegramInitData';
+import { Actor } from '../services/AuditService';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Пользователь, подтверждённый подписью Telegram initData
+      telegramUser?: TelegramUser;
+      // Пользователь с проверенной ролью (после requireRole)
+      actor?: Actor;
+      // Ключ из заголовка Idempotency-Key (после middleware idempotency)
+      idempotencyKey?: string;
+    }
+  }
+}
+
+export {};
@@ -0,0 +1,163 @@
+import { Clock, systemClock } from './clock';
+
+// Максимальная задержка setTimeout; более далёкие сроки дожидаются в несколько заходов
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+interface Entry {
+  key: string;
+  at: number;
+}
+
+/**
+ * Очередь отложенных задач по ключу на двоичной куче. На каждый ключ хранится
+ * один срок: повторное планирование заменяет его. Взведён один таймер — на
+ * ближайший срок, поэтому стоимость не зависит от числа ключей.
+ *
+ * Заменённые и отменённые записи не удаляются из кучи сразу, а пропускаются
+ * при извлечении; куча перестраивается, когда таких записей становится много.
+ */
+export class DelayQueue {
+  private heap: Entry[] = [];
+  private due = new Map<string, number>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly onDue: (key: string, dueAt: Date) => void,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  get size(): number {
+    return this.due.size;
+  }
+
+  /**
+   * Ближайший срок или null, если очередь пуста
+   */
+  get nextDueAt(): Date | null {
+    this.dropStale();
+    return this.heap.length > 0 ? new Date(this.heap[0].at) : null;
+  }
+
+  has(key: string): boolean {
+    return this.due.has(key);
+  }
+
+  /**
+   * Запланировать ключ на момент at (или перенести уже запланированный)
+   */
+  schedule(key: string, at: Date): void {
+    const time = at.getTime();
+    if (this.due.get(key) === time) {
+      return;
+    }
+
+    this.due.set(key, time);
+    this.push({ key, at: time });
+
+    if (this.heap.length > 2 * this.due.size + 64) {
+      this.rebuild();
+    }
+    this.arm();
+  }
+
+  cancel(key: string): void {
+    if (this.due.delete(key)) {
+      this.arm();
+    }
+  }
+
+  clear(): void {
+    this.heap = [];
+    this.due.clear();
+    this.disarm();
+  }
+
+  private fire(): void {
+    this.timer = null;
+    const now = this.clock.now().getTime();
+    const ready: Entry[] = [];
+
+    while (this.heap.length > 0 && this.heap[0].at <= now) {
+      const entry = this.pop();
+      if (this.due.get(entry.key) === entry.at) {
+        this.due.delete(entry.key);
+        ready.push(entry);
+      }
+    }
+
+    this.arm();
+
+    for (const entry of ready) {
+      this.onDue(entry.key, new Date(entry.at));
+    }
+  }
+
+  private arm(): void {
+    this.disarm();
+    this.dropStale();
+    if (this.heap.length === 0) {
+      return;
+    }
+
+    const delay = Math.min(Math.max(this.heap[0].at - this.clock.now().getTime(), 0), MAX_TIMEOUT_MS);
+    this.timer = setTimeout(() => this.fire(), delay);
+    // Таймер очереди не должен удерживать процесс от завершения
+    this.timer.unref();
+  }
+
+  private disarm(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private dropStale(): void {
+    while (this.heap.length > 0 && this.due.get(this.heap[0].key) !== this.heap[0].at) {
+      this.pop();
+    }
+  }
+
+  private rebuild(): void {
+    this.heap = [];
+    for (const [key, at] of this.due) {
+      this.push({ key, at });
+    }
+  }
+
+  private push(entry: Entry): void {
+    const heap = this.heap;
+    heap.push(entry);
+
+    let index = heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (heap[parent].at <= heap[index].at) break;
+      [heap[parent], heap[index]] = [heap[index], heap[parent]];
+      index = parent;
+    }
+  }
+
+  private pop(): Entry {
+    const heap = this.heap;
+    const top = heap[0];
+    const last = heap.pop()!;
+
+    if (heap.length > 0) {
+      heap[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = 2 * index + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < heap.length && heap[left].at < heap[smallest].at) smallest = left;
+        if (right < heap.length && heap[right].at < heap[smallest].at) smallest = right;
+        if (smallest === index) break;
+        [heap[smallest], heap[index]] = [heap[index], heap[smallest]];
+        index = smallest;
+      }
+    }
+
+    return top;
+  }
+}
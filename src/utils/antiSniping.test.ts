@@ -0,0 +1,104 @@
+import {
+  AntiSnipingPolicy,
+  RoundExtension,
+  planExtension,
+  resolveAntiSnipingPolicy,
+  validateAntiSnipingPolicy,
+} from './antiSniping';
+
+const seconds = (at: number) => new Date(at * 1000);
+
+const POLICY: AntiSnipingPolicy = { trigger: 'enters_top', triggerWindow: 10, extension: 15 };
+
+const extension = (previousEnd: number, newEnd: number): RoundExtension => ({
+  at: seconds(previousEnd - 1),
+  userId: 'alice',
+  amount: 10,
+  trigger: 'any_bid',
+  previousEndTime: seconds(previousEnd),
+  newEndTime: seconds(newEnd),
+});
+
+const bid = (at: number, position: number | null = 1, displacedWinners = 0) => ({
+  at: seconds(at),
+  position,
+  displacedWinners,
+  roundItems: 2,
+});
+
+describe('validateAntiSnipingPolicy', () => {
+  it('accepts a partial policy', () => {
+    expect(() => validateAntiSnipingPolicy({ extension: 0, topN: 3 })).not.toThrow();
+  });
+
+  it('rejects unknown triggers and invalid limits', () => {
+    expect(() => validateAntiSnipingPolicy({ trigger: 'late_bid' as never })).toThrow(
+      'antiSniping.trigger must be one of: any_bid, enters_top, displaces_winner'
+    );
+    expect(() => validateAntiSnipingPolicy({ triggerWindow: -1 })).toThrow(
+      'antiSniping.triggerWindow must be a non-negative number of seconds'
+    );
+    expect(() => validateAntiSnipingPolicy({ topN: 0 })).toThrow('antiSniping.topN must be a positive integer');
+    expect(() => validateAntiSnipingPolicy({ maxExtensions: 1.5 })).toThrow(
+      'antiSniping.maxExtensions must be a non-negative integer'
+    );
+  });
+});
+
+describe('resolveAntiSnipingPolicy', () => {
+  const legacy = { antiSnipingWindow: 30, roundDuration: 300 };
+
+  it('keeps the legacy behaviour for auctions without a policy', () => {
+    expect(resolveAntiSnipingPolicy(legacy)).toEqual({
+      trigger: 'enters_top',
+      triggerWindow: 30,
+      extension: 30,
+      maxExtension: 300,
+    });
+  });
+
+  it('does not cap the total extension when the count is limited', () => {
+    expect(resolveAntiSnipingPolicy({ ...legacy, antiSniping: { trigger: 'any_bid', maxExtensions: 2 } })).toEqual({
+      trigger: 'any_bid',
+      triggerWindow: 30,
+      extension: 30,
+      maxExtensions: 2,
+    });
+  });
+});
+
+describe('planExtension', () => {
+  const round = { endTime: seconds(60) };
+
+  it('extends the round for a top bid inside the window', () => {
+    expect(planExtension(POLICY, round, bid(55))).toEqual(seconds(70));
+  });
+
+  it('ignores bids outside the window or outside the top', () => {
+    expect(planExtension(POLICY, round, bid(49))).toBeNull();
+    expect(planExtension(POLICY, round, bid(55, 3))).toBeNull();
+    expect(planExtension(POLICY, round, bid(55, null))).toBeNull();
+    expect(planExtension({ ...POLICY, topN: 3 }, round, bid(55, 3))).toEqual(seconds(70));
+  });
+
+  it('extends on displaced winners only for displaces_winner', () => {
+    const policy: AntiSnipingPolicy = { ...POLICY, trigger: 'displaces_winner' };
+    expect(planExtension(policy, round, bid(55, 1, 0))).toBeNull();
+    expect(planExtension(policy, round, bid(55, 2, 1))).toEqual(seconds(70));
+  });
+
+  it('caps the total extension from the original end of the round', () => {
+    const extended = { endTime: seconds(70), extensions: [extension(60, 70)] };
+    expect(planExtension({ ...POLICY, maxExtension: 20 }, extended, bid(68))).toEqual(seconds(80));
+    expect(planExtension({ ...POLICY, maxExtension: 10 }, extended, bid(68))).toBeNull();
+  });
+
+  it('stops after maxExtensions extensions', () => {
+    const extended = { endTime: seconds(70), extensions: [extension(60, 70)] };
+    expect(planExtension({ ...POLICY, maxExtensions: 1 }, extended, bid(68))).toBeNull();
+  });
+
+  it('never moves the end earlier', () => {
+    expect(planExtension({ ...POLICY, extension: 3 }, round, bid(55))).toBeNull();
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Условие продления раунда:
+ * - any_bid — любая ставка в окне
+ * - enters_top — ставка попадает в топ-N (по умолчанию N — число товаров раунда)
+ * - displaces_winner — ставка вытесняет одного из текущих победителей раунда
+ */
+export type AntiSnipingTrigger = 'any_bid' | 'enters_top' | 'displaces_winner';
+
+/**
+ * Политика anti-sniping аукциона. Все длительности в секундах.
+ * Ставка, удовлетворяющая trigger в последние triggerWindow секунд раунда,
+ * сдвигает его конец на extension секунд после ставки. Суммарный сдвиг
+ * ограничен maxExtension секундами от исходного конца раунда, а число
+ * продлений — maxExtensions; неуказанный лимит не ограничивает
+ */
+export interface AntiSnipingPolicy {
+  trigger: AntiSnipingTrigger;
+  triggerWindow: number;
+  extension: number;
+  topN?: number;
+  maxExtension?: number;
+  maxExtensions?: number;
+}
+
+/**
+ * Запись о продлении раунда
+ */
+export interface RoundExtension {
+  at: Date;
+  userId: string;
+  amount: number;
+  trigger: AntiSnipingTrigger;
+  previousEndTime: Date;
+  newEndTime: Date;
+}
+
+export const ANTI_SNIPING_TRIGGERS: AntiSnipingTrigger[] = ['any_bid', 'enters_top', 'displaces_winner'];
+
+/**
+ * Проверить политику и выбросить ошибку, если она некорректна
+ */
+export const validateAntiSnipingPolicy = (policy: Partial<AntiSnipingPolicy>): void => {
+  if (policy.trigger !== undefined && !ANTI_SNIPING_TRIGGERS.includes(policy.trigger)) {
+    throw new Error(`antiSniping.trigger must be one of: ${ANTI_SNIPING_TRIGGERS.join(', ')}`);
+  }
+
+  for (const field of ['triggerWindow', 'extension', 'maxExtension'] as const) {
+    const value = policy[field];
+    if (value !== undefined && (typeof value !== 'number' || !(value >= 0))) {
+      throw new Error(`antiSniping.${field} must be a non-negative number of seconds`);
+    }
+  }
+
+  for (const field of ['topN', 'maxExtensions'] as const) {
+    const value = policy[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < (field === 'topN' ? 1 : 0))) {
+      throw new Error(`antiSniping.${field} must be a ${field === 'topN' ? 'positive' : 'non-negative'} integer`);
+    }
+  }
+};
+
+/**
+ * Политика аукциона с заполненными значениями по умолчанию. Аукционы,
+ * созданные до появления политик, ведут себя по-старому: продление на
+ * antiSnipingWindow при ставке в топ, не дальше удвоенной длительности раунда
+ */
+export const resolveAntiSnipingPolicy = (
+  auction: {
+    antiSniping?: Partial<AntiSnipingPolicy>;
+    antiSnipingWindow: number;
+    roundDuration: number;
+  },
+  overrides: Partial<AntiSnipingPolicy> = auction.antiSniping || {}
+): AntiSnipingPolicy => {
+  const window = overrides.triggerWindow ?? auction.antiSnipingWindow;
+  const policy: AntiSnipingPolicy = {
+    trigger: overrides.trigger ?? 'enters_top',
+    triggerWindow: window,
+    extension: overrides.extension ?? window,
+  };
+
+  if (overrides.topN !== undefined) policy.topN = overrides.topN;
+  if (overrides.maxExtensions !== undefined) policy.maxExtensions = overrides.maxExtensions;
+  if (overrides.maxExtension !== undefined) {
+    policy.maxExtension = overrides.maxExtension;
+  } else if (overrides.maxExtensions === undefined) {
+    // Без обоих лимитов раунд продлевался бы бесконечно
+    policy.maxExtension = auction.roundDuration;
+  }
+
+  return policy;
+};
+
+/**
+ * Новый конец раунда по политике или null, если ставка раунд не продлевает
+ */
+export const planExtension = (
+  policy: AntiSnipingPolicy,
+  round: { endTime: Date; extensions?: RoundExtension[] },
+  bid: {
+    at: Date;
+    position: number | null; // Место ставки в лидерборде после неё (с 1)
+    displacedWinners: number; // Сколько победителей вытеснено из призовых мест
+    roundItems: number;
+  }
+): Date | null => {
+  const extensions = round.extensions || [];
+  const timeLeftMs = round.endTime.getTime() - bid.at.getTime();
+
+  if (policy.extension <= 0 || timeLeftMs > policy.triggerWindow * 1000) {
+    return null;
+  }
+
+  const triggered =
+    policy.trigger === 'any_bid' ||
+    (policy.trigger === 'enters_top' &&
+      bid.position !== null &&
+      bid.position <= (policy.topN ?? bid.roundItems)) ||
+    (policy.trigger === 'displaces_winner' && bid.displacedWinners > 0);
+
+  if (!triggered) {
+    return null;
+  }
+
+  if (policy.maxExtensions !== undefined && extensions.length >= policy.maxExtensions) {
+    return null;
+  }
+
+  let newEndTime = new Date(bid.at.getTime() + policy.extension * 1000);
+
+  if (policy.maxExtension !== undefined) {
+    // Исходный конец раунда — до первого продления
+    const originalEnd = extensions[0]?.previousEndTime ?? round.endTime;
+    const cap = new Date(originalEnd.getTime() + policy.maxExtension * 1000);
+    if (newEndTime > cap) {
+      newEndTime = cap;
+    }
+  }
+
+  return newEndTime > round.endTime ? newEndTime : null;
+};
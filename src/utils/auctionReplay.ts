@@ -0,0 +1,226 @@
+import { RoundExtension } from './antiSniping';
+
+/**
+ * Раунд в момент создания
+ */
+export interface HistoryRound {
+  roundNumber: number;
+  items?: number;
+  reservePrice?: number;
+  startTime: Date;
+  endTime: Date;
+  status: 'pending' | 'active';
+  totalBids: number;
+}
+
+export interface HistoryWinner {
+  userId: string;
+  bidAmount: number;
+  price?: number;
+  position: number;
+}
+
+/**
+ * События журнала аукциона. Журнал только дополняется и хранит всё,
+ * что меняет состояние аукциона и его ставок
+ */
+export type AuctionHistoryEvent =
+  | {
+      type: 'auction_created';
+      title: string;
+      totalItems: number;
+      createdBy?: string;
+    }
+  | {
+      type: 'auction_started';
+      startedAt: Date;
+    }
+  | {
+      type: 'round_created';
+      round: HistoryRound;
+    }
+  | {
+      type: 'round_started'; // Отложенный окном блокировки раунд начался
+      roundNumber: number;
+    }
+  | {
+      type: 'bid_placed';
+      roundNumber: number;
+      bidId: string;
+      userId: string;
+      amount: number;
+      previousAmount: number | null; // null — новая ставка, иначе повышение
+      timestamp: Date;
+      proxy?: boolean;
+    }
+  | {
+      type: 'round_extended';
+      roundNumber: number;
+      extension: RoundExtension;
+    }
+  | {
+      type: 'round_completed';
+      roundNumber: number;
+      winners: HistoryWinner[];
+      wonBidIds: string[];
+      clearingPrice: number | null;
+    }
+  | {
+      type: 'bids_carried_over';
+      fromRound: number;
+      toRound: number;
+      bidIds: string[];
+    }
+  | {
+      type: 'bids_refunded';
+      reason: string;
+      bids: Array<{ bidId: string; userId: string; amount: number }>;
+    }
+  | {
+      type: 'auction_completed';
+      completedAt: Date;
+    }
+  | {
+      type: 'auction_cancelled';
+      cancelledAt: Date;
+      cancelledBy: string;
+      reason?: string;
+      cancelledRound: { roundNumber: number; endTime: Date } | null;
+    };
+
+export type AuctionHistoryType = AuctionHistoryEvent['type'];
+
+export interface ReplayedRound {
+  roundNumber: number;
+  items?: number;
+  reservePrice?: number;
+  startTime: Date;
+  endTime: Date;
+  status: 'pending' | 'active' | 'completed' | 'cancelled';
+  totalBids: number;
+  winners: HistoryWinner[];
+  clearingPrice?: number;
+  extensions: number;
+}
+
+export interface ReplayedBid {
+  bidId: string;
+  userId: string;
+  amount: number;
+  roundNumber: number;
+  status: 'active' | 'won' | 'refunded';
+}
+
+/**
+ * Состояние аукциона, восстановленное по журналу
+ */
+export interface ReplayedAuction {
+  status: 'draft' | 'active' | 'completed' | 'cancelled';
+  currentRound: number;
+  rounds: ReplayedRound[];
+  bids: ReplayedBid[];
+  startedAt?: Date;
+  completedAt?: Date;
+  cancelledAt?: Date;
+}
+
+/**
+ * Восстановить состояние аукциона, последовательно применив события журнала.
+ * Событие, которое не согласуется с уже восстановленным состоянием
+ * (например, ставка в несуществующем раунде), приводит к ошибке
+ */
+export const replayAuction = (events: AuctionHistoryEvent[]): ReplayedAuction => {
+  const state: ReplayedAuction = { status: 'draft', currentRound: 1, rounds: [], bids: [] };
+  const bids = new Map<string, ReplayedBid>();
+
+  const roundAt = (roundNumber: number): ReplayedRound => {
+    const round = state.rounds[roundNumber - 1];
+    if (!round) {
+      throw new Error(`Round ${roundNumber} does not exist`);
+    }
+    return round;
+  };
+  const bidAt = (bidId: string): ReplayedBid => {
+    const bid = bids.get(bidId);
+    if (!bid) {
+      throw new Error(`Bid ${bidId} does not exist`);
+    }
+    return bid;
+  };
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'auction_created':
+        break;
+      case 'auction_started':
+        state.status = 'active';
+        state.startedAt = event.startedAt;
+        break;
+      case 'round_created':
+        state.rounds.push({ ...event.round, winners: [], extensions: 0 });
+        state.currentRound = event.round.roundNumber;
+        break;
+      case 'round_started':
+        roundAt(event.roundNumber).status = 'active';
+        break;
+      case 'bid_placed': {
+        const existing = bids.get(event.bidId);
+        if (existing) {
+          existing.amount = event.amount;
+        } else {
+          bids.set(event.bidId, {
+            bidId: event.bidId,
+            userId: event.userId,
+            amount: event.amount,
+            roundNumber: event.roundNumber,
+            status: 'active',
+          });
+          roundAt(event.roundNumber).totalBids += 1;
+        }
+        break;
+      }
+      case 'round_extended': {
+        const round = roundAt(event.roundNumber);
+        round.endTime = event.extension.newEndTime;
+        round.extensions += 1;
+        break;
+      }
+      case 'round_completed': {
+        const round = roundAt(event.roundNumber);
+        round.status = 'completed';
+        round.winners = event.winners;
+        round.clearingPrice = event.clearingPrice ?? undefined;
+        for (const bidId of event.wonBidIds) {
+          bidAt(bidId).status = 'won';
+        }
+        break;
+      }
+      case 'bids_carried_over':
+        for (const bidId of event.bidIds) {
+          bidAt(bidId).roundNumber = event.toRound;
+        }
+        break;
+      case 'bids_refunded':
+        for (const refund of event.bids) {
+          bidAt(refund.bidId).status = 'refunded';
+        }
+        break;
+      case 'auction_completed':
+        state.status = 'completed';
+        state.completedAt = event.completedAt;
+        break;
+      case 'auction_cancelled':
+        state.status = 'cancelled';
+        state.cancelledAt = event.cancelledAt;
+        if (event.cancelledRound) {
+          const round = roundAt(event.cancelledRound.roundNumber);
+          round.status = 'cancelled';
+          round.endTime = event.cancelledRound.endTime;
+        }
+        break;
+    }
+  }
+
+  state.bids = [...bids.values()];
+  return state;
+};
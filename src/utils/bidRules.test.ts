@@ -0,0 +1,98 @@
+import { BidRules, checkBidAmount, computeRoundReserve, minimumRaise, validateBidRules } from './bidRules';
+import { BidRejectedError } from './errors';
+
+/**
+ * Отказ, которым checkBidAmount отклоняет ставку, или null
+ */
+const rejection = (...args: Parameters<typeof checkBidAmount>) => {
+  try {
+    checkBidAmount(...args);
+    return null;
+  } catch (error: any) {
+    expect(error).toBeInstanceOf(BidRejectedError);
+    return error.toJSON();
+  }
+};
+
+describe('validateBidRules', () => {
+  it('accepts rules without limits', () => {
+    expect(() => validateBidRules({})).not.toThrow();
+    expect(() => validateBidRules({ reserve: { mode: 'increasing', stepPercent: 10 } })).not.toThrow();
+  });
+
+  it('rejects invalid increments and reserves', () => {
+    expect(() => validateBidRules({ minIncrement: { type: 'fixed' as never, value: 1 } })).toThrow(
+      'bidRules.minIncrement.type must be absolute or percent'
+    );
+    expect(() => validateBidRules({ minIncrement: { type: 'absolute', value: -1 } })).toThrow(
+      'bidRules.minIncrement.value must be a non-negative number'
+    );
+    expect(() => validateBidRules({ reserve: { mode: 'auction' as never } })).toThrow(
+      'bidRules.reserve.mode must be one of: fixed, increasing, clearing_price'
+    );
+    expect(() => validateBidRules({ reserve: { mode: 'increasing' } })).toThrow(
+      'bidRules.reserve.step or stepPercent is required for increasing reserve'
+    );
+  });
+});
+
+describe('minimumRaise', () => {
+  it('is unset without an increment', () => {
+    expect(minimumRaise(undefined, 100)).toBeNull();
+    expect(minimumRaise({ minIncrement: { type: 'absolute', value: 0 } }, 100)).toBeNull();
+  });
+
+  it('rounds percent increments up to cents', () => {
+    expect(minimumRaise({ minIncrement: { type: 'absolute', value: 5 } }, 100)).toBe(105);
+    expect(minimumRaise({ minIncrement: { type: 'percent', value: 10 } }, 33.33)).toBe(36.67);
+    expect(minimumRaise({ minIncrement: { type: 'percent', value: 10 } }, 110)).toBe(121);
+  });
+});
+
+describe('checkBidAmount', () => {
+  const rules: BidRules = { minIncrement: { type: 'absolute', value: 5 } };
+
+  it('requires a new bid to reach the reserve', () => {
+    expect(rejection(rules, 20, 20)).toBeNull();
+    expect(rejection(rules, 20, 19)).toEqual({
+      error: 'Bid must be at least 20',
+      code: 'BELOW_RESERVE',
+      minimumAmount: 20,
+      currentAmount: undefined,
+    });
+  });
+
+  it('requires a raise above the current bid by the increment', () => {
+    expect(rejection(rules, 20, 35, 30)).toBeNull();
+    expect(rejection(rules, 20, 30, 30)).toMatchObject({ code: 'NOT_HIGHER_THAN_CURRENT', minimumAmount: 35 });
+    expect(rejection(rules, 20, 33, 30)).toMatchObject({ code: 'BELOW_MIN_INCREMENT', minimumAmount: 35 });
+  });
+
+  it('reports the reserve when it is above the increment', () => {
+    expect(rejection(rules, 50, 40, 30)).toMatchObject({ code: 'BELOW_RESERVE', minimumAmount: 50 });
+    expect(rejection(undefined, 50, 40, 30)).toMatchObject({ code: 'BELOW_RESERVE', minimumAmount: 50 });
+  });
+});
+
+describe('computeRoundReserve', () => {
+  const previousRound = { reservePrice: 20, winners: [{ bidAmount: 40 }, { bidAmount: 30 }] };
+
+  it('uses minBid for fixed reserves and the first round', () => {
+    expect(computeRoundReserve(undefined, 10, previousRound)).toBe(10);
+    expect(computeRoundReserve({ reserve: { mode: 'increasing', step: 5 } }, 10)).toBe(10);
+  });
+
+  it('raises the previous reserve by a step or a percent', () => {
+    expect(computeRoundReserve({ reserve: { mode: 'increasing', step: 5 } }, 10, previousRound)).toBe(25);
+    expect(computeRoundReserve({ reserve: { mode: 'increasing', stepPercent: 15 } }, 10, previousRound)).toBe(23);
+    expect(computeRoundReserve({ reserve: { mode: 'increasing', step: 5 } }, 10, {})).toBe(15);
+  });
+
+  it('follows the clearing price of the previous round', () => {
+    const rules: BidRules = { reserve: { mode: 'clearing_price' } };
+    expect(computeRoundReserve(rules, 10, previousRound)).toBe(30);
+    expect(computeRoundReserve(rules, 10, { ...previousRound, clearingPrice: 35 })).toBe(35);
+    expect(computeRoundReserve(rules, 10, { reservePrice: 20, winners: [] })).toBe(20);
+    expect(computeRoundReserve(rules, 50, previousRound)).toBe(50);
+  });
+});
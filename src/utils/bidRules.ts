@@ -0,0 +1,155 @@
+import { BidRejectedError } from './errors';
+
+/**
+ * Минимальный шаг повышения ставки: абсолютный (value — сумма)
+ * или процентный (value — процент от текущей ставки пользователя)
+ */
+export interface MinIncrement {
+  type: 'absolute' | 'percent';
+  value: number;
+}
+
+/**
+ * Резервная цена раунда — минимальная сумма новой ставки в раунде:
+ * - fixed — всегда minBid
+ * - increasing — каждый следующий раунд дороже предыдущего на step
+ *   (сумма) или stepPercent (процент)
+ * - clearing_price — цена прошлого раунда: единая цена раунда или
+ *   минимальная выигравшая ставка, но не меньше minBid
+ */
+export interface ReservePolicy {
+  mode: 'fixed' | 'increasing' | 'clearing_price';
+  step?: number;
+  stepPercent?: number;
+}
+
+export interface BidRules {
+  minIncrement?: MinIncrement;
+  reserve?: ReservePolicy;
+}
+
+const RESERVE_MODES: ReservePolicy['mode'][] = ['fixed', 'increasing', 'clearing_price'];
+
+/**
+ * Округлить сумму вверх до сотых, не раздувая погрешность умножения
+ */
+const ceilToCents = (amount: number): number => Math.ceil(Math.round(amount * 1e6) / 1e4) / 100;
+
+/**
+ * Проверить правила ставок и выбросить ошибку, если они некорректны
+ */
+export const validateBidRules = (rules: BidRules): void => {
+  const { minIncrement, reserve } = rules;
+
+  if (minIncrement) {
+    if (minIncrement.type !== 'absolute' && minIncrement.type !== 'percent') {
+      throw new Error('bidRules.minIncrement.type must be absolute or percent');
+    }
+    if (typeof minIncrement.value !== 'number' || !(minIncrement.value >= 0)) {
+      throw new Error('bidRules.minIncrement.value must be a non-negative number');
+    }
+  }
+
+  if (reserve) {
+    if (!RESERVE_MODES.includes(reserve.mode)) {
+      throw new Error(`bidRules.reserve.mode must be one of: ${RESERVE_MODES.join(', ')}`);
+    }
+    for (const field of ['step', 'stepPercent'] as const) {
+      const value = reserve[field];
+      if (value !== undefined && (typeof value !== 'number' || !(value >= 0))) {
+        throw new Error(`bidRules.reserve.${field} must be a non-negative number`);
+      }
+    }
+    if (reserve.mode === 'increasing' && reserve.step === undefined && reserve.stepPercent === undefined) {
+      throw new Error('bidRules.reserve.step or stepPercent is required for increasing reserve');
+    }
+  }
+};
+
+/**
+ * Минимальная сумма, до которой можно повысить ставку currentAmount,
+ * или null, если шаг не задан (достаточно любой большей суммы)
+ */
+export const minimumRaise = (rules: BidRules | undefined, currentAmount: number): number | null => {
+  const increment = rules?.minIncrement;
+  if (!increment || increment.value <= 0) {
+    return null;
+  }
+
+  return increment.type === 'absolute'
+    ? ceilToCents(currentAmount + increment.value)
+    : ceilToCents(currentAmount * (1 + increment.value / 100));
+};
+
+/**
+ * Проверить сумму ставки по правилам аукциона: новая ставка не ниже
+ * резервной цены раунда, повышение — больше текущей ставки и не меньше шага
+ */
+export const checkBidAmount = (
+  rules: BidRules | undefined,
+  reserve: number,
+  amount: number,
+  currentAmount?: number
+): void => {
+  if (currentAmount === undefined) {
+    if (amount < reserve) {
+      throw new BidRejectedError(`Bid must be at least ${reserve}`, 'BELOW_RESERVE', reserve);
+    }
+    return;
+  }
+
+  const raise = minimumRaise(rules, currentAmount);
+  const minimum = Math.max(reserve, raise ?? currentAmount);
+
+  if (amount <= currentAmount) {
+    throw new BidRejectedError(
+      `Bid must be higher than your current bid of ${currentAmount}`,
+      'NOT_HIGHER_THAN_CURRENT',
+      minimum,
+      currentAmount
+    );
+  }
+
+  if (amount < minimum) {
+    throw new BidRejectedError(
+      `Bid must be at least ${minimum}`,
+      raise !== null && raise >= reserve ? 'BELOW_MIN_INCREMENT' : 'BELOW_RESERVE',
+      minimum,
+      currentAmount
+    );
+  }
+};
+
+/**
+ * Резервная цена раунда. previousRound — завершённый предыдущий раунд
+ * (для первого раунда отсутствует)
+ */
+export const computeRoundReserve = (
+  rules: BidRules | undefined,
+  minBid: number,
+  previousRound?: {
+    reservePrice?: number;
+    clearingPrice?: number;
+    winners?: Array<{ bidAmount: number }>;
+  }
+): number => {
+  const reserve = rules?.reserve;
+  if (!reserve || reserve.mode === 'fixed' || !previousRound) {
+    return minBid;
+  }
+
+  const previousReserve = previousRound.reservePrice ?? minBid;
+
+  if (reserve.mode === 'increasing') {
+    const next = reserve.step !== undefined
+      ? previousReserve + reserve.step
+      : previousReserve * (1 + (reserve.stepPercent ?? 0) / 100);
+    return ceilToCents(next);
+  }
+
+  // clearing_price: раунд без победителей не меняет резерв
+  const winningAmounts = (previousRound.winners || []).map((winner) => winner.bidAmount);
+  const price = previousRound.clearingPrice ??
+    (winningAmounts.length > 0 ? Math.min(...winningAmounts) : previousReserve);
+  return Math.max(minBid, price);
+};
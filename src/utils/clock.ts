@@ -0,0 +1,48 @@
+/**
+ * Источник текущего времени. Сервисы и обработчик раундов узнают время
+ * только через него, поэтому в тестах время можно двигать вручную
+ */
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * Системные часы
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * Часы, которые идут только по команде: advance сдвигает время вперёд,
+ * set переводит на заданный момент. Назад время не идёт
+ */
+export class ManualClock implements Clock {
+  private time: number;
+
+  constructor(start: Date = new Date(0)) {
+    this.time = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  /**
+   * Сдвинуть время на ms миллисекунд
+   */
+  advance(ms: number): Date {
+    if (!(ms >= 0)) {
+      throw new Error('Clock cannot go backwards');
+    }
+    this.time += ms;
+    return this.now();
+  }
+
+  /**
+   * Перевести часы на момент at
+   */
+  set(at: Date): Date {
+    return this.advance(at.getTime() - this.time);
+  }
+}
@@ -0,0 +1,17 @@
+import { decodeCursor, encodeCursor } from './cursor';
+
+describe('cursor', () => {
+  it('round-trips through an opaque string', () => {
+    const cursor = { sort: 'newest', value: 1700000000000, id: '65a0c0ffee0000000000beef' };
+    const raw = encodeCursor(cursor);
+    expect(raw).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(raw)).toEqual(cursor);
+  });
+
+  it('rejects damaged cursors', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    expect(() => decodeCursor('not-a-cursor')).toThrow('Invalid cursor');
+    expect(() => decodeCursor(encode(['newest', '17', 'id']))).toThrow('Invalid cursor');
+    expect(() => decodeCursor(encode({ sort: 'newest', value: 1, id: 'id' }))).toThrow('Invalid cursor');
+  });
+});
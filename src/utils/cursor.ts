@@ -0,0 +1,31 @@
+/**
+ * Позиция в списке для постраничного вывода: значение поля сортировки
+ * последней выданной записи и её id (при равных значениях порядок по id).
+ * sort — порядок, для которого курсор выдан: с другим порядком он не годится
+ */
+export interface Cursor {
+  sort: string;
+  value: number;
+  id: string;
+}
+
+/**
+ * Курсор для клиента — непрозрачная строка
+ */
+export const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id])).toString('base64url');
+
+/**
+ * Разобрать курсор клиента. Повреждённый курсор — ошибка
+ */
+export const decodeCursor = (raw: string): Cursor => {
+  try {
+    const [sort, value, id] = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (typeof sort === 'string' && typeof value === 'number' && typeof id === 'string') {
+      return { sort, value, id };
+    }
+  } catch {
+    // Ниже — общая ошибка
+  }
+  throw new Error('Invalid cursor');
+};
@@ -0,0 +1,77 @@
+/**
+ * Почему ставка отклонена:
+ * - BELOW_RESERVE — ставка ниже резервной цены раунда
+ * - BELOW_MIN_INCREMENT — повышение меньше минимального шага
+ * - NOT_HIGHER_THAN_CURRENT — новая сумма не больше текущей ставки пользователя
+ */
+export type BidRejectionCode = 'BELOW_RESERVE' | 'BELOW_MIN_INCREMENT' | 'NOT_HIGHER_THAN_CURRENT';
+
+/**
+ * Ставка не прошла правила аукциона. minimumAmount — минимальная сумма,
+ * которую можно поставить сейчас (для NOT_HIGHER_THAN_CURRENT сумма
+ * должна быть строго больше currentAmount)
+ */
+export class BidRejectedError extends Error {
+  constructor(
+    message: string,
+    readonly code: BidRejectionCode,
+    readonly minimumAmount: number,
+    readonly currentAmount?: number
+  ) {
+    super(message);
+    this.name = 'BidRejectedError';
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      error: this.message,
+      code: this.code,
+      minimumAmount: this.minimumAmount,
+      currentAmount: this.currentAmount,
+    };
+  }
+}
+
+/**
+ * Какой лимит участия исчерпан:
+ * - MAX_ITEMS_REACHED — пользователь уже выиграл максимум товаров
+ * - MAX_BIDS_REACHED — пользователь сделал максимум ставок и повышений
+ * - MAX_SPEND_REACHED — ставка превысила бы лимит трат
+ */
+export type ParticipationLimitCode = 'MAX_ITEMS_REACHED' | 'MAX_BIDS_REACHED' | 'MAX_SPEND_REACHED';
+
+/**
+ * Пользователь упёрся в лимит участия аукциона. Для MAX_SPEND_REACHED
+ * maximumAmount — наибольшая ставка, которая ещё укладывается в лимит
+ */
+export class ParticipationLimitError extends Error {
+  constructor(
+    message: string,
+    readonly code: ParticipationLimitCode,
+    readonly limit: number,
+    readonly maximumAmount?: number
+  ) {
+    super(message);
+    this.name = 'ParticipationLimitError';
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      error: this.message,
+      code: this.code,
+      limit: this.limit,
+      maximumAmount: this.maximumAmount,
+    };
+  }
+}
+
+/**
+ * Операция с этим Idempotency-Key уже записана в журнал. Повтор запроса
+ * (например, после сбоя, из-за которого потерялся ответ) второй раз не применяется
+ */
+export class RequestAlreadyAppliedError extends Error {
+  constructor(readonly idempotencyKey: string) {
+    super('Request with this Idempotency-Key has already been applied');
+    this.name = 'RequestAlreadyAppliedError';
+  }
+}
@@ -0,0 +1,79 @@
+import { Response } from 'express';
+
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json'];
+
+type CsvValue = string | number | Date | null | undefined;
+
+/**
+ * Колонка CSV: заголовок и значение из строки выгрузки
+ */
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => CsvValue;
+}
+
+/**
+ * Строка CSV (RFC 4180): значения с запятой, кавычкой или переводом строки
+ * берутся в кавычки, даты записываются в ISO 8601
+ */
+export const toCsvLine = (values: CsvValue[]): string =>
+  values
+    .map((value) => {
+      if (value === null || value === undefined) {
+        return '';
+      }
+      const text = value instanceof Date ? value.toISOString() : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',') + '\r\n';
+
+/**
+ * Отправить строки файлом CSV или JSON-массивом по мере их получения.
+ * Запись ждёт, пока клиент примет уже отправленное, и прекращается,
+ * если клиент отключился
+ */
+export const streamExport = async <T>(
+  res: Response,
+  rows: AsyncIterable<T> | Iterable<T>,
+  options: { format: ExportFormat; filename: string; columns: ExportColumn<T>[] }
+): Promise<void> => {
+  const { format, filename, columns } = options;
+  res.set({
+    'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+    'Content-Disposition': `attachment; filename="${filename}.${format}"`,
+  });
+
+  // Буфер ответа заполнен — дождаться, пока клиент его примет или отключится
+  const drained = (): Promise<void> =>
+    new Promise((resolve) => {
+      const done = () => {
+        res.off('drain', done);
+        res.off('close', done);
+        resolve();
+      };
+      res.on('drain', done);
+      res.on('close', done);
+    });
+  const write = async (chunk: string): Promise<void> => {
+    if (!res.write(chunk)) {
+      await drained();
+    }
+  };
+
+  await write(format === 'csv' ? toCsvLine(columns.map((column) => column.header)) : '[');
+  let first = true;
+  for await (const row of rows) {
+    if (res.destroyed) {
+      return;
+    }
+    if (format === 'csv') {
+      await write(toCsvLine(columns.map((column) => column.value(row))));
+    } else {
+      await write(`${first ? '' : ','}\n${JSON.stringify(row)}`);
+    }
+    first = false;
+  }
+  res.end(format === 'csv' ? '' : '\n]\n');
+};
@@ -0,0 +1,117 @@
+import { ParticipationLimitError } from './errors';
+
+/**
+ * Лимиты участия пользователя в аукционе; неуказанный лимит не ограничивает
+ */
+export interface ParticipationLimits {
+  maxItemsPerUser?: number; // Сколько товаров один пользователь может выиграть
+  maxBidsPerUser?: number; // Сколько ставок и повышений он может сделать
+  maxSpendPerUser?: number; // Сколько он может потратить на выигрыши
+}
+
+/**
+ * Выигрыши пользователя в аукционе
+ */
+export interface UserWins {
+  items: number;
+  spent: number;
+}
+
+const NO_WINS: UserWins = { items: 0, spent: 0 };
+
+/**
+ * Проверить лимиты и выбросить ошибку, если они некорректны
+ */
+export const validateParticipationLimits = (limits: ParticipationLimits): void => {
+  for (const field of ['maxItemsPerUser', 'maxBidsPerUser'] as const) {
+    const value = limits[field];
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw new Error(`limits.${field} must be a positive integer`);
+    }
+  }
+
+  const spend = limits.maxSpendPerUser;
+  if (spend !== undefined && (typeof spend !== 'number' || !(spend > 0))) {
+    throw new Error('limits.maxSpendPerUser must be a positive number');
+  }
+};
+
+/**
+ * Выигрыши пользователей по завершённым раундам
+ */
+export const summarizeWins = (
+  rounds: Array<{ winners?: Array<{ userId: string; bidAmount: number; price?: number }> }>
+): Map<string, UserWins> => {
+  const wins = new Map<string, UserWins>();
+
+  for (const round of rounds) {
+    for (const winner of round.winners || []) {
+      const current = wins.get(winner.userId) || NO_WINS;
+      wins.set(winner.userId, {
+        items: current.items + 1,
+        spent: current.spent + (winner.price ?? winner.bidAmount),
+      });
+    }
+  }
+
+  return wins;
+};
+
+/**
+ * Может ли ставка amount выиграть с учётом лимитов. Трата оценивается
+ * по сумме ставки: при единой цене победитель платит не больше неё
+ */
+export const canWin = (
+  limits: ParticipationLimits | undefined,
+  wins: UserWins | undefined,
+  amount: number
+): boolean => {
+  const { items, spent } = wins || NO_WINS;
+
+  if (limits?.maxItemsPerUser !== undefined && items >= limits.maxItemsPerUser) {
+    return false;
+  }
+  if (limits?.maxSpendPerUser !== undefined && spent + amount > limits.maxSpendPerUser) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Проверить лимиты перед ставкой amount и выбросить ParticipationLimitError,
+ * если пользователь в них упёрся. placedBids — сколько ставок и повышений
+ * он уже сделал (нужно только при maxBidsPerUser)
+ */
+export const assertWithinLimits = (
+  limits: ParticipationLimits | undefined,
+  wins: UserWins | undefined,
+  amount: number,
+  placedBids: number = 0
+): void => {
+  const { items, spent } = wins || NO_WINS;
+
+  if (limits?.maxItemsPerUser !== undefined && items >= limits.maxItemsPerUser) {
+    throw new ParticipationLimitError(
+      `You have already won the maximum of ${limits.maxItemsPerUser} items in this auction`,
+      'MAX_ITEMS_REACHED',
+      limits.maxItemsPerUser
+    );
+  }
+
+  if (limits?.maxSpendPerUser !== undefined && spent + amount > limits.maxSpendPerUser) {
+    throw new ParticipationLimitError(
+      `Bid would exceed the spending limit of ${limits.maxSpendPerUser}`,
+      'MAX_SPEND_REACHED',
+      limits.maxSpendPerUser,
+      Math.max(0, limits.maxSpendPerUser - spent)
+    );
+  }
+
+  if (limits?.maxBidsPerUser !== undefined && placedBids >= limits.maxBidsPerUser) {
+    throw new ParticipationLimitError(
+      `You have already placed the maximum of ${limits.maxBidsPerUser} bids in this auction`,
+      'MAX_BIDS_REACHED',
+      limits.maxBidsPerUser
+    );
+  }
+};
@@ -0,0 +1,24 @@
+import { computeClearingPrice } from './pricing';
+
+describe('computeClearingPrice', () => {
+  const standings = [50, 40, 30, 20];
+
+  it('leaves pay_as_bid and rounds without winners unpriced', () => {
+    expect(computeClearingPrice('pay_as_bid', standings, 2, 10)).toBeNull();
+    expect(computeClearingPrice('uniform', [], 0, 10)).toBeNull();
+  });
+
+  it('charges the lowest winning bid under uniform pricing', () => {
+    expect(computeClearingPrice('uniform', standings, 2, 10)).toBe(40);
+  });
+
+  it('charges the highest losing bid under second_price', () => {
+    expect(computeClearingPrice('second_price', standings, 2, 10)).toBe(30);
+  });
+
+  it('keeps the second price between the reserve and the lowest winning bid', () => {
+    expect(computeClearingPrice('second_price', standings, 2, 35)).toBe(35);
+    expect(computeClearingPrice('second_price', standings, 4, 10)).toBe(10);
+    expect(computeClearingPrice('second_price', [50, 40], 2, 45)).toBe(40);
+  });
+});
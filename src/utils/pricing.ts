@@ -0,0 +1,34 @@
+/**
+ * Правило цены для победителей раунда:
+ * - pay_as_bid — каждый платит свою ставку
+ * - uniform — все платят минимальную выигравшую ставку
+ * - second_price — все платят максимальную проигравшую ставку
+ *   (обобщённая цена второго уровня), но не меньше резервной цены раунда
+ */
+export type PricingRule = 'pay_as_bid' | 'uniform' | 'second_price';
+
+export const PRICING_RULES: PricingRule[] = ['pay_as_bid', 'uniform', 'second_price'];
+
+/**
+ * Единая цена раунда или null, если каждый победитель платит свою ставку.
+ * standings — ставки раунда по убыванию, winners — сколько из них выиграли,
+ * floor — резервная цена раунда
+ */
+export const computeClearingPrice = (
+  rule: PricingRule,
+  standings: number[],
+  winners: number,
+  floor: number
+): number | null => {
+  if (rule === 'pay_as_bid' || winners === 0) {
+    return null;
+  }
+
+  if (rule === 'uniform') {
+    return standings[winners - 1];
+  }
+
+  // Проигравших ставок нет — победители платят резервную цену
+  const highestLosing = standings[winners] ?? floor;
+  return Math.min(Math.max(highestLosing, floor), standings[winners - 1]);
+};
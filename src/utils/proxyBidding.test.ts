@@ -0,0 +1,48 @@
+import { outbidAmount, resolveProxyBids } from './proxyBidding';
+
+const round = { roundItems: 1, reserve: 10 };
+
+describe('outbidAmount', () => {
+  it('outbids by the minimum increment or by the default step', () => {
+    expect(outbidAmount({ minIncrement: { type: 'absolute', value: 5 } }, 20)).toBe(25);
+    expect(outbidAmount(undefined, 20.5)).toBe(21.5);
+  });
+});
+
+describe('resolveProxyBids', () => {
+  it('raises a proxy just enough to get back into the top', () => {
+    expect(
+      resolveProxyBids([{ userId: 'alice', amount: 20, sequence: 1 }], [{ userId: 'bob', ceiling: 30 }], round)
+    ).toEqual([{ userId: 'bob', amount: 21, sequence: 2 }]);
+  });
+
+  it('lets two proxies outbid each other until one reaches its ceiling', () => {
+    expect(
+      resolveProxyBids(
+        [],
+        [
+          { userId: 'alice', ceiling: 30 },
+          { userId: 'bob', ceiling: 25 },
+        ],
+        round
+      )
+    ).toEqual([
+      { userId: 'bob', amount: 25, sequence: 16 },
+      { userId: 'alice', amount: 26, sequence: 17 },
+    ]);
+  });
+
+  it('does not raise a proxy already in the top or below the required amount', () => {
+    const standings = [
+      { userId: 'alice', amount: 20, sequence: 1 },
+      { userId: 'bob', amount: 15, sequence: 2 },
+    ];
+    expect(resolveProxyBids(standings, [{ userId: 'alice', ceiling: 100 }], round)).toEqual([]);
+    expect(
+      resolveProxyBids(standings, [{ userId: 'bob', ceiling: 24 }], {
+        ...round,
+        rules: { minIncrement: { type: 'absolute', value: 5 } },
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import { BidRules, minimumRaise } from './bidRules';
+
+/**
+ * Ставка в лидерборде раунда. sequence задаёт порядок при равных суммах:
+ * меньший — более ранняя ставка
+ */
+export interface ProxyStanding {
+  userId: string;
+  amount: number;
+  sequence: number;
+}
+
+/**
+ * Автоставка: до какой суммы система может поднять ставку пользователя.
+ * Потолок уже учитывает баланс и лимиты участия
+ */
+export interface ProxyCeiling {
+  userId: string;
+  ceiling: number;
+}
+
+// Шаг перебивания, если у аукциона не задан minIncrement
+export const DEFAULT_PROXY_STEP = 1;
+
+// Защита от бесконечной торговли автоставок с крошечным шагом
+const MAX_PROXY_RAISES = 10000;
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Минимальная сумма, которая ставит пользователя выше ставки amount:
+ * один шаг minIncrement от неё или DEFAULT_PROXY_STEP
+ */
+export const outbidAmount = (rules: BidRules | undefined, amount: number): number =>
+  minimumRaise(rules, amount) ?? roundToCents(amount + DEFAULT_PROXY_STEP);
+
+const byRank = (a: ProxyStanding, b: ProxyStanding): number =>
+  b.amount - a.amount || a.sequence - b.sequence;
+
+/**
+ * Разыграть автоставки на лидерборде раунда. Пока есть автоставка, чей
+ * пользователь вне первых roundItems мест и потолок позволяет вернуться,
+ * первая из них (в порядке proxies) повышает ставку до минимальной суммы,
+ * которая ставит её в топ, — ровно как сделал бы пользователь вручную.
+ * Возвращает итоговую ставку каждого повысившегося пользователя в порядке
+ * их последних повышений
+ */
+export const resolveProxyBids = (
+  standings: ProxyStanding[],
+  proxies: ProxyCeiling[],
+  round: { roundItems: number; reserve: number; rules?: BidRules }
+): ProxyStanding[] => {
+  const board = standings.map((standing) => ({ ...standing })).sort(byRank);
+  const raises = new Map<string, ProxyStanding>();
+  let sequence = Math.max(0, ...board.map((standing) => standing.sequence)) + 1;
+
+  for (let count = 0; count < MAX_PROXY_RAISES; count += 1) {
+    const top = new Set(board.slice(0, round.roundItems).map((standing) => standing.userId));
+    const cutoff = board[round.roundItems - 1];
+
+    let raised: ProxyStanding | null = null;
+    for (const proxy of proxies) {
+      if (top.has(proxy.userId)) {
+        continue;
+      }
+
+      const own = board.find((standing) => standing.userId === proxy.userId);
+      const required = Math.max(
+        round.reserve,
+        cutoff ? outbidAmount(round.rules, cutoff.amount) : 0,
+        own ? minimumRaise(round.rules, own.amount) ?? 0 : 0
+      );
+
+      if (required <= proxy.ceiling) {
+        raised = { userId: proxy.userId, amount: required, sequence: sequence++ };
+        break;
+      }
+    }
+
+    if (!raised) {
+      break;
+    }
+
+    const index = board.findIndex((standing) => standing.userId === raised!.userId);
+    if (index >= 0) {
+      board.splice(index, 1);
+    }
+    board.push(raised);
+    board.sort(byRank);
+    raises.set(raised.userId, raised);
+  }
+
+  return [...raises.values()].sort((a, b) => a.sequence - b.sequence);
+};
@@ -0,0 +1,48 @@
+import { decideRoundOutcome } from './roundOutcome';
+
+const standings = [
+  { userId: 'alice', amount: 50 },
+  { userId: 'bob', amount: 40 },
+  { userId: 'carol', amount: 30 },
+  { userId: 'dave', amount: 5 },
+];
+
+const round = {
+  roundItems: 2,
+  reserve: 10,
+  pricingRule: 'pay_as_bid' as const,
+  previousWins: new Map(),
+};
+
+describe('decideRoundOutcome', () => {
+  it('awards the top bids at their own amounts', () => {
+    const outcome = decideRoundOutcome(standings, round);
+    expect(outcome.eligible.map((bid) => bid.userId)).toEqual(['alice', 'bob', 'carol']);
+    expect(outcome.winners).toEqual([
+      { userId: 'alice', bidAmount: 50, price: 50, position: 1 },
+      { userId: 'bob', bidAmount: 40, price: 40, position: 2 },
+    ]);
+    expect(outcome.clearingPrice).toBeNull();
+  });
+
+  it('charges every winner the clearing price', () => {
+    const outcome = decideRoundOutcome(standings, { ...round, pricingRule: 'second_price' });
+    expect(outcome.clearingPrice).toBe(30);
+    expect(outcome.winners.map((winner) => winner.price)).toEqual([30, 30]);
+  });
+
+  it('passes the place of a user at the limit to the next bid', () => {
+    const outcome = decideRoundOutcome(standings, {
+      ...round,
+      limits: { maxItemsPerUser: 1 },
+      previousWins: new Map([['alice', { items: 1, spent: 20 }]]),
+    });
+    expect(outcome.winningBids.map((bid) => bid.userId)).toEqual(['bob', 'carol']);
+    expect(outcome.winners.map((winner) => winner.position)).toEqual([1, 2]);
+  });
+
+  it('leaves items unsold when too few bids reach the reserve', () => {
+    const outcome = decideRoundOutcome(standings, { ...round, reserve: 45, pricingRule: 'uniform' });
+    expect(outcome.winners.map((winner) => [winner.userId, winner.price])).toEqual([['alice', 50]]);
+  });
+});
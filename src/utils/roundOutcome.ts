@@ -0,0 +1,57 @@
+import { ParticipationLimits, UserWins, canWin } from './limits';
+import { PricingRule, computeClearingPrice } from './pricing';
+
+export interface RoundWinner {
+  userId: string;
+  bidAmount: number;
+  price: number;
+  position: number;
+}
+
+/**
+ * Итог раунда: кто выиграл и по какой цене
+ */
+export interface RoundOutcome<T> {
+  eligible: T[]; // Ставки, которые могли выиграть в этом раунде
+  winningBids: T[];
+  winners: RoundWinner[];
+  clearingPrice: number | null;
+}
+
+/**
+ * Определить победителей раунда. standings — живые ставки раунда по убыванию
+ * суммы (при равенстве — более ранняя выше). Ставки ниже резервной цены и
+ * ставки пользователей, упёршихся в лимиты, пропускаются, их место получает
+ * следующая ставка. Победителей не больше roundItems
+ */
+export const decideRoundOutcome = <T extends { userId: string; amount: number }>(
+  standings: T[],
+  round: {
+    roundItems: number;
+    reserve: number;
+    pricingRule: PricingRule;
+    limits?: ParticipationLimits;
+    previousWins: Map<string, UserWins>; // Выигрыши в других раундах
+  }
+): RoundOutcome<T> => {
+  const eligible = standings.filter(
+    (bid) =>
+      bid.amount >= round.reserve &&
+      canWin(round.limits, round.previousWins.get(bid.userId), bid.amount)
+  );
+  const winningBids = eligible.slice(0, round.roundItems);
+  const clearingPrice = computeClearingPrice(
+    round.pricingRule,
+    eligible.map((bid) => bid.amount),
+    winningBids.length,
+    round.reserve
+  );
+  const winners = winningBids.map((bid, index) => ({
+    userId: bid.userId,
+    bidAmount: bid.amount,
+    price: clearingPrice ?? bid.amount,
+    position: index + 1,
+  }));
+
+  return { eligible, winningBids, winners, clearingPrice };
+};
@@ -0,0 +1,96 @@
+import { buildRoundPlan, normalizeRoundPlan, planRound, resolveRoundPlan } from './roundPlan';
+
+const seconds = (at: number) => new Date(at * 1000);
+
+const auction = {
+  totalItems: 5,
+  itemsPerRound: 2,
+  roundDuration: 60,
+  minBid: 10,
+  rounds: [],
+};
+
+describe('buildRoundPlan', () => {
+  it('awards the remainder in the final round', () => {
+    expect(buildRoundPlan(5, 2, 60)).toEqual([
+      { roundNumber: 1, items: 2, duration: 60 },
+      { roundNumber: 2, items: 2, duration: 60 },
+      { roundNumber: 3, items: 1, duration: 60 },
+    ]);
+  });
+});
+
+describe('normalizeRoundPlan', () => {
+  it('numbers rounds and fills in the default duration', () => {
+    expect(normalizeRoundPlan([{ items: 3 }, { items: 2, duration: 30 }], 5, 60)).toEqual([
+      { roundNumber: 1, items: 3, duration: 60 },
+      { roundNumber: 2, items: 2, duration: 30 },
+    ]);
+  });
+
+  it('rejects invalid plans', () => {
+    expect(() => normalizeRoundPlan([], 5, 60)).toThrow('roundPlan must be a non-empty array');
+    expect(() => normalizeRoundPlan([{ items: 0 }], 5, 60)).toThrow(
+      'roundPlan[0].items must be a positive integer'
+    );
+    expect(() => normalizeRoundPlan([{ items: 5, duration: 5 }], 5, 60)).toThrow(
+      'roundPlan[0].duration must be at least 10 seconds'
+    );
+    expect(() => normalizeRoundPlan([{ items: 2 }, { items: 2 }], 5, 60)).toThrow(
+      'roundPlan awards 4 items, but totalItems is 5'
+    );
+  });
+});
+
+describe('resolveRoundPlan', () => {
+  it('derives the plan of auctions created before plans existed', () => {
+    expect(resolveRoundPlan({ ...auction, roundPlan: [] })).toEqual(buildRoundPlan(5, 2, 60));
+  });
+
+  it('prefers the explicit plan', () => {
+    const roundPlan = [{ roundNumber: 1, items: 5, duration: 30 }];
+    expect(resolveRoundPlan({ ...auction, roundPlan })).toBe(roundPlan);
+  });
+});
+
+describe('planRound', () => {
+  it('starts an active round now and adds unsold items', () => {
+    expect(planRound(auction, 2, 3, 1, seconds(100))).toEqual({
+      roundNumber: 2,
+      items: 3,
+      reservePrice: 10,
+      startTime: seconds(100),
+      endTime: seconds(160),
+      status: 'active',
+      winners: [],
+      totalBids: 3,
+      extensions: [],
+    });
+  });
+
+  it('postpones the round past a blackout window', () => {
+    const round = planRound(
+      { ...auction, blackoutWindows: [{ start: '00:00', end: '00:05' }] },
+      1,
+      0,
+      0,
+      seconds(100)
+    );
+    expect([round.status, round.startTime, round.endTime]).toEqual(['pending', seconds(300), seconds(360)]);
+  });
+
+  it('takes the reserve price from the previous round', () => {
+    const round = planRound(
+      {
+        ...auction,
+        bidRules: { reserve: { mode: 'clearing_price' } },
+        rounds: [{ clearingPrice: 25, winners: [{ bidAmount: 30 }] }],
+      },
+      2,
+      0,
+      0,
+      seconds(100)
+    );
+    expect(round.reservePrice).toBe(25);
+  });
+});
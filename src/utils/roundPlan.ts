@@ -0,0 +1,126 @@
+import { BidRules, computeRoundReserve } from './bidRules';
+import { BlackoutWindow, nextAllowedTime } from './schedule';
+import { RoundExtension } from './antiSniping';
+
+/**
+ * Раунд в плане аукциона: сколько товаров разыгрывается и сколько длится раунд (в секундах)
+ */
+export interface PlannedRound {
+  roundNumber: number;
+  items: number;
+  duration: number;
+}
+
+// Минимальная длительность раунда, как у roundDuration
+const MIN_ROUND_DURATION = 10;
+
+/**
+ * План по умолчанию: раунды по itemsPerRound товаров, последний — с остатком
+ */
+export const buildRoundPlan = (
+  totalItems: number,
+  itemsPerRound: number,
+  roundDuration: number
+): PlannedRound[] => {
+  const plan: PlannedRound[] = [];
+
+  for (let awarded = 0; awarded < totalItems; awarded += itemsPerRound) {
+    plan.push({
+      roundNumber: plan.length + 1,
+      items: Math.min(itemsPerRound, totalItems - awarded),
+      duration: roundDuration,
+    });
+  }
+
+  return plan;
+};
+
+/**
+ * Нормализовать явно заданный план: пронумеровать раунды, подставить
+ * длительность по умолчанию и проверить, что товаров ровно totalItems
+ */
+export const normalizeRoundPlan = (
+  plan: Array<{ items: number; duration?: number }>,
+  totalItems: number,
+  roundDuration: number
+): PlannedRound[] => {
+  if (!Array.isArray(plan) || plan.length === 0) {
+    throw new Error('roundPlan must be a non-empty array');
+  }
+
+  const normalized = plan.map((round, index) => {
+    if (!Number.isInteger(round.items) || round.items < 1) {
+      throw new Error(`roundPlan[${index}].items must be a positive integer`);
+    }
+
+    const duration = round.duration ?? roundDuration;
+    if (typeof duration !== 'number' || !(duration >= MIN_ROUND_DURATION)) {
+      throw new Error(`roundPlan[${index}].duration must be at least ${MIN_ROUND_DURATION} seconds`);
+    }
+
+    return { roundNumber: index + 1, items: round.items, duration };
+  });
+
+  const plannedItems = normalized.reduce((sum, round) => sum + round.items, 0);
+  if (plannedItems !== totalItems) {
+    throw new Error(`roundPlan awards ${plannedItems} items, but totalItems is ${totalItems}`);
+  }
+
+  return normalized;
+};
+
+/**
+ * Параметры аукциона, из которых складывается его план
+ */
+export interface RoundPlanSource {
+  roundPlan?: PlannedRound[];
+  totalItems: number;
+  itemsPerRound: number;
+  roundDuration: number;
+}
+
+/**
+ * План аукциона; у аукционов, созданных до появления планов, он выводится из параметров
+ */
+export const resolveRoundPlan = (auction: RoundPlanSource): PlannedRound[] =>
+  auction.roundPlan && auction.roundPlan.length > 0
+    ? auction.roundPlan
+    : buildRoundPlan(auction.totalItems, auction.itemsPerRound, auction.roundDuration);
+
+/**
+ * Параметры нового раунда в момент now. Если сейчас действует окно
+ * блокировки, раунд создаётся в статусе pending и начинается после окна.
+ * Непроданные в прошлом раунде товары (unsoldItems) добавляются к плану
+ */
+export const planRound = (
+  auction: {
+    roundPlan?: PlannedRound[];
+    totalItems: number;
+    itemsPerRound: number;
+    roundDuration: number;
+    minBid: number;
+    bidRules?: BidRules;
+    timezone?: string;
+    blackoutWindows?: BlackoutWindow[];
+    rounds: Array<{ reservePrice?: number; clearingPrice?: number; winners?: Array<{ bidAmount: number }> }>;
+  },
+  roundNumber: number,
+  totalBids: number,
+  unsoldItems: number,
+  now: Date
+) => {
+  const startTime = nextAllowedTime(now, auction.timezone || 'UTC', auction.blackoutWindows || []);
+  const planned = resolveRoundPlan(auction)[roundNumber - 1];
+
+  return {
+    roundNumber,
+    items: planned.items + unsoldItems,
+    reservePrice: computeRoundReserve(auction.bidRules, auction.minBid, auction.rounds[roundNumber - 2]),
+    startTime,
+    endTime: new Date(startTime.getTime() + planned.duration * 1000),
+    status: startTime > now ? 'pending' as const : 'active' as const,
+    winners: [],
+    totalBids,
+    extensions: [] as RoundExtension[],
+  };
+};
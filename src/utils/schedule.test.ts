@@ -0,0 +1,52 @@
+import { nextAllowedTime, validateBlackoutWindows } from './schedule';
+
+describe('validateBlackoutWindows', () => {
+  it('accepts windows that leave time for rounds', () => {
+    expect(() => validateBlackoutWindows([{ start: '22:00', end: '06:00' }])).not.toThrow();
+    expect(() =>
+      validateBlackoutWindows([
+        { start: '00:00', end: '00:00', daysOfWeek: [0, 1, 2, 3, 4, 5] },
+        { start: '00:00', end: '23:59', daysOfWeek: [6] },
+      ])
+    ).not.toThrow();
+  });
+
+  it('rejects windows that together cover the whole day or week', () => {
+    const message = 'Blackout windows cover the whole week and leave no time for rounds';
+    expect(() => validateBlackoutWindows([{ start: '09:00', end: '09:00' }])).toThrow(message);
+    expect(() =>
+      validateBlackoutWindows([
+        { start: '00:00', end: '12:00' },
+        { start: '12:00', end: '00:00' },
+      ])
+    ).toThrow(message);
+    expect(() =>
+      validateBlackoutWindows([
+        { start: '06:00', end: '06:00', daysOfWeek: [0, 2, 4, 6] },
+        { start: '06:00', end: '18:00', daysOfWeek: [1, 3, 5] },
+        { start: '18:00', end: '06:00', daysOfWeek: [1, 3, 5] },
+      ])
+    ).toThrow(message);
+  });
+
+  it('rejects malformed windows', () => {
+    expect(() => validateBlackoutWindows([{ start: '24:00', end: '01:00' }])).toThrow(
+      'Invalid time "24:00", expected HH:mm'
+    );
+    expect(() => validateBlackoutWindows([{ start: '01:00', end: '02:00', daysOfWeek: [7] }])).toThrow(
+      'daysOfWeek must contain integers from 0 (Sunday) to 6 (Saturday)'
+    );
+  });
+});
+
+describe('nextAllowedTime', () => {
+  it('moves a start out of overnight windows', () => {
+    const windows = [{ start: '22:00', end: '06:00' }];
+    expect(nextAllowedTime(new Date('2026-01-05T23:30:00Z'), 'UTC', windows)).toEqual(
+      new Date('2026-01-06T06:00:00Z')
+    );
+    expect(nextAllowedTime(new Date('2026-01-05T12:00:00Z'), 'UTC', windows)).toEqual(
+      new Date('2026-01-05T12:00:00Z')
+    );
+  });
+});
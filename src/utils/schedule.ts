@@ -0,0 +1,159 @@
+/**
+ * Ежедневное окно в часовом поясе аукциона, в которое раунды не начинаются.
+ * start/end в формате HH:mm; если start > end, окно переходит через полночь.
+ * daysOfWeek (0 — воскресенье) ограничивает дни, в которые окно начинается.
+ */
+export interface BlackoutWindow {
+  start: string;
+  end: string;
+  daysOfWeek?: number[];
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Защита от бесконечного цикла при окнах, покрывающих всю неделю
+const MAX_WINDOW_HOPS = 16;
+
+/**
+ * Проверить, что строка — IANA-часовой пояс, известный среде выполнения
+ */
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const parseTime = (value: string): number => {
+  const match = TIME_PATTERN.exec(value);
+  if (!match) {
+    throw new Error(`Invalid time "${value}", expected HH:mm`);
+  }
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+};
+
+/**
+ * Покрывают ли окна все минуты недели (по местному времени)
+ */
+const coversWholeWeek = (windows: BlackoutWindow[]): boolean => {
+  const blocked = new Uint8Array(MINUTES_PER_WEEK);
+
+  for (const window of windows) {
+    const start = parseTime(window.start);
+    const end = parseTime(window.end);
+    // Окно через полночь заканчивается на следующий день, start === end — весь день
+    const length = end > start ? end - start : MINUTES_PER_DAY - start + end;
+
+    for (const day of window.daysOfWeek ?? [0, 1, 2, 3, 4, 5, 6]) {
+      const from = day * MINUTES_PER_DAY + start;
+      for (let minute = from; minute < from + length; minute++) {
+        blocked[minute % MINUTES_PER_WEEK] = 1;
+      }
+    }
+  }
+
+  return blocked.every((minute) => minute === 1);
+};
+
+/**
+ * Проверить окна блокировки и выбросить ошибку, если формат неверный
+ * или окна вместе не оставляют времени для раундов
+ */
+export const validateBlackoutWindows = (windows: BlackoutWindow[]): void => {
+  for (const window of windows) {
+    parseTime(window.start);
+    parseTime(window.end);
+
+    if (window.daysOfWeek?.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new Error('daysOfWeek must contain integers from 0 (Sunday) to 6 (Saturday)');
+    }
+  }
+
+  if (coversWholeWeek(windows)) {
+    throw new Error('Blackout windows cover the whole week and leave no time for rounds');
+  }
+};
+
+/**
+ * День недели и минута от начала суток в указанном часовом поясе
+ */
+const getLocalTime = (date: Date, timezone: string): { day: number; minutes: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+
+  return {
+    day: WEEKDAYS.indexOf(get('weekday')),
+    minutes: parseInt(get('hour'), 10) * 60 + parseInt(get('minute'), 10),
+  };
+};
+
+/**
+ * Сколько минут осталось до конца окна, если момент попадает в окно, иначе null
+ */
+const minutesUntilWindowEnd = (
+  local: { day: number; minutes: number },
+  window: BlackoutWindow
+): number | null => {
+  const start = parseTime(window.start);
+  const end = parseTime(window.end);
+  const appliesTo = (day: number) => !window.daysOfWeek || window.daysOfWeek.includes(day);
+  const { day, minutes } = local;
+
+  if (start === end) {
+    // Окно на весь день
+    return appliesTo(day) ? MINUTES_PER_DAY - minutes : null;
+  }
+
+  if (start < end) {
+    return appliesTo(day) && minutes >= start && minutes < end ? end - minutes : null;
+  }
+
+  // Окно через полночь: вечерняя часть сегодня или утренняя часть вчерашнего окна
+  if (minutes >= start && appliesTo(day)) {
+    return MINUTES_PER_DAY - minutes + end;
+  }
+  if (minutes < end && appliesTo((day + 6) % 7)) {
+    return end - minutes;
+  }
+  return null;
+};
+
+/**
+ * Ближайший момент не раньше from, не попадающий ни в одно окно блокировки
+ */
+export const nextAllowedTime = (
+  from: Date,
+  timezone: string,
+  windows: BlackoutWindow[]
+): Date => {
+  let candidate = new Date(from);
+
+  for (let hop = 0; hop < MAX_WINDOW_HOPS; hop++) {
+    const local = getLocalTime(candidate, timezone);
+    const waits = windows
+      .map((window) => minutesUntilWindowEnd(local, window))
+      .filter((wait): wait is number => wait !== null);
+
+    if (waits.length === 0) {
+      return candidate;
+    }
+
+    // Перейти к началу минуты, в которую заканчивается самое длинное из окон
+    const next = new Date(candidate.getTime() + Math.max(...waits) * 60000);
+    next.setUTCSeconds(0, 0);
+    candidate = next;
+  }
+
+  throw new Error('Blackout windows leave no time for rounds');
+};
@@ -0,0 +1,92 @@
+import mongoose from 'mongoose';
+import { buildSettlement } from './settlement';
+
+const seconds = (at: number) => new Date(at * 1000);
+
+const round = (roundNumber: number, winners: Array<[string, number, number]>, clearingPrice?: number) => ({
+  roundNumber,
+  items: 2,
+  startTime: seconds((roundNumber - 1) * 60),
+  endTime: seconds(roundNumber * 60),
+  status: 'completed' as const,
+  winners: winners.map(([userId, bidAmount, price], index) => ({ userId, bidAmount, price, position: index + 1 })),
+  clearingPrice,
+  totalBids: 3,
+  extensions: [],
+});
+
+const auction = {
+  _id: new mongoose.Types.ObjectId(),
+  title: 'Settlement',
+  status: 'completed' as const,
+  pricingRule: 'uniform' as const,
+  totalItems: 4,
+  rounds: [
+    round(1, [
+      ['alice', 50, 40],
+      ['bob', 40, 40],
+    ], 40),
+    round(2, [['carol', 30, 30]], 30),
+  ],
+  completedAt: seconds(120),
+};
+
+const bids = [
+  { userId: 'alice', amount: 50, roundNumber: 1, placedInRound: 1 },
+  { userId: 'bob', amount: 40, roundNumber: 1, placedInRound: 1 },
+  { userId: 'carol', amount: 30, roundNumber: 2, placedInRound: 1 },
+  { userId: 'dave', amount: 20, roundNumber: 2, placedInRound: 2 },
+];
+
+const entry = (userId: string, type: 'bid' | 'win' | 'refund', amount: number, roundNumber: number) => ({
+  userId,
+  type,
+  status: 'completed' as const,
+  amount,
+  roundNumber,
+});
+
+const transactions = [
+  entry('alice', 'bid', 50, 1),
+  entry('bob', 'bid', 40, 1),
+  entry('carol', 'bid', 30, 1),
+  entry('alice', 'win', 40, 1),
+  entry('bob', 'win', 40, 1),
+  entry('alice', 'refund', 10, 1),
+  entry('dave', 'bid', 20, 2),
+  { ...entry('dave', 'refund', 20, 2), status: 'failed' as const },
+  entry('carol', 'win', 30, 2),
+];
+
+describe('buildSettlement', () => {
+  const report = buildSettlement(auction, bids, transactions, seconds(200));
+
+  it('sums revenue, sold items and completed refunds', () => {
+    expect(report.totals).toEqual({
+      revenue: 110,
+      uniqueBidders: 4,
+      itemsSold: 3,
+      totalItems: 4,
+      unsoldItems: 1,
+      refunds: { count: 1, amount: 10 },
+    });
+  });
+
+  it('reports thresholds and carried bids per round', () => {
+    expect(
+      report.rounds.map((row) => [row.roundNumber, row.threshold, row.revenue, row.carriedOver, row.refunds.count])
+    ).toEqual([
+      [1, 40, 80, 1, 1],
+      [2, 30, 30, 0, 0],
+    ]);
+  });
+
+  it('orders users by payment and keeps what the ledger still holds', () => {
+    expect(report.users.map((user) => [user.userId, user.paid, user.refunded, user.held, user.wonRounds])).toEqual([
+      ['alice', 40, 10, 0, [1]],
+      ['bob', 40, 0, 0, [1]],
+      ['carol', 30, 0, 0, [2]],
+      ['dave', 0, 0, 20, []],
+    ]);
+  });
+});
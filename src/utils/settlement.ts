@@ -0,0 +1,188 @@
+import { IAuction } from '../models/Auction';
+import { IBid } from '../models/Bid';
+import { ITransaction } from '../models/Transaction';
+
+export interface SettlementWinner {
+  position: number;
+  userId: string;
+  bidAmount: number;
+  price: number; // Сколько заплатил победитель
+}
+
+export interface SettlementRound {
+  roundNumber: number;
+  status: IAuction['rounds'][number]['status'];
+  items: number | null;
+  reservePrice: number | null;
+  startTime: Date;
+  endTime: Date;
+  totalBids: number;
+  winners: SettlementWinner[];
+  clearingPrice: number | null; // Единая цена при правилах uniform и second_price
+  threshold: number | null; // Самая низкая выигравшая ставка — порог входа в число победителей
+  revenue: number;
+  carriedOver: number; // Ставок, перенесённых в следующий раунд
+  refunds: { count: number; amount: number }; // Возвраты, выданные по итогам раунда
+}
+
+/**
+ * Итог участия пользователя. held — сколько ещё заблокировано по журналу
+ * (заблокировано − возвращено − оплачено); после расчётов должно быть 0
+ */
+export interface SettlementUser {
+  userId: string;
+  bids: number;
+  highestBid: number;
+  itemsWon: number;
+  wonRounds: number[];
+  charged: number; // Заблокировано под ставки и повышения
+  paid: number;
+  refunded: number;
+  held: number;
+}
+
+export interface SettlementReport {
+  auctionId: string;
+  title: string;
+  status: IAuction['status'];
+  pricingRule: IAuction['pricingRule'];
+  completedAt: Date | null;
+  cancelledAt: Date | null;
+  generatedAt: Date;
+  totals: {
+    revenue: number;
+    uniqueBidders: number;
+    itemsSold: number;
+    totalItems: number;
+    unsoldItems: number;
+    refunds: { count: number; amount: number };
+  };
+  rounds: SettlementRound[];
+  users: SettlementUser[];
+}
+
+type SettlementAuction = Pick<
+  IAuction,
+  '_id' | 'title' | 'status' | 'pricingRule' | 'totalItems' | 'rounds' | 'completedAt' | 'cancelledAt'
+>;
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Собрать отчёт о расчётах по аукциону: итоги раундов, общие итоги и
+ * итог каждого участника. Победители и цены берутся из раундов аукциона,
+ * переносы — из ставок, деньги участников — из журнала операций
+ */
+export const buildSettlement = (
+  auction: SettlementAuction,
+  bids: Array<Pick<IBid, 'userId' | 'amount' | 'roundNumber' | 'placedInRound'>>,
+  transactions: Array<Pick<ITransaction, 'userId' | 'type' | 'status' | 'amount' | 'roundNumber'>>,
+  generatedAt: Date
+): SettlementReport => {
+  const completed = transactions.filter((transaction) => transaction.status === 'completed');
+  const refunds = completed.filter((transaction) => transaction.type === 'refund');
+
+  const rounds: SettlementRound[] = auction.rounds.map((round) => {
+    const winners = round.winners.map((winner) => ({
+      position: winner.position,
+      userId: winner.userId,
+      bidAmount: winner.bidAmount,
+      price: winner.price ?? winner.bidAmount,
+    }));
+    const roundRefunds = refunds.filter((refund) => refund.roundNumber === round.roundNumber);
+
+    return {
+      roundNumber: round.roundNumber,
+      status: round.status,
+      items: round.items ?? null,
+      reservePrice: round.reservePrice ?? null,
+      startTime: round.startTime,
+      endTime: round.endTime,
+      totalBids: round.totalBids,
+      winners,
+      clearingPrice: round.clearingPrice ?? null,
+      threshold: winners.length > 0 ? Math.min(...winners.map((winner) => winner.bidAmount)) : null,
+      revenue: sum(winners.map((winner) => winner.price)),
+      // Ставка ушла из раунда дальше, если сделана в нём или раньше, а сейчас числится в более позднем
+      carriedOver: bids.filter(
+        (bid) => bid.placedInRound <= round.roundNumber && bid.roundNumber > round.roundNumber
+      ).length,
+      refunds: { count: roundRefunds.length, amount: sum(roundRefunds.map((refund) => refund.amount)) },
+    };
+  });
+
+  const users = new Map<string, SettlementUser>();
+  const userFor = (userId: string): SettlementUser => {
+    let user = users.get(userId);
+    if (!user) {
+      user = {
+        userId,
+        bids: 0,
+        highestBid: 0,
+        itemsWon: 0,
+        wonRounds: [],
+        charged: 0,
+        paid: 0,
+        refunded: 0,
+        held: 0,
+      };
+      users.set(userId, user);
+    }
+    return user;
+  };
+
+  for (const bid of bids) {
+    const user = userFor(bid.userId);
+    user.bids += 1;
+    user.highestBid = Math.max(user.highestBid, bid.amount);
+  }
+  for (const round of rounds) {
+    for (const winner of round.winners) {
+      const user = userFor(winner.userId);
+      user.itemsWon += 1;
+      user.wonRounds.push(round.roundNumber);
+    }
+  }
+  for (const transaction of completed) {
+    const user = userFor(transaction.userId);
+    switch (transaction.type) {
+      case 'bid':
+      case 'bid_increase':
+        user.charged += transaction.amount;
+        break;
+      case 'refund':
+        user.refunded += transaction.amount;
+        break;
+      case 'win':
+        user.paid += transaction.amount;
+        break;
+    }
+  }
+  for (const user of users.values()) {
+    user.held = user.charged - user.refunded - user.paid;
+  }
+
+  const itemsSold = sum(rounds.map((round) => round.winners.length));
+  return {
+    auctionId: auction._id.toString(),
+    title: auction.title,
+    status: auction.status,
+    pricingRule: auction.pricingRule,
+    completedAt: auction.completedAt ?? null,
+    cancelledAt: auction.cancelledAt ?? null,
+    generatedAt,
+    totals: {
+      revenue: sum(rounds.map((round) => round.revenue)),
+      uniqueBidders: new Set(bids.map((bid) => bid.userId)).size,
+      itemsSold,
+      totalItems: auction.totalItems,
+      unsoldItems: auction.totalItems - itemsSold,
+      refunds: { count: refunds.length, amount: sum(refunds.map((refund) => refund.amount)) },
+    },
+    rounds,
+    // Сначала больше оплативших, затем по наибольшей ставке
+    users: [...users.values()].sort(
+      (a, b) => b.paid - a.paid || b.highestBid - a.highestBid || a.userId.localeCompare(b.userId)
+    ),
+  };
+};
@@ -0,0 +1,48 @@
+import { signInitData, verifyInitData } from './telegramInitData';
+
+const BOT_TOKEN = '123456:test-token';
+const MAX_AGE_SECONDS = 3600;
+const AUTH_DATE = new Date('2026-01-01T12:00:00Z');
+
+const seconds = (offset: number) => new Date(AUTH_DATE.getTime() + offset * 1000);
+
+const signed = signInitData({ id: 42, username: 'alice', first_name: 'Alice' }, BOT_TOKEN, AUTH_DATE);
+
+describe('verifyInitData', () => {
+  it('returns the user from signed initData', () => {
+    expect(verifyInitData(signed, BOT_TOKEN, MAX_AGE_SECONDS, seconds(60))).toEqual({
+      user: { userId: '42', username: 'alice', firstName: 'Alice', lastName: undefined, languageCode: undefined },
+      authDate: AUTH_DATE,
+      queryId: undefined,
+    });
+  });
+
+  it('rejects missing or foreign signatures', () => {
+    const params = new URLSearchParams(signed);
+    params.delete('hash');
+    expect(() => verifyInitData(params.toString(), BOT_TOKEN, MAX_AGE_SECONDS, AUTH_DATE)).toThrow(
+      'initData signature is missing'
+    );
+    expect(() => verifyInitData(signed, '654321:other-token', MAX_AGE_SECONDS, AUTH_DATE)).toThrow(
+      'initData signature is invalid'
+    );
+  });
+
+  it('rejects tampered data', () => {
+    const params = new URLSearchParams(signed);
+    params.set('user', JSON.stringify({ id: 7 }));
+    expect(() => verifyInitData(params.toString(), BOT_TOKEN, MAX_AGE_SECONDS, AUTH_DATE)).toThrow(
+      'initData signature is invalid'
+    );
+  });
+
+  it('rejects expired data and data from the future beyond clock skew', () => {
+    expect(() => verifyInitData(signed, BOT_TOKEN, MAX_AGE_SECONDS, seconds(MAX_AGE_SECONDS + 1))).toThrow(
+      'initData has expired'
+    );
+    expect(() => verifyInitData(signed, BOT_TOKEN, MAX_AGE_SECONDS, seconds(-20))).not.toThrow();
+    expect(() => verifyInitData(signed, BOT_TOKEN, MAX_AGE_SECONDS, seconds(-31))).toThrow(
+      'initData has expired'
+    );
+  });
+});
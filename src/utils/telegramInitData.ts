@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+
+/**
+ * Пользователь из подписанных данных Telegram Mini App
+ */
+export interface TelegramUser {
+  userId: string;
+  username?: string;
+  firstName?: string;
+  lastName?: string;
+  languageCode?: string;
+}
+
+export interface VerifiedInitData {
+  user: TelegramUser;
+  authDate: Date;
+  queryId?: string;
+}
+
+/**
+ * Поле user в initData, как его передаёт Telegram
+ */
+interface InitDataUser {
+  id?: number | string | null;
+  username?: string;
+  first_name?: string;
+  last_name?: string;
+  language_code?: string;
+}
+
+// Допустимое расхождение часов клиента и сервера, секунд
+const CLOCK_SKEW_SECONDS = 30;
+
+/**
+ * Секретный ключ Mini App: HMAC-SHA256 токена бота с ключом "WebAppData"
+ */
+const getSecretKey = (botToken: string): Buffer =>
+  crypto.createHmac('sha256', 'WebAppData').update(botToken).digest();
+
+/**
+ * Строка для проверки подписи: пары key=value без hash,
+ * отсортированные по ключу и разделённые переводом строки
+ */
+const buildDataCheckString = (params: URLSearchParams): string =>
+  Array.from(params.entries())
+    .filter(([key]) => key !== 'hash')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n');
+
+/**
+ * Проверить подпись и свежесть initData Telegram Mini App.
+ * https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app
+ */
+export const verifyInitData = (
+  initData: string,
+  botToken: string,
+  maxAgeSeconds: number,
+  now: Date = new Date()
+): VerifiedInitData => {
+  const params = new URLSearchParams(initData);
+  const hash = params.get('hash');
+
+  if (!hash) {
+    throw new Error('initData signature is missing');
+  }
+
+  const expected = crypto
+    .createHmac('sha256', getSecretKey(botToken))
+    .update(buildDataCheckString(params))
+    .digest('hex');
+
+  const received = Buffer.from(hash, 'hex');
+  if (
+    received.length !== expected.length / 2 ||
+    !crypto.timingSafeEqual(received, Buffer.from(expected, 'hex'))
+  ) {
+    throw new Error('initData signature is invalid');
+  }
+
+  const authDateSeconds = parseInt(params.get('auth_date') || '', 10);
+  if (!Number.isFinite(authDateSeconds)) {
+    throw new Error('initData auth_date is missing');
+  }
+
+  const ageSeconds = now.getTime() / 1000 - authDateSeconds;
+  if (ageSeconds > maxAgeSeconds || ageSeconds < -CLOCK_SKEW_SECONDS) {
+    throw new Error('initData has expired');
+  }
+
+  const rawUser = params.get('user');
+  if (!rawUser) {
+    throw new Error('initData user is missing');
+  }
+
+  let user: InitDataUser | null;
+  try {
+    user = JSON.parse(rawUser) as InitDataUser | null;
+  } catch {
+    throw new Error('initData user is malformed');
+  }
+
+  if (user?.id === undefined || user?.id === null) {
+    throw new Error('initData user is malformed');
+  }
+
+  return {
+    user: {
+      userId: String(user.id),
+      username: user.username,
+      firstName: user.first_name,
+      lastName: user.last_name,
+      languageCode: user.language_code,
+    },
+    authDate: new Date(authDateSeconds * 1000),
+    queryId: params.get('query_id') || undefined,
+  };
+};
+
+/**
+ * Подписать initData токеном бота (для нагрузочного теста и локальной отладки)
+ */
+export const signInitData = (
+  user: { id: string | number; username?: string; first_name?: string },
+  botToken: string,
+  authDate: Date = new Date()
+): string => {
+  const params = new URLSearchParams();
+  params.set('auth_date', Math.floor(authDate.getTime() / 1000).toString());
+  params.set('user', JSON.stringify(user));
+
+  const hash = crypto
+    .createHmac('sha256', getSecretKey(botToken))
+    .update(buildDataCheckString(params))
+    .digest('hex');
+  params.set('hash', hash);
+
+  return params.toString();
+};